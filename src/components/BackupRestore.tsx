@@ -0,0 +1,249 @@
+import { useRef, useState, useEffect } from 'react';
+import { Download, Upload, AlertTriangle } from 'lucide-react';
+import { exportAllData, DataSnapshot } from '@/lib/db';
+import {
+  createBackup,
+  getBackupFileName,
+  parseBackup,
+  planRestore,
+  applyRestore,
+  ParsedBackup,
+  RestoreMode,
+  RestorePlan,
+  BackupStore,
+} from '@/lib/backup';
+import { materializeReminders } from '@/lib/reminderEngine';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const storeLabels: Record<BackupStore, string> = {
+  events: 'Classes & events',
+  tasks: 'Tasks',
+  terms: 'Terms',
+  exceptions: 'One-off changes',
+  reminders: 'Reminders',
+  summaries: 'Weekly summaries',
+  templates: 'Timetable templates',
+  settings: 'Settings',
+};
+
+const modeOptions: { value: RestoreMode; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge', description: 'Keep what is here and add or update from the backup' },
+  { value: 'replace', label: 'Replace', description: 'Delete everything here and restore the backup exactly' },
+];
+
+export function BackupRestore() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [current, setCurrent] = useState<DataSnapshot | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    setPlan(parsed && current ? planRestore(parsed.backup, current, mode) : null);
+  }, [parsed, current, mode]);
+
+  const handleExport = async () => {
+    try {
+      const backup = await createBackup();
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName(backup);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      toast.success(`Backed up ${backup.data.events.length} classes`);
+    } catch (e) {
+      console.error('Backup failed:', e);
+      toast.error('Could not create a backup');
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseBackup(await file.text());
+      setCurrent(await exportAllData());
+      setMode('merge');
+      setParsed(result);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not read this backup');
+    }
+  };
+
+  const handleClose = () => {
+    setParsed(null);
+    setCurrent(null);
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    if (plan.mode === 'replace' && !confirm('Replace all current data with this backup?')) return;
+
+    setRestoring(true);
+    try {
+      await applyRestore(plan);
+      await materializeReminders();
+      toast.success('Backup restored');
+      window.location.reload();
+    } catch (e) {
+      console.error('Restore failed:', e);
+      toast.error('Restore failed. Nothing was changed.');
+      setRestoring(false);
+    }
+  };
+
+  const rows = plan
+    ? (Object.keys(storeLabels) as BackupStore[])
+        .map(store => ({ store, ...plan.changes[store] }))
+        .filter(row => row.added + row.updated + row.unchanged + row.removed > 0)
+    : [];
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={handleExport}>
+          <Download className="mr-1 h-3 w-3" />
+          Export backup
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 flex-1 text-xs"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="mr-1 h-3 w-3" />
+          Restore
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+      </div>
+
+      <Dialog open={!!parsed} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="max-h-[85vh] max-w-sm overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Restore backup</DialogTitle>
+          </DialogHeader>
+
+          {parsed && plan && (
+            <div className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                Made {new Date(parsed.backup.exportedAt).toLocaleString()}
+              </p>
+
+              <div className="grid grid-cols-2 gap-2">
+                {modeOptions.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={cn(
+                      'rounded-lg py-2 text-sm font-medium transition-colors',
+                      mode === value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted text-muted-foreground hover:bg-accent'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {modeOptions.find(o => o.value === mode)?.description}
+              </p>
+
+              {/* What will change */}
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-1 text-left font-medium" />
+                    <th className="py-1 text-right font-medium">New</th>
+                    <th className="py-1 text-right font-medium">Updated</th>
+                    <th className="py-1 text-right font-medium">Removed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.store} className="border-t border-border">
+                      <td className="py-1.5 text-foreground">{storeLabels[row.store]}</td>
+                      <td className="py-1.5 text-right text-success">{row.added || '–'}</td>
+                      <td className="py-1.5 text-right text-foreground">{row.updated || '–'}</td>
+                      <td className="py-1.5 text-right text-destructive">{row.removed || '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {plan.addedEvents.length > 0 && (
+                <EventList label="Added" titles={plan.addedEvents} />
+              )}
+              {plan.updatedEvents.length > 0 && (
+                <EventList label="Updated" titles={plan.updatedEvents} />
+              )}
+              {plan.removedEvents.length > 0 && (
+                <EventList label="Removed" titles={plan.removedEvents} />
+              )}
+
+              {parsed.invalid.length > 0 && (
+                <div className="rounded-lg bg-warning/10 p-2 text-xs text-warning">
+                  <div className="flex items-center gap-1.5 font-medium">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    {parsed.invalid.length} invalid record(s) will be skipped
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {parsed.invalid.slice(0, 5).map(record => (
+                      <li key={`${record.store}-${record.index}`}>
+                        {storeLabels[record.store]} #{record.index + 1}: {record.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={handleClose} className="flex-1" disabled={restoring}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleRestore}
+                  className={cn('flex-1', mode === 'replace' ? 'bg-destructive hover:bg-destructive/90' : 'btn-primary-gradient')}
+                  disabled={restoring}
+                >
+                  {restoring ? 'Restoring...' : mode === 'replace' ? 'Replace' : 'Merge'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function EventList({ label, titles }: { label: string; titles: string[] }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-foreground">{label}</p>
+      <p className="mt-0.5 text-xs text-muted-foreground">
+        {titles.slice(0, 8).join(', ')}
+        {titles.length > 8 && ` and ${titles.length - 8} more`}
+      </p>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { Home, Calendar, Plus, Settings, Bell } from 'lucide-react';
+import { Home, Calendar, Plus, Settings, Bell, ClipboardList } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface BottomNavProps {
@@ -11,6 +11,7 @@ interface BottomNavProps {
 const navItems = [
   { id: 'today', label: 'Today', icon: Home },
   { id: 'timetable', label: 'Timetable', icon: Calendar },
+  { id: 'tasks', label: 'Tasks', icon: ClipboardList },
   { id: 'add', label: 'Add', icon: Plus, isAction: true },
   { id: 'reminders', label: 'Reminders', icon: Bell },
   { id: 'settings', label: 'Settings', icon: Settings },
@@ -0,0 +1,88 @@
+import { CalendarDays, Share2, Sheet } from 'lucide-react';
+import { getAllEvents, getAllTerms, getAllExceptions } from '@/lib/db';
+import { generateICS } from '@/lib/ics';
+import { eventsToCSV } from '@/lib/csv';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+
+const ICS_FILE_NAME = 'classping-timetable.ics';
+const CSV_FILE_NAME = 'classping-timetable.csv';
+
+function downloadFile(file: File) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  // Revoking straight away can cancel the download before the browser starts it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+async function buildCalendarFile(): Promise<File | null> {
+  const [events, terms, exceptions] = await Promise.all([getAllEvents(), getAllTerms(), getAllExceptions()]);
+  if (events.length === 0) return null;
+  return new File([generateICS(events, terms, exceptions)], ICS_FILE_NAME, { type: 'text/calendar' });
+}
+
+export function CalendarExport() {
+  const canShareFiles = typeof navigator.canShare === 'function'
+    && navigator.canShare({ files: [new File([''], ICS_FILE_NAME, { type: 'text/calendar' })] });
+
+  const handleDownload = async () => {
+    const file = await buildCalendarFile();
+    if (!file) {
+      toast.error('Add some classes first');
+      return;
+    }
+
+    downloadFile(file);
+    toast.success('Calendar file downloaded');
+  };
+
+  const handleDownloadCSV = async () => {
+    const events = await getAllEvents();
+    if (events.length === 0) {
+      toast.error('Add some classes first');
+      return;
+    }
+
+    downloadFile(new File([eventsToCSV(events)], CSV_FILE_NAME, { type: 'text/csv' }));
+    toast.success('Spreadsheet downloaded');
+  };
+
+  const handleShare = async () => {
+    const file = await buildCalendarFile();
+    if (!file) {
+      toast.error('Add some classes first');
+      return;
+    }
+
+    try {
+      await navigator.share({ files: [file], title: 'My ClassPing timetable' });
+    } catch (e) {
+      // Closing the share sheet rejects with AbortError
+      if (e instanceof Error && e.name !== 'AbortError') {
+        toast.error('Could not share the calendar');
+      }
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={handleDownload}>
+        <CalendarDays className="mr-1 h-3 w-3" />
+        Download .ics
+      </Button>
+      <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={handleDownloadCSV}>
+        <Sheet className="mr-1 h-3 w-3" />
+        Download .csv
+      </Button>
+      {canShareFiles && (
+        <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={handleShare}>
+          <Share2 className="mr-1 h-3 w-3" />
+          Share
+        </Button>
+      )}
+    </div>
+  );
+}
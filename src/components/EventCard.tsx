@@ -1,20 +1,78 @@
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { MapPin, Clock, Bell, BellOff, Trash2 } from 'lucide-react';
-import { ClassEvent } from '@/lib/db';
+import { MapPin, Clock, Bell, BellOff, Trash2, MoreVertical, CalendarX, CalendarClock, Undo2, ListPlus } from 'lucide-react';
+import { ClassEvent, EventKind, saveException, deleteException } from '@/lib/db';
+import { describeRecurrence } from '@/lib/recurrence';
+import { syncEventReminders } from '@/lib/reminderEngine';
+import { formatReminderOffset } from '@/lib/reminders';
+import { Occurrence } from '@/lib/schedule';
+import { MoveOccurrenceDialog } from '@/components/MoveOccurrenceDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
 
 interface EventCardProps {
   event: ClassEvent;
+  occurrence?: Occurrence; // Specific meeting shown; enables this-week-only actions
   onEdit?: (event: ClassEvent) => void;
   onDelete?: (id: string) => void;
+  onOccurrenceChange?: () => void;
+  onAddTask?: (event: ClassEvent) => void;
   isCompact?: boolean;
   showDay?: boolean;
 }
 
 const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
-export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: EventCardProps) {
+const kindLabels: Record<EventKind, string | null> = {
+  class: null,
+  exam: 'Exam',
+  deadline: 'Deadline',
+  extra: 'Extra session',
+};
+
+export function EventCard({
+  event,
+  occurrence,
+  onEdit,
+  onDelete,
+  onOccurrenceChange,
+  onAddTask,
+  isCompact,
+  showDay,
+}: EventCardProps) {
+  const [movingOccurrence, setMovingOccurrence] = useState<Occurrence | null>(null);
   const hasReminders = event.reminderMinutes.length > 0;
+  const recurrenceLabel = describeRecurrence(event.recurrence);
+  const kindLabel = kindLabels[event.kind ?? 'class'];
+
+  const startTime = occurrence?.startTime ?? event.startTime;
+  const endTime = occurrence?.endTime ?? event.endTime;
+  const location = occurrence?.location ?? event.location;
+  const isCancelled = occurrence?.cancelled ?? false;
+  const exception = occurrence?.exception;
+  const isRescheduled = !!exception && !exception.cancelled;
+
+  const handleCancelOccurrence = async () => {
+    if (!occurrence) return;
+    await saveException({ eventId: event.id, date: occurrence.originalDate, cancelled: true });
+    await syncEventReminders(event);
+    toast.success('Cancelled for this week only');
+    onOccurrenceChange?.();
+  };
+
+  const handleRestoreOccurrence = async () => {
+    if (!exception) return;
+    await deleteException(exception.id);
+    await syncEventReminders(event);
+    toast.success('Back to the usual schedule');
+    onOccurrenceChange?.();
+  };
 
   return (
     <motion.div
@@ -40,7 +98,8 @@ export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: Event
           {/* Title */}
           <h3 className={cn(
             'font-semibold text-foreground truncate',
-            isCompact ? 'text-sm' : 'text-base'
+            isCompact ? 'text-sm' : 'text-base',
+            isCancelled && 'line-through opacity-60'
           )}>
             {event.title}
           </h3>
@@ -49,7 +108,13 @@ export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: Event
           <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
             <div className="flex items-center gap-1">
               <Clock className="h-3.5 w-3.5" />
-              <span>{event.startTime} - {event.endTime}</span>
+              <span>
+                {event.allDay
+                  ? 'All day'
+                  : event.kind === 'deadline'
+                    ? `Due ${startTime}`
+                    : `${startTime} - ${endTime}`}
+              </span>
             </div>
             
             {showDay && (
@@ -57,13 +122,37 @@ export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: Event
                 {dayNames[event.dayOfWeek]}
               </span>
             )}
+
+            {kindLabel && (
+              <span className="rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                {kindLabel}
+              </span>
+            )}
+
+            {recurrenceLabel && (
+              <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-medium">
+                {recurrenceLabel}
+              </span>
+            )}
             
-            {event.location && (
+            {location && (
               <div className="flex items-center gap-1">
                 <MapPin className="h-3.5 w-3.5" />
-                <span className="truncate max-w-[120px]">{event.location}</span>
+                <span className="truncate max-w-[120px]">{location}</span>
               </div>
             )}
+
+            {isCancelled && (
+              <span className="rounded-full bg-destructive/10 px-2 py-0.5 text-xs font-medium text-destructive">
+                Cancelled
+              </span>
+            )}
+
+            {isRescheduled && (
+              <span className="rounded-full bg-accent px-2 py-0.5 text-xs font-medium text-accent-foreground">
+                This week only
+              </span>
+            )}
           </div>
 
           {/* Reminder badges */}
@@ -75,7 +164,7 @@ export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: Event
                   className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary"
                 >
                   <Bell className="h-3 w-3" />
-                  {min}m
+                  {formatReminderOffset(min)}
                 </span>
               ))}
               {event.voiceReminderEnabled && (
@@ -99,6 +188,45 @@ export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: Event
             </div>
           )}
           
+          {occurrence && !isCompact && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex h-8 w-8 items-center justify-center rounded-lg text-muted-foreground transition-colors hover:bg-muted"
+                >
+                  <MoreVertical className="h-4 w-4" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                {!isCancelled && (
+                  <DropdownMenuItem onSelect={handleCancelOccurrence}>
+                    <CalendarX className="mr-2 h-4 w-4" />
+                    Cancel this week only
+                  </DropdownMenuItem>
+                )}
+                {!isCancelled && (
+                  <DropdownMenuItem onSelect={() => setMovingOccurrence(occurrence)}>
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Move this occurrence
+                  </DropdownMenuItem>
+                )}
+                {exception && (
+                  <DropdownMenuItem onSelect={handleRestoreOccurrence}>
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Restore usual time
+                  </DropdownMenuItem>
+                )}
+                {onAddTask && (
+                  <DropdownMenuItem onSelect={() => onAddTask(event)}>
+                    <ListPlus className="mr-2 h-4 w-4" />
+                    Add task
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {onDelete && (
             <motion.button
               onClick={(e) => {
@@ -113,6 +241,16 @@ export function EventCard({ event, onEdit, onDelete, isCompact, showDay }: Event
           )}
         </div>
       </div>
+
+      {occurrence && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <MoveOccurrenceDialog
+            occurrence={movingOccurrence}
+            onClose={() => setMovingOccurrence(null)}
+            onMoved={() => onOccurrenceChange?.()}
+          />
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Plus, Minus, Volume2, VolumeX } from 'lucide-react';
-import { ClassEvent, addEvent, updateEvent, generateId, addReminder, deleteRemindersByEvent } from '@/lib/db';
-import { calculateReminderTime } from '@/lib/reminders';
+import { ClassEvent, EventKind, Recurrence, Term, addEvent, updateEvent, getAllTerms } from '@/lib/db';
+import { syncEventReminders } from '@/lib/reminderEngine';
+import { formatReminderOffset } from '@/lib/reminders';
+import { getTermForDate } from '@/lib/schedule';
+import { toDateKey, fromDateKey } from '@/lib/dates';
+import { parseRRule, parseWeekList, formatWeekList } from '@/lib/recurrence';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -31,6 +35,32 @@ const colorOptions = [
 
 const defaultReminderOptions = [5, 10, 15, 30, 60];
 
+// One-off events usually need a longer lead: 1h, 1 day, 3 days, 1 week
+const datedReminderOptions = [60, 1440, 4320, 10080];
+
+const kindOptions: { value: EventKind; label: string }[] = [
+  { value: 'class', label: 'Class' },
+  { value: 'exam', label: 'Exam' },
+  { value: 'deadline', label: 'Deadline' },
+  { value: 'extra', label: 'Extra session' },
+];
+
+type RepeatType = Exclude<Recurrence['type'], 'once'>;
+
+const repeatOptions: { value: RepeatType; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 wks' },
+  { value: 'weeks', label: 'Some weeks' },
+  { value: 'rrule', label: 'Custom' },
+];
+
+// Next date (today included) falling on a weekday, as YYYY-MM-DD
+const nextDateKeyForDay = (dayOfWeek: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + ((dayOfWeek - date.getDay() + 7) % 7));
+  return toDateKey(date);
+};
+
 export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
   const [title, setTitle] = useState('');
   const [location, setLocation] = useState('');
@@ -40,8 +70,17 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
   const [color, setColor] = useState(colorOptions[0]);
   const [reminderMinutes, setReminderMinutes] = useState<number[]>([10]);
   const [voiceEnabled, setVoiceEnabled] = useState(true);
+  const [termId, setTermId] = useState<string | undefined>();
+  const [repeatType, setRepeatType] = useState<RepeatType>('weekly');
+  const [anchorDate, setAnchorDate] = useState('');
+  const [weeksText, setWeeksText] = useState('');
+  const [rrule, setRRule] = useState('');
+  const [kind, setKind] = useState<EventKind>('class');
+  const [eventDate, setEventDate] = useState('');
+  const [allDay, setAllDay] = useState(false);
   const [customReminder, setCustomReminder] = useState('');
   const [saving, setSaving] = useState(false);
+  const [terms, setTerms] = useState<Term[]>([]);
 
   useEffect(() => {
     if (event) {
@@ -53,6 +92,19 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
       setColor(event.color);
       setReminderMinutes(event.reminderMinutes);
       setVoiceEnabled(event.voiceReminderEnabled);
+      setTermId(event.termId);
+      const recurrence = event.recurrence;
+      setKind(event.kind ?? 'class');
+      setAllDay(event.allDay ?? false);
+      setEventDate(recurrence?.type === 'once' ? recurrence.date : '');
+      setRepeatType(recurrence && recurrence.type !== 'once' ? recurrence.type : 'weekly');
+      setAnchorDate(
+        recurrence?.type === 'biweekly' ? recurrence.anchorDate
+          : recurrence?.type === 'rrule' ? recurrence.startDate
+          : ''
+      );
+      setWeeksText(recurrence?.type === 'weeks' ? formatWeekList(recurrence.weeks) : '');
+      setRRule(recurrence?.type === 'rrule' ? recurrence.rule : '');
     } else {
       // Reset form with current time as default
       const now = new Date();
@@ -72,9 +124,28 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
       setColor(colorOptions[0]);
       setReminderMinutes([10]);
       setVoiceEnabled(true);
+      setRepeatType('weekly');
+      setAnchorDate('');
+      setWeeksText('');
+      setRRule('');
+      setKind('class');
+      setEventDate(toDateKey(now));
+      setAllDay(false);
     }
   }, [event, isOpen]);
 
+  // Terms may have been edited in Settings since the form was mounted
+  useEffect(() => {
+    if (isOpen) getAllTerms().then(setTerms);
+  }, [isOpen]);
+
+  // New classes default to the term that's currently running
+  useEffect(() => {
+    if (isOpen && !event) {
+      setTermId(getTermForDate(toDateKey(new Date()), terms)?.id);
+    }
+  }, [event, isOpen, terms]);
+
   const toggleReminder = (minutes: number) => {
     setReminderMinutes(prev =>
       prev.includes(minutes)
@@ -91,27 +162,56 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
     }
   };
 
+  const buildRecurrence = (): Recurrence | undefined => {
+    const startDate = anchorDate || nextDateKeyForDay(dayOfWeek);
+    switch (repeatType) {
+      case 'biweekly':
+        return { type: 'biweekly', anchorDate: startDate };
+      case 'weeks':
+        return { type: 'weeks', weeks: parseWeekList(weeksText) };
+      case 'rrule':
+        return { type: 'rrule', rule: rrule.trim().toUpperCase(), startDate };
+      default:
+        return undefined;
+    }
+  };
+
+  const isDated = kind !== 'class';
+
+  const isRecurrenceValid =
+    isDated ? !!eventDate
+      : repeatType === 'weeks' ? parseWeekList(weeksText).length > 0
+      : repeatType === 'rrule' ? parseRRule(rrule) !== null
+      : true;
+
   const handleSave = async () => {
-    if (!title.trim()) return;
+    if (!title.trim() || !isRecurrenceValid) return;
 
     setSaving(true);
     try {
+      // Deadlines are a single due time; all-day events span the whole day
+      const eventStart = isDated && allDay ? '00:00' : startTime;
+      const eventEnd = isDated && allDay ? '23:59' : kind === 'deadline' ? startTime : endTime;
+
       const eventData = {
         title: title.trim(),
         location: location.trim() || undefined,
-        dayOfWeek,
-        startTime,
-        endTime,
+        dayOfWeek: isDated ? fromDateKey(eventDate).getDay() : dayOfWeek,
+        startTime: eventStart,
+        endTime: eventEnd,
         color,
         reminderMinutes,
         voiceReminderEnabled: voiceEnabled,
+        kind,
+        allDay: isDated && allDay,
+        recurrence: isDated ? { type: 'once' as const, date: eventDate } : buildRecurrence(),
+        termId: isDated ? undefined : termId,
       };
 
       let savedEvent: ClassEvent;
 
       if (event) {
         // Update existing
-        await deleteRemindersByEvent(event.id);
         const updated = await updateEvent(event.id, eventData);
         if (!updated) throw new Error('Failed to update event');
         savedEvent = updated;
@@ -120,22 +220,8 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
         savedEvent = await addEvent(eventData);
       }
 
-      // Create reminders for each reminder time
-      for (const mins of reminderMinutes) {
-        const scheduledTime = calculateReminderTime(
-          savedEvent.dayOfWeek,
-          savedEvent.startTime,
-          mins
-        );
-        
-        await addReminder({
-          eventId: savedEvent.id,
-          scheduledTime,
-          minutesBefore: mins,
-          triggered: false,
-          missed: false,
-        });
-      }
+      // Materialize reminders for upcoming occurrences (replaces stale ones on edit)
+      await syncEventReminders(savedEvent);
 
       onSave();
       onClose();
@@ -170,7 +256,7 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
             {/* Header */}
             <div className="mb-6 flex items-center justify-between">
               <h2 className="text-xl font-bold text-foreground">
-                {event ? 'Edit Event' : 'Add Class'}
+                {event ? 'Edit Event' : isDated ? 'Add Event' : 'Add Class'}
               </h2>
               <button
                 onClick={onClose}
@@ -182,16 +268,34 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
 
             {/* Form */}
             <div className="space-y-5">
+              {/* Kind */}
+              <div className="flex flex-wrap gap-2">
+                {kindOptions.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setKind(option.value)}
+                    className={cn(
+                      'rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                      kind === option.value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted text-muted-foreground hover:bg-accent'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
               {/* Title */}
               <div>
                 <Label htmlFor="title" className="text-sm font-medium">
-                  Class Name *
+                  {isDated ? 'Title *' : 'Class Name *'}
                 </Label>
                 <Input
                   id="title"
                   value={title}
                   onChange={(e) => setTitle(e.target.value)}
-                  placeholder="e.g., Mathematics 101"
+                  placeholder={isDated ? 'e.g., Calculus midterm' : 'e.g., Mathematics 101'}
                   className="mt-1.5"
                 />
               </div>
@@ -210,54 +314,183 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
                 />
               </div>
 
-              {/* Day selector */}
-              <div>
-                <Label className="text-sm font-medium">Day</Label>
-                <div className="mt-1.5 flex flex-wrap gap-2">
-                  {dayNames.map((day, idx) => (
-                    <button
-                      key={day}
-                      onClick={() => setDayOfWeek(idx)}
-                      className={cn(
-                        'rounded-lg px-3 py-2 text-sm font-medium transition-colors',
-                        dayOfWeek === idx
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted text-muted-foreground hover:bg-accent'
-                      )}
-                    >
-                      {day.slice(0, 3)}
-                    </button>
-                  ))}
+              {/* Date (one-off events) */}
+              {isDated && (
+                <div className="space-y-3">
+                  <div>
+                    <Label htmlFor="eventDate" className="text-sm font-medium">
+                      Date
+                    </Label>
+                    <Input
+                      id="eventDate"
+                      type="date"
+                      value={eventDate}
+                      onChange={(e) => setEventDate(e.target.value)}
+                      className="mt-1.5"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="allDay" className="text-sm font-medium">
+                      All day
+                    </Label>
+                    <Switch id="allDay" checked={allDay} onCheckedChange={setAllDay} />
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {!isDated && (
+                <>
+                  {/* Day selector */}
+                  <div>
+                    <Label className="text-sm font-medium">Day</Label>
+                    <div className="mt-1.5 flex flex-wrap gap-2">
+                      {dayNames.map((day, idx) => (
+                        <button
+                          key={day}
+                          onClick={() => setDayOfWeek(idx)}
+                          className={cn(
+                            'rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                            dayOfWeek === idx
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted text-muted-foreground hover:bg-accent'
+                          )}
+                        >
+                          {day.slice(0, 3)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Repeat */}
+                  <div>
+                    <Label className="text-sm font-medium">Repeats</Label>
+                    <div className="mt-1.5 flex flex-wrap gap-2">
+                      {repeatOptions.map((option) => (
+                        <button
+                          key={option.value}
+                          onClick={() => setRepeatType(option.value)}
+                          className={cn(
+                            'rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                            repeatType === option.value
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted text-muted-foreground hover:bg-accent'
+                          )}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {repeatType === 'biweekly' && (
+                      <div className="mt-2">
+                        <Label htmlFor="anchorDate" className="text-xs text-muted-foreground">
+                          A week it meets
+                        </Label>
+                        <Input
+                          id="anchorDate"
+                          type="date"
+                          value={anchorDate || nextDateKeyForDay(dayOfWeek)}
+                          onChange={(e) => setAnchorDate(e.target.value)}
+                          className="mt-1"
+                        />
+                      </div>
+                    )}
+
+                    {repeatType === 'weeks' && (
+                      <div className="mt-2">
+                        <Input
+                          value={weeksText}
+                          onChange={(e) => setWeeksText(e.target.value)}
+                          placeholder="Term weeks, e.g. 1-6, 9"
+                        />
+                        {!termId && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            Pick a term below so week numbers can be counted
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {repeatType === 'rrule' && (
+                      <div className="mt-2 space-y-2">
+                        <Input
+                          value={rrule}
+                          onChange={(e) => setRRule(e.target.value)}
+                          placeholder="FREQ=WEEKLY;INTERVAL=2;COUNT=6"
+                          className={cn(rrule && parseRRule(rrule) === null && 'border-destructive')}
+                        />
+                        <div>
+                          <Label htmlFor="rruleStart" className="text-xs text-muted-foreground">
+                            Starting from
+                          </Label>
+                          <Input
+                            id="rruleStart"
+                            type="date"
+                            value={anchorDate || nextDateKeyForDay(dayOfWeek)}
+                            onChange={(e) => setAnchorDate(e.target.value)}
+                            className="mt-1"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
 
               {/* Time */}
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="startTime" className="text-sm font-medium">
-                    Start Time
-                  </Label>
-                  <Input
-                    id="startTime"
-                    type="time"
-                    value={startTime}
-                    onChange={(e) => setStartTime(e.target.value)}
-                    className="mt-1.5"
-                  />
+              {!(isDated && allDay) && (
+                <div className={cn('grid gap-4', kind === 'deadline' ? 'grid-cols-1' : 'grid-cols-2')}>
+                  <div>
+                    <Label htmlFor="startTime" className="text-sm font-medium">
+                      {kind === 'deadline' ? 'Due Time' : 'Start Time'}
+                    </Label>
+                    <Input
+                      id="startTime"
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                      className="mt-1.5"
+                    />
+                  </div>
+                  {kind !== 'deadline' && (
+                    <div>
+                      <Label htmlFor="endTime" className="text-sm font-medium">
+                        End Time
+                      </Label>
+                      <Input
+                        id="endTime"
+                        type="time"
+                        value={endTime}
+                        onChange={(e) => setEndTime(e.target.value)}
+                        className="mt-1.5"
+                      />
+                    </div>
+                  )}
                 </div>
+              )}
+
+              {/* Term */}
+              {!isDated && terms.length > 0 && (
                 <div>
-                  <Label htmlFor="endTime" className="text-sm font-medium">
-                    End Time
-                  </Label>
-                  <Input
-                    id="endTime"
-                    type="time"
-                    value={endTime}
-                    onChange={(e) => setEndTime(e.target.value)}
-                    className="mt-1.5"
-                  />
+                  <Label className="text-sm font-medium">Term</Label>
+                  <div className="mt-1.5 flex flex-wrap gap-2">
+                    {[undefined, ...terms].map((term) => (
+                      <button
+                        key={term?.id ?? 'none'}
+                        onClick={() => setTermId(term?.id)}
+                        className={cn(
+                          'rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                          termId === term?.id
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-muted text-muted-foreground hover:bg-accent'
+                        )}
+                      >
+                        {term?.name ?? 'Every week'}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Color */}
               <div>
@@ -281,7 +514,7 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
               <div>
                 <Label className="text-sm font-medium">Remind me before</Label>
                 <div className="mt-1.5 flex flex-wrap gap-2">
-                  {defaultReminderOptions.map((mins) => (
+                  {(isDated ? datedReminderOptions : defaultReminderOptions).map((mins) => (
                     <button
                       key={mins}
                       onClick={() => toggleReminder(mins)}
@@ -292,7 +525,7 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
                           : 'bg-muted text-muted-foreground hover:bg-accent'
                       )}
                     >
-                      {mins < 60 ? `${mins}m` : `${mins / 60}h`}
+                      {formatReminderOffset(mins)}
                     </button>
                   ))}
                 </div>
@@ -325,7 +558,7 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
                         key={mins}
                         className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-1 text-xs font-medium text-primary"
                       >
-                        {mins}m before
+                        {formatReminderOffset(mins)} before
                         <button
                           onClick={() => toggleReminder(mins)}
                           className="ml-1 text-primary/60 hover:text-primary"
@@ -373,9 +606,9 @@ export function EventForm({ event, isOpen, onClose, onSave }: EventFormProps) {
               <Button
                 onClick={handleSave}
                 className="btn-primary-gradient flex-1"
-                disabled={!title.trim() || saving}
+                disabled={!title.trim() || !isRecurrenceValid || saving}
               >
-                {saving ? 'Saving...' : event ? 'Update' : 'Add Class'}
+                {saving ? 'Saving...' : event ? 'Update' : isDated ? 'Add Event' : 'Add Class'}
               </Button>
             </div>
           </motion.div>
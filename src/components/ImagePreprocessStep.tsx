@@ -0,0 +1,142 @@
+import { useState, useRef, useEffect } from 'react';
+import { Crop, Eye, RotateCcw, ScanText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  AnyCanvas,
+  Point,
+  PreprocessOptions,
+  FULL_IMAGE_CORNERS,
+  loadImageCanvas,
+  preprocessCanvas,
+} from '@/lib/imagePreprocess';
+import { cn } from '@/lib/utils';
+
+interface ImagePreprocessStepProps {
+  file: File;
+  onConfirm: (options: PreprocessOptions) => void;
+  onBack: () => void;
+}
+
+// The preview is worked out on a small copy; OCR redoes it at full size in the worker
+const PREVIEW_DIMENSION = 900;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Drag the corners onto the timetable's edges, check the cleaned-up preview, then run OCR
+export function ImagePreprocessStep({ file, onConfirm, onBack }: ImagePreprocessStepProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [source, setSource] = useState<AnyCanvas | null>(null);
+  const [corners, setCorners] = useState<Point[]>(FULL_IMAGE_CORNERS);
+  const [enhance, setEnhance] = useState(true);
+  const [view, setView] = useState<'crop' | 'preview'>('crop');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    loadImageCanvas(file, PREVIEW_DIMENSION).then(setSource).catch((e) => {
+      console.error('Failed to load image:', e);
+    });
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    if (view !== 'preview' || !source) return;
+    const result = preprocessCanvas(source, { corners, enhance }) as HTMLCanvasElement;
+    setPreviewUrl(result.toDataURL('image/png'));
+  }, [view, source, corners, enhance]);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    const point = { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    setCorners(prev => prev.map((corner, i) => (i === dragging ? point : corner)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-1 rounded-xl bg-muted p-1">
+        {([['crop', Crop, 'Crop'], ['preview', Eye, 'Preview']] as const).map(([value, Icon, label]) => (
+          <button
+            key={value}
+            onClick={() => setView(value)}
+            className={cn(
+              'flex flex-1 items-center justify-center gap-1.5 rounded-lg py-1.5 text-sm font-medium transition-colors',
+              view === value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground'
+            )}
+          >
+            <Icon className="h-4 w-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {view === 'crop' && imageUrl && (
+        <div
+          ref={containerRef}
+          className="relative touch-none select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragging(null)}
+          onPointerCancel={() => setDragging(null)}
+        >
+          <img src={imageUrl} alt="Timetable photo" className="w-full rounded-xl" draggable={false} />
+          <svg className="absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+            <polygon
+              points={corners.map(c => `${c.x * 100},${c.y * 100}`).join(' ')}
+              className="fill-primary/10 stroke-primary"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {corners.map((corner, i) => (
+            <div
+              key={i}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDragging(i);
+              }}
+              className="absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 cursor-grab rounded-full border-2 border-primary bg-background shadow"
+              style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+            />
+          ))}
+        </div>
+      )}
+
+      {view === 'preview' && (
+        previewUrl
+          ? <img src={previewUrl} alt="Cleaned-up timetable" className="w-full rounded-xl border border-border" />
+          : <p className="py-8 text-center text-sm text-muted-foreground">Preparing preview...</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="enhance" checked={enhance} onCheckedChange={setEnhance} />
+          <Label htmlFor="enhance" className="text-sm">Straighten and sharpen</Label>
+        </div>
+        <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setCorners(FULL_IMAGE_CORNERS)}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Reset crop
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Drag the corners onto the edges of the timetable. Straightening fixes tilted photos and sharpening
+        removes shadows.
+      </p>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Back
+        </Button>
+        <Button onClick={() => onConfirm({ corners, enhance })} className="flex-1 btn-primary-gradient">
+          <ScanText className="mr-2 h-4 w-4" />
+          Read Timetable
+        </Button>
+      </div>
+    </div>
+  );
+}
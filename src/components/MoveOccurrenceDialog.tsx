@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { saveException } from '@/lib/db';
+import { syncEventReminders } from '@/lib/reminderEngine';
+import { Occurrence } from '@/lib/schedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface MoveOccurrenceDialogProps {
+  occurrence: Occurrence | null;
+  onClose: () => void;
+  onMoved: () => void;
+}
+
+export function MoveOccurrenceDialog({ occurrence, onClose, onMoved }: MoveOccurrenceDialogProps) {
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [location, setLocation] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (occurrence) {
+      setDate(occurrence.date);
+      setStartTime(occurrence.startTime);
+      setEndTime(occurrence.endTime);
+      setLocation(occurrence.location || '');
+    }
+  }, [occurrence]);
+
+  const handleSave = async () => {
+    if (!occurrence || !date || !startTime || !endTime) return;
+
+    setSaving(true);
+    try {
+      const { event, originalDate } = occurrence;
+      const newLocation = location.trim();
+
+      // Only store what actually differs from the regular class
+      await saveException({
+        eventId: event.id,
+        date: originalDate,
+        cancelled: false,
+        newDate: date !== originalDate ? date : undefined,
+        newStartTime: startTime !== event.startTime ? startTime : undefined,
+        newEndTime: endTime !== event.endTime ? endTime : undefined,
+        newLocation: newLocation && newLocation !== event.location ? newLocation : undefined,
+      });
+      await syncEventReminders(event);
+
+      toast.success('Class moved for this week only');
+      onMoved();
+      onClose();
+    } catch (e) {
+      console.error('Move failed:', e);
+      toast.error('Could not move this class');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!occurrence} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Move {occurrence?.event.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            Only this occurrence changes. Other weeks stay as they are.
+          </p>
+
+          <div>
+            <Label htmlFor="move-date" className="text-sm font-medium">Date</Label>
+            <Input
+              id="move-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1.5"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="move-start" className="text-sm font-medium">Start Time</Label>
+              <Input
+                id="move-start"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label htmlFor="move-end" className="text-sm font-medium">End Time</Label>
+              <Input
+                id="move-end"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="move-location" className="text-sm font-medium">Location</Label>
+            <Input
+              id="move-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g., Room 205, Building A"
+              className="mt-1.5"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={onClose} className="flex-1" disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              className="btn-primary-gradient flex-1"
+              disabled={!date || !startTime || !endTime || saving}
+            >
+              {saving ? 'Saving...' : 'Move'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
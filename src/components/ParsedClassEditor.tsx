@@ -0,0 +1,178 @@
+import { Scissors, Merge, Trash2 } from 'lucide-react';
+import { ParsedClass, ParsedField, LOW_CONFIDENCE } from '@/lib/pdfParser';
+import { formatReminderOffset } from '@/lib/reminders';
+import { SessionType, SESSION_TYPE_LABELS } from '@/lib/courseDetails';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface ParsedClassEditorProps {
+  cls: ParsedClass;
+  colors: string[];
+  onChange: (cls: ParsedClass) => void;
+  onSplit?: () => void;
+  onMergeNext?: () => void;
+  onRemove: () => void;
+}
+
+const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const defaultReminderOptions = [5, 10, 15, 30, 60];
+const datedReminderOptions = [60, 1440, 4320, 10080];
+
+// Highlight for fields the parser wasn't sure about
+const uncertain = (cls: ParsedClass, field: ParsedField) =>
+  cls.confidence?.[field] !== undefined && cls.confidence[field]! < LOW_CONFIDENCE
+    ? 'border-warning bg-warning/10'
+    : undefined;
+
+export function ParsedClassEditor({ cls, colors, onChange, onSplit, onMergeNext, onRemove }: ParsedClassEditorProps) {
+  // Editing a field means it has been checked, so its confidence flag is dropped
+  const update = (patch: Partial<ParsedClass>) => {
+    const confidence = cls.confidence && { ...cls.confidence };
+    for (const field of Object.keys(patch)) {
+      delete confidence?.[field as ParsedField];
+    }
+    onChange({ ...cls, ...patch, confidence });
+  };
+
+  const reminders = cls.reminderMinutes ?? [];
+  const toggleReminder = (mins: number) => {
+    update({
+      reminderMinutes: reminders.includes(mins)
+        ? reminders.filter(m => m !== mins)
+        : [...reminders, mins].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-card p-3" onClick={(e) => e.stopPropagation()}>
+      <Input
+        value={cls.title}
+        placeholder="Class name"
+        onChange={(e) => update({ title: e.target.value })}
+        className={cn('h-8 text-sm', uncertain(cls, 'title'))}
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        {cls.date ? (
+          <Input value={cls.date} disabled className="h-8 text-xs" />
+        ) : (
+          <Select value={String(cls.dayOfWeek)} onValueChange={(value) => update({ dayOfWeek: Number(value) })}>
+            <SelectTrigger className={cn('h-8 text-xs', uncertain(cls, 'dayOfWeek'))}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {dayNames.map((name, day) => (
+                <SelectItem key={day} value={String(day)}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          type="time"
+          value={cls.startTime}
+          onChange={(e) => update({ startTime: e.target.value })}
+          className={cn('h-8 text-xs', uncertain(cls, 'startTime'))}
+        />
+        <Input
+          type="time"
+          value={cls.endTime}
+          onChange={(e) => update({ endTime: e.target.value })}
+          className={cn(
+            'h-8 text-xs',
+            uncertain(cls, 'endTime'),
+            !cls.allDay && cls.endTime <= cls.startTime && 'border-destructive'
+          )}
+        />
+      </div>
+
+      <Input
+        value={cls.location ?? ''}
+        placeholder="Location (optional)"
+        onChange={(e) => update({ location: e.target.value || undefined })}
+        className={cn('h-8 text-sm', uncertain(cls, 'location'))}
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        <Input
+          value={cls.courseCode ?? ''}
+          placeholder="Code"
+          onChange={(e) => update({ courseCode: e.target.value || undefined })}
+          className="h-8 text-xs"
+        />
+        <Select
+          value={cls.sessionType ?? 'none'}
+          onValueChange={(value) => update({ sessionType: value === 'none' ? undefined : value as SessionType })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No type</SelectItem>
+            {(Object.keys(SESSION_TYPE_LABELS) as SessionType[]).map((type) => (
+              <SelectItem key={type} value={type}>{SESSION_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={cls.instructor ?? ''}
+          placeholder="Instructor"
+          onChange={(e) => update({ instructor: e.target.value || undefined })}
+          className="h-8 text-xs"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {colors.map((c) => (
+          <button
+            key={c}
+            onClick={() => update({ color: c })}
+            className={cn(
+              'h-6 w-6 rounded-full transition-transform',
+              cls.color === c && 'ring-2 ring-foreground ring-offset-2'
+            )}
+            style={{ backgroundColor: c }}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {(cls.date ? datedReminderOptions : defaultReminderOptions).map((mins) => (
+          <button
+            key={mins}
+            onClick={() => toggleReminder(mins)}
+            className={cn(
+              'rounded-lg px-2 py-1 text-xs font-medium transition-colors',
+              reminders.includes(mins)
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:bg-accent'
+            )}
+          >
+            {formatReminderOffset(mins)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        {onSplit && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onSplit}>
+            <Scissors className="mr-1 h-3 w-3" />
+            Split
+          </Button>
+        )}
+        {onMergeNext && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onMergeNext}>
+            <Merge className="mr-1 h-3 w-3" />
+            Merge with next
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="ml-auto h-7 text-xs text-destructive" onClick={onRemove}>
+          <Trash2 className="mr-1 h-3 w-3" />
+          Remove
+        </Button>
+      </div>
+    </div>
+  );
+}
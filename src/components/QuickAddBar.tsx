@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Zap, Clock, MapPin, Bell, CalendarDays } from 'lucide-react';
+import { ClassEvent, EventKind, getAllEvents, getSettings } from '@/lib/db';
+import { parseQuickAdd, getQuickAddProblem, quickAddToClasses } from '@/lib/quickAdd';
+import { matchClasses, applyImport, DATED_IMPORT_REMINDERS } from '@/lib/timetableImport';
+import { formatClassTitle } from '@/lib/courseDetails';
+import { formatReminderOffset } from '@/lib/reminders';
+import { DEFAULT_TIMETABLE_LANGUAGES, TimetableLanguage } from '@/lib/timetableLocales';
+import { fromDateKey } from '@/lib/dates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+
+interface QuickAddBarProps {
+  onAdded: () => void;
+}
+
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const kindLabels: Record<EventKind, string | null> = {
+  class: null,
+  exam: 'Exam',
+  deadline: 'Deadline',
+  extra: 'Extra session',
+};
+
+// Type a class or exam in one line and check what was understood before adding it
+export function QuickAddBar({ onAdded }: QuickAddBarProps) {
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [languages, setLanguages] = useState<TimetableLanguage[]>(DEFAULT_TIMETABLE_LANGUAGES);
+  const [defaultReminders, setDefaultReminders] = useState<number[]>([10, 30]);
+  const [events, setEvents] = useState<ClassEvent[]>([]);
+
+  // Classes can be edited, deleted or imported elsewhere while the bar stays mounted,
+  // so they're read again whenever the input is focused
+  const loadEvents = () => getAllEvents().then(setEvents);
+
+  useEffect(() => {
+    getSettings().then(settings => {
+      setLanguages(settings.timetableLanguages ?? DEFAULT_TIMETABLE_LANGUAGES);
+      setDefaultReminders(settings.defaultReminderMinutes);
+    });
+    loadEvents();
+  }, []);
+
+  const parsed = useMemo(() => (text.trim() ? parseQuickAdd(text, new Date(), languages) : null), [text, languages]);
+  const problem = parsed && getQuickAddProblem(parsed);
+
+  // Saved like an imported class, so one that's already there is updated in place;
+  // the preview says so before anything changes
+  const matches = useMemo(
+    () => (parsed && !problem ? matchClasses(quickAddToClasses(parsed), events) : []),
+    [parsed, problem, events]
+  );
+  const changed = matches.find(match => match.status === 'changed');
+  const isNew = matches.some(match => match.status === 'new');
+  const isSaved = matches.length > 0 && matches.every(match => match.status === 'unchanged');
+  // A saved class keeps its reminders unless the line names new ones
+  const savedEvent = changed?.event ?? matches.find(match => match.event)?.event;
+  const reminders = parsed?.reminderMinutes
+    ?? savedEvent?.reminderMinutes
+    ?? (parsed?.date ? DATED_IMPORT_REMINDERS : defaultReminders);
+
+  const handleAdd = async () => {
+    if (!parsed || problem || saving || isSaved) return;
+
+    setSaving(true);
+    try {
+      const classes = quickAddToClasses(parsed);
+      const items = classes.map((cls, i) => ({ cls, match: matches[i] }));
+      const result = await applyImport(items, [], defaultReminders);
+      const title = formatClassTitle(parsed);
+
+      toast.success(result.added > 0 ? `Added ${title}` : `Updated ${title}`);
+      setText('');
+      loadEvents();
+      onAdded();
+    } catch (e) {
+      console.error('Quick add failed:', e);
+      toast.error('Could not add this class');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const kindLabel = parsed && kindLabels[parsed.kind];
+
+  return (
+    <div className="mb-4">
+      <div className="relative">
+        <Zap className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-primary" />
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onFocus={loadEvents}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder='Quick add: "Physics lab every Tue 2-4pm in B12"'
+          className="pl-9"
+          enterKeyHint="done"
+        />
+      </div>
+
+      <AnimatePresence>
+        {parsed && (
+          <motion.div
+            className="mt-2 rounded-xl bg-card p-3 shadow-card"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0 flex-1">
+                <h3 className="truncate text-sm font-semibold text-foreground">
+                  {formatClassTitle(parsed) || 'Untitled'}
+                </h3>
+                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <CalendarDays className="h-3.5 w-3.5" />
+                    {parsed.date
+                      ? fromDateKey(parsed.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+                      : parsed.days.length > 0
+                        ? `Every ${parsed.days.map(day => dayNames[day]).join(', ')}`
+                        : 'No day'}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3.5 w-3.5" />
+                    {!parsed.startTime
+                      ? parsed.date ? 'All day' : 'No time'
+                      : parsed.kind === 'deadline'
+                        ? `Due ${parsed.startTime}`
+                        : `${parsed.startTime} - ${parsed.endTime}`}
+                  </span>
+                  {kindLabel && (
+                    <span className="rounded-full bg-primary/10 px-2 py-0.5 font-medium text-primary">
+                      {kindLabel}
+                    </span>
+                  )}
+                  {parsed.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3.5 w-3.5" />
+                      <span className="max-w-[120px] truncate">{parsed.location}</span>
+                    </span>
+                  )}
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {reminders.map((min) => (
+                    <span
+                      key={min}
+                      className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary"
+                    >
+                      <Bell className="h-3 w-3" />
+                      {formatReminderOffset(min)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                className="btn-primary-gradient h-8 text-xs"
+                disabled={!!problem || saving || isSaved}
+                onClick={handleAdd}
+              >
+                {saving ? 'Saving...' : isSaved ? 'Saved' : !changed ? 'Add' : isNew ? 'Save' : 'Update'}
+              </Button>
+            </div>
+            {problem && <p className="mt-2 text-xs text-muted-foreground">{problem}</p>}
+            {changed?.event && (
+              <p className="mt-2 text-xs text-primary">
+                Updates the saved class: was {changed.event.startTime} - {changed.event.endTime}
+                {changed.event.location && ` • ${changed.event.location}`} ({changed.changes.join(', ')} changed)
+              </p>
+            )}
+            {isSaved && <p className="mt-2 text-xs text-muted-foreground">Already in your timetable</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -2,12 +2,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Bell, BellOff, Clock, AlertCircle, CheckCircle } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { Header } from '@/components/Header';
-import { getUntriggeredReminders, Reminder, getEvent, ClassEvent } from '@/lib/db';
-import { getTimeUntilReminder } from '@/lib/reminders';
+import { getUntriggeredReminders, Reminder, getEvent, getException, getTask, ClassEvent, OccurrenceException, Task } from '@/lib/db';
+import { getTimeUntilReminder, formatReminderOffset } from '@/lib/reminders';
 import { cn } from '@/lib/utils';
 
 interface ReminderWithEvent extends Reminder {
   event?: ClassEvent;
+  exception?: OccurrenceException;
+  task?: Task;
 }
 
 export function RemindersView() {
@@ -23,7 +25,11 @@ export function RemindersView() {
       const remindersWithEvents = await Promise.all(
         untriggered.map(async (reminder) => {
           const event = await getEvent(reminder.eventId);
-          return { ...reminder, event };
+          const exception = reminder.occurrenceDate
+            ? await getException(reminder.eventId, reminder.occurrenceDate)
+            : undefined;
+          const task = reminder.taskId ? await getTask(reminder.taskId) : undefined;
+          return { ...reminder, event, exception, task };
         })
       );
 
@@ -98,16 +104,26 @@ export function RemindersView() {
           
           <div className="flex-1 min-w-0">
             <h4 className="font-semibold text-foreground truncate">
-              {reminder.event?.title || 'Unknown Event'}
+              {reminder.task?.title || reminder.event?.title || 'Unknown Event'}
             </h4>
             <p className="mt-0.5 text-sm text-muted-foreground">
-              {reminder.minutesBefore} min before class
+              {formatReminderOffset(reminder.minutesBefore)} before{' '}
+              {reminder.task
+                ? `due time • ${reminder.event?.title}`
+                : reminder.event?.kind === 'deadline' ? 'due time' : (reminder.event?.kind ?? 'class') === 'class' ? 'class' : 'start'}
+              {reminder.exception?.newLocation && ` • ${reminder.exception.newLocation}`}
             </p>
+            {reminder.exception && !reminder.exception.cancelled && (
+              <span className="mt-1 inline-block rounded-full bg-accent px-2 py-0.5 text-xs font-medium text-accent-foreground">
+                Rescheduled this week
+              </span>
+            )}
             
             <div className="mt-2 flex items-center gap-2">
               <Clock className="h-3.5 w-3.5 text-muted-foreground" />
               <span className="text-xs text-muted-foreground">
-                {new Date(reminder.scheduledTime).toLocaleTimeString([], {
+                {new Date(reminder.scheduledTime).toLocaleString([], {
+                  weekday: 'short',
                   hour: '2-digit',
                   minute: '2-digit',
                 })}
@@ -190,7 +206,7 @@ export function RemindersView() {
           <AnimatePresence>
             <ReminderSection title="Today" reminders={todayReminders} icon={Bell} />
             <ReminderSection title="Tomorrow" reminders={tomorrowReminders} icon={Clock} />
-            <ReminderSection title="Later this week" reminders={laterReminders} icon={AlertCircle} />
+            <ReminderSection title="Later" reminders={laterReminders} icon={AlertCircle} />
           </AnimatePresence>
         )}
       </main>
@@ -1,7 +1,11 @@
 import { motion } from 'framer-motion';
-import { Bell, Volume2, Trash2, Download, Info, Palette, Timer } from 'lucide-react';
+import { Bell, Volume2, Trash2, Download, Info, Palette, Timer, CalendarDays, LayoutTemplate } from 'lucide-react';
 import { Header } from '@/components/Header';
 import { ThemeSettings } from '@/components/ThemeSettings';
+import { TermSettings } from '@/components/TermSettings';
+import { BackupRestore } from '@/components/BackupRestore';
+import { CalendarExport } from '@/components/CalendarExport';
+import { TemplateSettings } from '@/components/TemplateSettings';
 import { useSettings } from '@/hooks/useSettings';
 import { usePWAInstall } from '@/hooks/usePWAInstall';
 import { requestNotificationPermission, speakText } from '@/lib/reminders';
@@ -67,7 +71,7 @@ export function SettingsView() {
   };
 
   const handleClearData = async () => {
-    if (confirm('Are you sure you want to delete all data? This cannot be undone.')) {
+    if (confirm('Are you sure you want to delete all data? This cannot be undone unless you exported a backup.')) {
       await clearAllData();
       toast.success('All data cleared');
       window.location.reload();
@@ -128,6 +132,16 @@ export function SettingsView() {
           </div>
         </section>
 
+        {/* Term section */}
+        <section>
+          <h2 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            Semester
+          </h2>
+          <div className="rounded-xl bg-card p-3 shadow-card">
+            <TermSettings />
+          </div>
+        </section>
+
         {/* Notifications section */}
         <section>
           <h2 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
@@ -242,6 +256,42 @@ export function SettingsView() {
             Data
           </h2>
           <div className="space-y-2">
+            <div className="rounded-xl bg-card p-3 shadow-card">
+              <div className="mb-2 flex items-center gap-2">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
+                  <Download className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-foreground">Backup</h3>
+                  <p className="text-xs text-muted-foreground">Save or restore all your data as a file</p>
+                </div>
+              </div>
+              <BackupRestore />
+            </div>
+            <div className="rounded-xl bg-card p-3 shadow-card">
+              <div className="mb-2 flex items-center gap-2">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-foreground">Timetable Export</h3>
+                  <p className="text-xs text-muted-foreground">Add your timetable to Google, Apple or Outlook calendar, or open it in a spreadsheet</p>
+                </div>
+              </div>
+              <CalendarExport />
+            </div>
+            <div className="rounded-xl bg-card p-3 shadow-card">
+              <div className="mb-2 flex items-center gap-2">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
+                  <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-foreground">Timetable Templates</h3>
+                  <p className="text-xs text-muted-foreground">How your university's timetables are laid out, for reading the next one</p>
+                </div>
+              </div>
+              <TemplateSettings />
+            </div>
             <SettingItem
               icon={Trash2}
               title="Clear All Data"
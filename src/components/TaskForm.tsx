@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react';
+import { ClassEvent, Task, TaskPriority, TaskStatus, addTask, updateTask, getAllEvents } from '@/lib/db';
+import { syncTaskReminders } from '@/lib/reminderEngine';
+import { formatReminderOffset } from '@/lib/reminders';
+import { toDateKey } from '@/lib/dates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface TaskFormProps {
+  isOpen: boolean;
+  task?: Task;
+  defaultEventId?: string; // Preselected class when adding from a class card
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const priorityOptions: { value: TaskPriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+const statusOptions: { value: TaskStatus; label: string }[] = [
+  { value: 'todo', label: 'To do' },
+  { value: 'in-progress', label: 'In progress' },
+  { value: 'done', label: 'Done' },
+];
+
+// 1 hour, 1 day, 3 days before the due time
+const taskReminderOptions = [60, 1440, 4320];
+
+export function TaskForm({ isOpen, task, defaultEventId, onClose, onSave }: TaskFormProps) {
+  const [classes, setClasses] = useState<ClassEvent[]>([]);
+  const [title, setTitle] = useState('');
+  const [eventId, setEventId] = useState<string | undefined>();
+  const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('23:59');
+  const [priority, setPriority] = useState<TaskPriority>('medium');
+  const [status, setStatus] = useState<TaskStatus>('todo');
+  const [reminderMinutes, setReminderMinutes] = useState<number[]>([1440]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    getAllEvents().then(events => setClasses(
+      events
+        .filter(e => (e.kind ?? 'class') === 'class')
+        .sort((a, b) => a.title.localeCompare(b.title))
+    ));
+
+    if (task) {
+      setTitle(task.title);
+      setEventId(task.eventId);
+      setDueDate(task.dueDate);
+      setDueTime(task.dueTime);
+      setPriority(task.priority);
+      setStatus(task.status);
+      setReminderMinutes(task.reminderMinutes);
+      setNotes(task.notes || '');
+    } else {
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      setTitle('');
+      setEventId(defaultEventId);
+      setDueDate(toDateKey(tomorrow));
+      setDueTime('23:59');
+      setPriority('medium');
+      setStatus('todo');
+      setReminderMinutes([1440]);
+      setNotes('');
+    }
+  }, [isOpen, task, defaultEventId]);
+
+  const toggleReminder = (minutes: number) => {
+    setReminderMinutes(prev =>
+      prev.includes(minutes)
+        ? prev.filter(m => m !== minutes)
+        : [...prev, minutes].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!title.trim() || !eventId || !dueDate || !dueTime) return;
+
+    setSaving(true);
+    try {
+      const taskData = {
+        title: title.trim(),
+        eventId,
+        dueDate,
+        dueTime,
+        priority,
+        status,
+        completedAt: status === 'done' ? task?.completedAt ?? Date.now() : undefined,
+        reminderMinutes,
+        notes: notes.trim() || undefined,
+      };
+
+      const saved = task ? await updateTask(task.id, taskData) : await addTask(taskData);
+
+      if (saved) {
+        // Moving a task to another class leaves its old reminders under the old event ID
+        if (task && task.eventId !== saved.eventId) {
+          await syncTaskReminders({ ...task, status: 'done' });
+        }
+        await syncTaskReminders(saved);
+      }
+
+      toast.success(task ? 'Task updated' : 'Task added');
+      onSave();
+      onClose();
+    } catch (e) {
+      console.error('Failed to save task:', e);
+      toast.error('Could not save this task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[85vh] max-w-sm overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task ? 'Edit Task' : 'Add Task'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="task-title" className="text-sm font-medium">Title</Label>
+            <Input
+              id="task-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g., Problem set 3"
+              className="mt-1.5"
+            />
+          </div>
+
+          {/* Class */}
+          <div>
+            <Label className="text-sm font-medium">Class</Label>
+            {classes.length === 0 ? (
+              <p className="mt-1.5 text-xs text-muted-foreground">
+                Add a class first, then attach tasks to it.
+              </p>
+            ) : (
+              <div className="mt-1.5 flex flex-wrap gap-2">
+                {classes.map((cls) => (
+                  <button
+                    key={cls.id}
+                    onClick={() => setEventId(cls.id)}
+                    className={cn(
+                      'flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                      eventId === cls.id
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted text-muted-foreground hover:bg-accent'
+                    )}
+                  >
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: cls.color }} />
+                    {cls.title}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="task-date" className="text-sm font-medium">Due Date</Label>
+              <Input
+                id="task-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label htmlFor="task-time" className="text-sm font-medium">Due Time</Label>
+              <Input
+                id="task-time"
+                type="time"
+                value={dueTime}
+                onChange={(e) => setDueTime(e.target.value)}
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+
+          {/* Priority */}
+          <div>
+            <Label className="text-sm font-medium">Priority</Label>
+            <div className="mt-1.5 grid grid-cols-3 gap-2">
+              {priorityOptions.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setPriority(value)}
+                  className={cn(
+                    'rounded-lg py-2 text-sm font-medium transition-colors',
+                    priority === value
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted text-muted-foreground hover:bg-accent'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Status */}
+          <div>
+            <Label className="text-sm font-medium">Status</Label>
+            <div className="mt-1.5 grid grid-cols-3 gap-2">
+              {statusOptions.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setStatus(value)}
+                  className={cn(
+                    'rounded-lg py-2 text-sm font-medium transition-colors',
+                    status === value
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted text-muted-foreground hover:bg-accent'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Reminders */}
+          <div>
+            <Label className="text-sm font-medium">Remind me before it's due</Label>
+            <div className="mt-1.5 flex flex-wrap gap-2">
+              {taskReminderOptions.map((mins) => (
+                <button
+                  key={mins}
+                  onClick={() => toggleReminder(mins)}
+                  className={cn(
+                    'rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                    reminderMinutes.includes(mins)
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted text-muted-foreground hover:bg-accent'
+                  )}
+                >
+                  {formatReminderOffset(mins)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="task-notes" className="text-sm font-medium">Notes</Label>
+            <Textarea
+              id="task-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+              className="mt-1.5"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={onClose} className="flex-1" disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              className="btn-primary-gradient flex-1"
+              disabled={!title.trim() || !eventId || !dueDate || !dueTime || saving}
+            >
+              {saving ? 'Saving...' : task ? 'Update' : 'Add Task'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
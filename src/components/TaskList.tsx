@@ -0,0 +1,81 @@
+import { Check, Flag } from 'lucide-react';
+import { Task, TaskPriority } from '@/lib/db';
+import { completeTask, reopenTask, getTaskDueTime } from '@/lib/reminderEngine';
+import { toDateKey, fromDateKey } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+interface TaskListProps {
+  tasks: Task[];
+  onEdit: (task: Task) => void;
+  onChange: () => void;
+  classNames?: Record<string, string>; // Show the class next to each task when given
+}
+
+const priorityColors: Record<TaskPriority, string> = {
+  low: 'text-muted-foreground',
+  medium: 'text-warning',
+  high: 'text-destructive',
+};
+
+// e.g. "Due today 23:59", "Due tomorrow 09:00", "Due Mon, Oct 20"
+const formatDue = (task: Task) => {
+  const today = new Date();
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  if (task.status !== 'done' && getTaskDueTime(task) < Date.now()) return `Overdue since ${task.dueTime}`;
+  if (task.dueDate === toDateKey(today)) return `Due today ${task.dueTime}`;
+  if (task.dueDate === toDateKey(tomorrow)) return `Due tomorrow ${task.dueTime}`;
+  return `Due ${fromDateKey(task.dueDate).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })}`;
+};
+
+export function TaskList({ tasks, onEdit, onChange, classNames }: TaskListProps) {
+  const toggleDone = async (task: Task) => {
+    if (task.status === 'done') {
+      await reopenTask(task.id);
+    } else {
+      await completeTask(task.id);
+    }
+    onChange();
+  };
+
+  return (
+    <ul className="space-y-1.5">
+      {tasks.map((task) => {
+        const isDone = task.status === 'done';
+        const isOverdue = !isDone && getTaskDueTime(task) < Date.now();
+
+        return (
+          <li key={task.id} className="flex items-center gap-2.5 rounded-xl bg-muted/60 px-3 py-2">
+            <button
+              onClick={() => toggleDone(task)}
+              className={cn(
+                'flex h-5 w-5 shrink-0 items-center justify-center rounded-md border-2 transition-colors',
+                isDone ? 'border-success bg-success text-success-foreground' : 'border-muted-foreground/40'
+              )}
+              aria-label={isDone ? 'Mark as not done' : 'Mark as done'}
+            >
+              {isDone && <Check className="h-3 w-3" />}
+            </button>
+            <button onClick={() => onEdit(task)} className="min-w-0 flex-1 text-left">
+              <p className={cn('truncate text-sm font-medium text-foreground', isDone && 'line-through opacity-60')}>
+                {task.title}
+              </p>
+              <p className={cn('text-xs text-muted-foreground', isOverdue && 'text-destructive')}>
+                {classNames?.[task.eventId] && `${classNames[task.eventId]} • `}
+                {isDone ? 'Done' : task.status === 'in-progress' ? `In progress • ${formatDue(task)}` : formatDue(task)}
+              </p>
+            </button>
+            {!isDone && task.priority !== 'low' && (
+              <Flag className={cn('h-3.5 w-3.5 shrink-0', priorityColors[task.priority])} />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardList, CheckCircle, Plus } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { TaskForm } from '@/components/TaskForm';
+import { TaskList } from '@/components/TaskList';
+import { Button } from '@/components/ui/button';
+import { useTasks } from '@/hooks/useTasks';
+import { useEvents } from '@/hooks/useEvents';
+import { Task } from '@/lib/db';
+
+// Completed tasks shown before the list is cut off
+const RECENTLY_DONE_LIMIT = 10;
+
+export function TasksView() {
+  const { tasks, loading, refresh } = useTasks();
+  const { events } = useEvents();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | undefined>();
+
+  const classNames = Object.fromEntries(events.map(e => [e.id, e.title]));
+  const openTasks = tasks.filter(t => t.status !== 'done');
+  const doneTasks = tasks
+    .filter(t => t.status === 'done')
+    .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0))
+    .slice(0, RECENTLY_DONE_LIMIT);
+
+  const openForm = (task?: Task) => {
+    setEditingTask(task);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen pb-24">
+      <Header
+        title="Tasks"
+        subtitle={`${openTasks.length} open`}
+      />
+
+      <main className="px-4 py-4">
+        <Button variant="outline" className="mb-6 w-full" onClick={() => openForm()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Task
+        </Button>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+          </div>
+        ) : tasks.length === 0 ? (
+          <motion.div
+            className="mt-8 flex flex-col items-center justify-center text-center"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-primary/10">
+              <ClipboardList className="h-10 w-10 text-primary" />
+            </div>
+            <h3 className="mt-4 text-lg font-semibold text-foreground">
+              No tasks yet
+            </h3>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Track assignments and homework for your classes
+            </p>
+          </motion.div>
+        ) : (
+          <div className="space-y-6">
+            {openTasks.length > 0 && (
+              <section>
+                <div className="mb-3 flex items-center gap-2">
+                  <ClipboardList className="h-4 w-4 text-primary" />
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-primary">
+                    To Do
+                  </h2>
+                </div>
+                <TaskList tasks={openTasks} classNames={classNames} onEdit={openForm} onChange={refresh} />
+              </section>
+            )}
+
+            {doneTasks.length > 0 && (
+              <section className="opacity-60">
+                <div className="mb-3 flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4 text-muted-foreground" />
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                    Done
+                  </h2>
+                </div>
+                <TaskList tasks={doneTasks} classNames={classNames} onEdit={openForm} onChange={refresh} />
+              </section>
+            )}
+          </div>
+        )}
+      </main>
+
+      <TaskForm
+        isOpen={isFormOpen}
+        task={editingTask}
+        onClose={() => setIsFormOpen(false)}
+        onSave={refresh}
+      />
+    </div>
+  );
+}
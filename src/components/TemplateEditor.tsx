@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClockFormat } from '@/lib/timeRange';
+import { TemplateDraft, CLOCK_FORMAT_LABELS, isValidPattern } from '@/lib/timetableTemplates';
+import { cn } from '@/lib/utils';
+
+interface TemplateEditorProps {
+  draft: TemplateDraft;
+  saveLabel: string;
+  onSave: (draft: TemplateDraft) => void;
+  onCancel: () => void;
+}
+
+// Timetables rarely have more columns than this before the day
+const DAY_COLUMN_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+const invalid = (pattern: string) => pattern.trim() !== '' && !isValidPattern(pattern.trim());
+
+// Name a parsing template and adjust what was worked out from the corrected import
+export function TemplateEditor({ draft, saveLabel, onSave, onCancel }: TemplateEditorProps) {
+  const [name, setName] = useState(draft.name);
+  const [dayColumn, setDayColumn] = useState(draft.dayColumn);
+  const [timeFormat, setTimeFormat] = useState<ClockFormat>(draft.timeFormat);
+  const [roomPattern, setRoomPattern] = useState(draft.roomPattern ?? '');
+  const [courseCodePattern, setCourseCodePattern] = useState(draft.courseCodePattern ?? '');
+  // One pattern per line
+  const [ignoreText, setIgnoreText] = useState(draft.ignorePatterns.join('\n'));
+
+  const ignorePatterns = ignoreText.split('\n').map(line => line.trim()).filter(Boolean);
+  const isValid = name.trim()
+    && !invalid(roomPattern)
+    && !invalid(courseCodePattern)
+    && ignorePatterns.every(isValidPattern);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      ...draft,
+      name: name.trim(),
+      dayColumn,
+      timeFormat,
+      roomPattern: roomPattern.trim() || undefined,
+      courseCodePattern: courseCodePattern.trim() || undefined,
+      ignorePatterns,
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-card p-3">
+      <div>
+        <Label htmlFor="template-name" className="text-xs font-medium">Name</Label>
+        <Input
+          id="template-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., State University timetable"
+          className="mt-1 h-8 text-xs"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs font-medium">Day column</Label>
+          <Select
+            value={dayColumn !== undefined ? String(dayColumn) : 'any'}
+            onValueChange={(value) => setDayColumn(value === 'any' ? undefined : Number(value))}
+          >
+            <SelectTrigger className="mt-1 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Anywhere in the line</SelectItem>
+              {DAY_COLUMN_OPTIONS.map(column => (
+                <SelectItem key={column} value={String(column)}>Column {column + 1}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs font-medium">Times</Label>
+          <div className="mt-1 flex gap-1 rounded-lg bg-muted p-0.5">
+            {(Object.keys(CLOCK_FORMAT_LABELS) as ClockFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => setTimeFormat(format)}
+                className={cn(
+                  'flex-1 rounded-md py-1 text-[11px] font-medium transition-colors',
+                  timeFormat === format ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground'
+                )}
+              >
+                {CLOCK_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="template-room" className="text-xs font-medium">Room codes</Label>
+        <Input
+          id="template-room"
+          value={roomPattern}
+          onChange={(e) => setRoomPattern(e.target.value)}
+          placeholder="Built in: Room 101, Hall B"
+          className={cn('mt-1 h-8 font-mono text-xs', invalid(roomPattern) && 'border-destructive')}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="template-code" className="text-xs font-medium">Course codes</Label>
+        <Input
+          id="template-code"
+          value={courseCodePattern}
+          onChange={(e) => setCourseCodePattern(e.target.value)}
+          placeholder="Built in: CS101, MATH 2010"
+          className={cn('mt-1 h-8 font-mono text-xs', invalid(courseCodePattern) && 'border-destructive')}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="template-ignore" className="text-xs font-medium">Lines to ignore</Label>
+        <Textarea
+          id="template-ignore"
+          value={ignoreText}
+          onChange={(e) => setIgnoreText(e.target.value)}
+          placeholder={'One per line, e.g.\nPrinted on\n^Page \\d+'}
+          rows={3}
+          className={cn(
+            'mt-1 font-mono text-xs',
+            !ignorePatterns.every(isValidPattern) && 'border-destructive'
+          )}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Patterns are regular expressions; leave one empty to use the built-in rule.
+        {draft.fingerprint.length > 0 && ` Used automatically for timetables headed "${draft.fingerprint.slice(0, 6).join(' ')}".`}
+      </p>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="btn-primary-gradient h-7 flex-1 text-xs"
+          disabled={!isValid}
+          onClick={handleSave}
+        >
+          {saveLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useRef, useState } from 'react';
+import { Share2, Upload, Pencil, Trash2 } from 'lucide-react';
+import { TimetableTemplate, addTemplate, updateTemplate, deleteTemplate } from '@/lib/db';
+import {
+  TemplateDraft,
+  CLOCK_FORMAT_LABELS,
+  createTemplateFile,
+  getTemplateFileName,
+  parseTemplateFile,
+} from '@/lib/timetableTemplates';
+import { useTemplates } from '@/hooks/useTemplates';
+import { TemplateEditor } from '@/components/TemplateEditor';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+
+// Saved parsing templates: share one with classmates, or add one they shared
+export function TemplateSettings() {
+  const { templates, refresh } = useTemplates();
+  const [editing, setEditing] = useState<TimetableTemplate | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleShare = (template: TimetableTemplate) => {
+    const blob = new Blob([JSON.stringify(createTemplateFile(template), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getTemplateFileName(template);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const template = parseTemplateFile(await file.text());
+      await addTemplate(template);
+      toast.success(`Added the "${template.name}" template`);
+      refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not read this template');
+    }
+  };
+
+  const handleSave = async (draft: TemplateDraft) => {
+    if (!editing) return;
+    await updateTemplate(editing.id, draft);
+    toast.success('Template updated');
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this template? Timetables will be read with the built-in rules again.')) return;
+    await deleteTemplate(id);
+    toast.success('Template deleted');
+    refresh();
+  };
+
+  if (editing) {
+    return (
+      <TemplateEditor
+        draft={editing}
+        saveLabel="Update"
+        onSave={handleSave}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {templates.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Save a template after correcting an imported timetable, or add one a classmate shared.
+        </p>
+      )}
+
+      {templates.map((template) => (
+        <div key={template.id} className="flex items-center justify-between rounded-lg bg-muted p-2">
+          <div className="min-w-0">
+            <p className="truncate text-xs font-medium text-foreground">{template.name}</p>
+            <p className="text-[11px] text-muted-foreground">
+              {CLOCK_FORMAT_LABELS[template.timeFormat]} times
+              {template.dayColumn !== undefined && ` • Day in column ${template.dayColumn + 1}`}
+              {template.ignorePatterns.length > 0 && ` • ${template.ignorePatterns.length} ignored line(s)`}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => handleShare(template)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-muted-foreground hover:text-foreground"
+            >
+              <Share2 className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => setEditing(template)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-muted-foreground hover:text-foreground"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => handleDelete(template.id)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-muted-foreground hover:text-destructive"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 w-full text-xs"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="mr-1 h-3 w-3" />
+        Add shared template
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+    </div>
+  );
+}
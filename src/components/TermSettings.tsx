@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Plus, Trash2, Pencil, X } from 'lucide-react';
+import { Term, TermBreak, addTerm, updateTerm, deleteTerm, generateId } from '@/lib/db';
+import { materializeReminders } from '@/lib/reminderEngine';
+import { useTerms } from '@/hooks/useTerms';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface TermDraft {
+  name: string;
+  startDate: string;
+  endDate: string;
+  breaks: TermBreak[];
+}
+
+const emptyDraft: TermDraft = { name: '', startDate: '', endDate: '', breaks: [] };
+
+const formatDateKey = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export function TermSettings() {
+  const { terms, refresh } = useTerms();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TermDraft | null>(null);
+
+  const startEditing = (term?: Term) => {
+    setEditingId(term?.id ?? null);
+    setDraft(term
+      ? { name: term.name, startDate: term.startDate, endDate: term.endDate, breaks: term.breaks }
+      : emptyDraft
+    );
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const updateBreak = (id: string, updates: Partial<TermBreak>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      breaks: prev.breaks.map(b => (b.id === id ? { ...b, ...updates } : b)),
+    });
+  };
+
+  const isValid = draft
+    && draft.name.trim()
+    && draft.startDate
+    && draft.endDate
+    && draft.startDate <= draft.endDate
+    && draft.breaks.every(b => b.startDate && b.endDate && b.startDate <= b.endDate);
+
+  const handleSave = async () => {
+    if (!draft || !isValid) return;
+
+    const termData = {
+      name: draft.name.trim(),
+      startDate: draft.startDate,
+      endDate: draft.endDate,
+      breaks: draft.breaks.map(b => ({ ...b, label: b.label.trim() || 'Break' })),
+    };
+
+    if (editingId) {
+      await updateTerm(editingId, termData);
+    } else {
+      await addTerm(termData);
+    }
+
+    // Term dates change which occurrences get reminders
+    await materializeReminders();
+    toast.success(editingId ? 'Term updated' : 'Term added');
+    stopEditing();
+    refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this term? Its classes will run every week again.')) return;
+    await deleteTerm(id);
+    await materializeReminders();
+    toast.success('Term deleted');
+    refresh();
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-3">
+        <div>
+          <Label htmlFor="term-name" className="text-xs font-medium">Name</Label>
+          <Input
+            id="term-name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g., Fall 2026"
+            className="mt-1 h-8 text-xs"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="term-start" className="text-xs font-medium">Starts</Label>
+            <Input
+              id="term-start"
+              type="date"
+              value={draft.startDate}
+              onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+              className="mt-1 h-8 text-xs"
+            />
+          </div>
+          <div>
+            <Label htmlFor="term-end" className="text-xs font-medium">Ends</Label>
+            <Input
+              id="term-end"
+              type="date"
+              value={draft.endDate}
+              onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+              className="mt-1 h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        {/* Breaks and holidays */}
+        <div>
+          <Label className="text-xs font-medium">Breaks & holidays</Label>
+          <div className="mt-1 space-y-2">
+            {draft.breaks.map((b) => (
+              <div key={b.id} className="rounded-lg bg-muted p-2 space-y-1.5">
+                <div className="flex gap-1.5">
+                  <Input
+                    value={b.label}
+                    onChange={(e) => updateBreak(b.id, { label: e.target.value })}
+                    placeholder="e.g., Reading week"
+                    className="h-7 text-xs"
+                  />
+                  <button
+                    onClick={() => setDraft({ ...draft, breaks: draft.breaks.filter(x => x.id !== b.id) })}
+                    className="flex h-7 w-7 shrink-0 items-center justify-center rounded-md text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-1.5">
+                  <Input
+                    type="date"
+                    value={b.startDate}
+                    onChange={(e) => updateBreak(b.id, { startDate: e.target.value })}
+                    className="h-7 text-xs"
+                  />
+                  <Input
+                    type="date"
+                    value={b.endDate}
+                    onChange={(e) => updateBreak(b.id, { endDate: e.target.value })}
+                    className="h-7 text-xs"
+                  />
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 w-full text-xs"
+              onClick={() => setDraft({
+                ...draft,
+                breaks: [...draft.breaks, { id: generateId(), label: '', startDate: '', endDate: '' }],
+              })}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add break
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="h-7 flex-1 text-xs" onClick={stopEditing}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="btn-primary-gradient h-7 flex-1 text-xs"
+            disabled={!isValid}
+            onClick={handleSave}
+          >
+            {editingId ? 'Update' : 'Add Term'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {terms.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add your semester dates so reminders stop during breaks and after the term ends.
+        </p>
+      )}
+
+      {terms.map((term) => (
+        <div key={term.id} className="flex items-center justify-between rounded-lg bg-muted p-2">
+          <div className="min-w-0">
+            <p className="truncate text-xs font-medium text-foreground">{term.name}</p>
+            <p className="text-[11px] text-muted-foreground">
+              {formatDateKey(term.startDate)} – {formatDateKey(term.endDate)}
+              {term.breaks.length > 0 && ` • ${term.breaks.length} break(s)`}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => startEditing(term)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-muted-foreground hover:text-foreground"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={() => handleDelete(term.id)}
+              className="flex h-7 w-7 items-center justify-center rounded-md text-muted-foreground hover:text-destructive"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" className="h-7 w-full text-xs" onClick={() => startEditing()}>
+        <Plus className="mr-1 h-3 w-3" />
+        Add Term
+      </Button>
+    </div>
+  );
+}
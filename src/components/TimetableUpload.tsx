@@ -1,16 +1,60 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileText, Image, X, Check, AlertCircle, Loader2 } from 'lucide-react';
+import {
+  Upload,
+  FileText,
+  Image,
+  X,
+  Check,
+  AlertCircle,
+  Loader2,
+  Columns3,
+  Pencil,
+  Plus,
+  LayoutTemplate,
+  ClipboardPaste,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { parsePDFTimetable, parseImageTimetable, ParsedClass, ParseProgress } from '@/lib/pdfParser';
-import { addEvent, ClassEvent } from '@/lib/db';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ParsedClassEditor } from '@/components/ParsedClassEditor';
+import { ImagePreprocessStep } from '@/components/ImagePreprocessStep';
+import { TemplateEditor } from '@/components/TemplateEditor';
+import { ParsedClass, ParsedField, ParseProgress, LOW_CONFIDENCE, parsePastedTimetable } from '@/lib/pdfParser';
+import { parseICSTimetable } from '@/lib/icsParser';
+import { parseTimetableFile, isAbortError } from '@/lib/timetableParsing';
+import { PreprocessOptions } from '@/lib/imagePreprocess';
+import {
+  TIMETABLE_LOCALES,
+  DEFAULT_TIMETABLE_LANGUAGES,
+  TimetableLanguage,
+  detectTimetableLanguage,
+} from '@/lib/timetableLocales';
+import { parseCSV, detectMapping, isMappingComplete, rowsToClasses, CsvField, CsvMapping, CSV_FIELDS } from '@/lib/csv';
+import {
+  getAllEvents,
+  getAllExceptions,
+  getSettings,
+  updateSettings,
+  getAllTemplates,
+  addTemplate,
+  updateTemplate,
+  ClassEvent,
+  OccurrenceException,
+  TimetableTemplate,
+} from '@/lib/db';
+import { TemplateDraft, draftTemplate } from '@/lib/timetableTemplates';
+import { matchClasses, findRemovedEvents, applyImport, ImportStatus, DATED_IMPORT_REMINDERS } from '@/lib/timetableImport';
+import { formatClassTitle } from '@/lib/courseDetails';
+import { describeRecurrence } from '@/lib/recurrence';
+import { fromDateKey } from '@/lib/dates';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -31,30 +75,189 @@ const COLORS = [
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+// Calendar files are often served without a MIME type, so check the extension too
+const isCalendarFile = (file: File) =>
+  file.type === 'text/calendar' || file.name.toLowerCase().endsWith('.ics');
+
+// Some systems report CSV files as application/vnd.ms-excel, so check the extension too
+const isCsvFile = (file: File) =>
+  file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+
+// "Mon" for weekly classes, "Fri, Dec 11" for dated events
+const formatWhen = (cls: ParsedClass) =>
+  cls.date
+    ? fromDateKey(cls.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+    : DAY_NAMES[cls.dayOfWeek];
+
+const FIELD_LABELS: Record<ParsedField, string> = {
+  title: 'name',
+  dayOfWeek: 'day',
+  startTime: 'start',
+  endTime: 'end',
+  location: 'room',
+};
+
+// Fields OCR wasn't sure about
+const getUncertainFields = (cls: ParsedClass) =>
+  (Object.keys(FIELD_LABELS) as ParsedField[]).filter(
+    field => cls.confidence?.[field] !== undefined && cls.confidence[field]! < LOW_CONFIDENCE
+  );
+
+const statusLabels: Record<ImportStatus, string> = {
+  new: 'New',
+  changed: 'Changed',
+  unchanged: 'Already saved',
+};
+
+// A parsed class in the review list; keys stay stable while rows are added, split or merged
+interface ReviewRow {
+  key: number;
+  cls: ParsedClass;
+  selected: boolean;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number) =>
+  `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+
+const isImportable = (cls: ParsedClass) =>
+  cls.title.trim().length > 0 && (cls.allDay || cls.endTime > cls.startTime);
+
 export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUploadProps) {
-  const [stage, setStage] = useState<'upload' | 'processing' | 'review' | 'error'>('upload');
+  const [stage, setStage] = useState<'upload' | 'paste' | 'crop' | 'processing' | 'mapping' | 'review' | 'error'>('upload');
   const [progress, setProgress] = useState<ParseProgress | null>(null);
-  const [parsedClasses, setParsedClasses] = useState<ParsedClass[]>([]);
-  const [selectedClasses, setSelectedClasses] = useState<Set<number>>(new Set());
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [editingKey, setEditingKey] = useState<number | null>(null);
+  const [existingEvents, setExistingEvents] = useState<ClassEvent[]>([]);
+  const [existingExceptions, setExistingExceptions] = useState<OccurrenceException[]>([]);
+  const [defaultReminders, setDefaultReminders] = useState<number[]>([10, 30]);
+  const [removedIds, setRemovedIds] = useState<Set<string>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const nextKeyRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvMapping>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const parseControllerRef = useRef<AbortController | null>(null);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [languages, setLanguages] = useState<TimetableLanguage[]>(DEFAULT_TIMETABLE_LANGUAGES);
+  const [templates, setTemplates] = useState<TimetableTemplate[]>([]);
+  // 'auto' picks a saved template by the document's header
+  const [templateChoice, setTemplateChoice] = useState<string>('auto');
+  // Header words and template of the parsed PDF or photo, for saving a template from the review
+  const [parsedWith, setParsedWith] = useState<{ fingerprint: string[]; template?: TimetableTemplate } | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [pasteText, setPasteText] = useState('');
+  // The clipboard's HTML, kept until the text is edited by hand
+  const [pasteHtml, setPasteHtml] = useState<string | null>(null);
+
+  // Until a language is picked, read English plus the browser's language
+  useEffect(() => {
+    if (!isOpen) return;
+    getAllTemplates().then(setTemplates);
+    getSettings().then(settings => {
+      const detected = detectTimetableLanguage();
+      setLanguages(
+        settings.timetableLanguages
+          ?? (detected && detected !== 'en' ? [...DEFAULT_TIMETABLE_LANGUAGES, detected] : DEFAULT_TIMETABLE_LANGUAGES)
+      );
+    });
+  }, [isOpen]);
+
+  // At least one language stays selected; the choice is remembered for next time
+  const handleToggleLanguage = (language: TimetableLanguage) => {
+    const next = languages.includes(language)
+      ? languages.filter(l => l !== language)
+      : [...languages, language];
+    if (next.length === 0) return;
+    setLanguages(next);
+    updateSettings({ timetableLanguages: next });
+  };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    // Photos get cropped and cleaned up before OCR
+    if (file.type.startsWith('image/')) {
+      setImageFile(file);
+      setStage('crop');
+      return;
+    }
+    parseFile(file);
+  };
+
+  // The template picked in the upload stage, or every saved one to match by header
+  const templateOptions = () => ({
+    template: templates.find(t => t.id === templateChoice),
+    templates: templateChoice === 'auto' ? templates : undefined,
+  });
+
+  // Copying a table from a web page puts its HTML on the clipboard next to the text
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html) return;
+    e.preventDefault();
+    setPasteText(e.clipboardData.getData('text/plain'));
+    setPasteHtml(html);
+  };
+
+  const handleReadPasted = async () => {
+    setError(null);
+    const result = parsePastedTimetable(pasteText, pasteHtml ?? undefined, { languages, ...templateOptions() });
+    if (result.classes.length === 0) {
+      setError('No classes found in the pasted timetable. Copy the whole table, including the day and time headings.');
+      setStage('error');
+      return;
+    }
+    setParsedWith({ fingerprint: result.fingerprint, template: result.template });
+    await showReview(result.classes);
+  };
+
+  const parseFile = async (file: File, preprocess?: PreprocessOptions) => {
     setStage('processing');
     setError(null);
+    setParsedWith(null);
 
     try {
       let classes: ParsedClass[];
 
-      if (file.type === 'application/pdf') {
-        classes = await parsePDFTimetable(file, setProgress);
-      } else if (file.type.startsWith('image/')) {
-        classes = await parseImageTimetable(file, setProgress);
+      if (isCsvFile(file)) {
+        const rows = parseCSV(await file.text());
+        if (rows.length < 2) {
+          throw new Error('This spreadsheet has no rows to import. The first row should be column headers.');
+        }
+
+        const mapping = detectMapping(rows[0]);
+        setCsvRows(rows);
+        setCsvMapping(mapping);
+
+        // Only ask about columns when the headers didn't give us the essentials
+        if (!isMappingComplete(mapping) || !(await applyMapping(rows, mapping))) {
+          setStage('mapping');
+        }
+        return;
+      }
+
+      if (isCalendarFile(file)) {
+        classes = await parseICSTimetable(file, setProgress);
+      } else if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
+        const controller = new AbortController();
+        parseControllerRef.current = controller;
+        const result = await parseTimetableFile(
+          file,
+          file.type === 'application/pdf' ? 'pdf' : 'image',
+          setProgress,
+          { signal: controller.signal, languages, preprocess, ...templateOptions() }
+        );
+        classes = result.classes;
+        setParsedWith({ fingerprint: result.fingerprint, template: result.template });
       } else {
-        throw new Error('Unsupported file type. Please upload a PDF or image.');
+        throw new Error('Unsupported file type. Please upload a PDF, image, .ics calendar or .csv spreadsheet.');
       }
 
       if (classes.length === 0) {
@@ -63,55 +266,236 @@ export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUp
         return;
       }
 
-      setParsedClasses(classes);
-      setSelectedClasses(new Set(classes.map((_, i) => i)));
-      setStage('review');
+      await showReview(classes);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to parse file');
       setStage('error');
     }
   };
 
-  const handleToggleClass = (index: number) => {
-    setSelectedClasses(prev => {
+  // Stop OCR and go back to picking a file
+  const handleCancelParsing = () => {
+    parseControllerRef.current?.abort();
+    parseControllerRef.current = null;
+    setImageFile(null);
+    setStage('upload');
+    setProgress(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // Fill in colors and reminders up front so the review shows what will be saved.
+  // Classes already in the timetable keep their saved color and reminders.
+  const showReview = async (classes: ParsedClass[]) => {
+    const [events, exceptions, settings] = await Promise.all([getAllEvents(), getAllExceptions(), getSettings()]);
+    const matches = matchClasses(classes, events, exceptions);
+
+    setExistingEvents(events);
+    setExistingExceptions(exceptions);
+    setDefaultReminders(settings.defaultReminderMinutes);
+    setRemovedIds(new Set());
+    setRows(classes.map((cls, i) => ({
+      key: nextKeyRef.current++,
+      selected: true,
+      cls: {
+        ...cls,
+        color: cls.color ?? matches[i].event?.color ?? COLORS[i % COLORS.length],
+        reminderMinutes: cls.reminderMinutes
+          ?? matches[i].event?.reminderMinutes
+          ?? (cls.date ? DATED_IMPORT_REMINDERS : settings.defaultReminderMinutes),
+      },
+    })));
+    setEditingKey(null);
+    setStage('review');
+  };
+
+  // Turn spreadsheet rows into classes for review; returns false if none could be read
+  const applyMapping = async (rows: string[][], mapping: CsvMapping): Promise<boolean> => {
+    const { classes, skippedRows } = rowsToClasses(rows.slice(1), mapping);
+    if (classes.length === 0) return false;
+
+    if (skippedRows.length > 0) {
+      toast.warning(`Skipped ${skippedRows.length} row(s) without a title, day or start time`);
+    }
+    await showReview(classes);
+    return true;
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setCsvMapping(prev => {
+      const next = { ...prev };
+      if (value === 'none') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirmMapping = async () => {
+    if (csvRows && !(await applyMapping(csvRows, csvMapping))) {
+      toast.error('No classes could be read with these columns');
+    }
+  };
+
+  const handleToggleClass = (key: number) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, selected: !row.selected } : row)));
+  };
+
+  const handleChangeClass = (key: number, cls: ParsedClass) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, cls } : row)));
+  };
+
+  const handleRemoveClass = (key: number) => {
+    setRows(prev => prev.filter(row => row.key !== key));
+    setEditingKey(null);
+  };
+
+  const handleAddClass = () => {
+    const key = nextKeyRef.current++;
+    setRows(prev => [...prev, {
+      key,
+      selected: true,
+      cls: {
+        title: '',
+        dayOfWeek: 1,
+        startTime: '09:00',
+        endTime: '10:00',
+        color: COLORS[prev.length % COLORS.length],
+        reminderMinutes: defaultReminders,
+      },
+    }]);
+    setEditingKey(key);
+  };
+
+  // Cut a row that swallowed two back-to-back classes in half
+  const handleSplitClass = (key: number) => {
+    const newKey = nextKeyRef.current++;
+    setRows(prev => prev.flatMap(row => {
+      if (row.key !== key) return [row];
+      const start = toMinutes(row.cls.startTime);
+      const middle = fromMinutes(start + Math.round((toMinutes(row.cls.endTime) - start) / 10) * 5);
+      return [
+        { ...row, cls: { ...row.cls, endTime: middle } },
+        { ...row, key: newKey, cls: { ...row.cls, startTime: middle } },
+      ];
+    }));
+  };
+
+  // Join two rows, for a class the parser read as two pieces
+  const handleMergeRows = (key: number, nextKey: number) => {
+    setRows(prev => {
+      const first = prev.find(row => row.key === key);
+      const second = prev.find(row => row.key === nextKey);
+      if (!first || !second) return prev;
+
+      const merged: ReviewRow = {
+        ...first,
+        selected: first.selected || second.selected,
+        cls: {
+          ...first.cls,
+          title: `${first.cls.title} ${second.cls.title}`.trim(),
+          startTime: first.cls.startTime < second.cls.startTime ? first.cls.startTime : second.cls.startTime,
+          endTime: first.cls.endTime > second.cls.endTime ? first.cls.endTime : second.cls.endTime,
+          location: first.cls.location ?? second.cls.location,
+          courseCode: first.cls.courseCode ?? second.cls.courseCode,
+          sessionType: first.cls.sessionType ?? second.cls.sessionType,
+          instructor: first.cls.instructor ?? second.cls.instructor,
+        },
+      };
+      return prev.filter(row => row.key !== nextKey).map(row => (row.key === key ? merged : row));
+    });
+  };
+
+  // Start a template from the corrected rows, or update the one the file was read with
+  const handleStartTemplate = () => {
+    if (!parsedWith) return;
+    setTemplateDraft(draftTemplate(rows.map(row => row.cls), parsedWith.fingerprint, parsedWith.template));
+  };
+
+  const handleSaveTemplate = async (draft: TemplateDraft) => {
+    const existing = parsedWith?.template;
+    const saved = existing ? await updateTemplate(existing.id, draft) : await addTemplate(draft);
+    if (!saved) return;
+    toast.success(existing ? `Updated the "${saved.name}" template` : `Saved the "${saved.name}" template`);
+    setParsedWith(prev => prev && { ...prev, template: saved });
+    setTemplates(await getAllTemplates());
+    setTemplateDraft(null);
+  };
+
+  const handleToggleRemoved = (id: string) => {
+    setRemovedIds(prev => {
       const next = new Set(prev);
-      if (next.has(index)) {
-        next.delete(index);
+      if (next.has(id)) {
+        next.delete(id);
       } else {
-        next.add(index);
+        next.add(id);
       }
       return next;
     });
   };
 
+  // Rows are matched again after every edit, so renaming a class can turn it new
+  const matches = useMemo(
+    () => matchClasses(rows.map(row => row.cls), existingEvents, existingExceptions),
+    [rows, existingEvents, existingExceptions]
+  );
+  const removedEvents = useMemo(() => findRemovedEvents(matches, existingEvents), [matches, existingEvents]);
+  const rowGroups = (['new', 'changed', 'unchanged'] as ImportStatus[]).map(status => ({
+    status,
+    rows: rows.filter((_, i) => matches[i]?.status === status),
+  }));
+
+  const itemsToImport = rows
+    .map((row, i) => ({ ...row, match: matches[i] }))
+    .filter(row => row.selected && row.match && row.match.status !== 'unchanged' && isImportable(row.cls));
+  const eventsToRemove = removedEvents.filter(event => removedIds.has(event.id));
+  const changeCount = itemsToImport.length + eventsToRemove.length;
+
   const handleImportClasses = async () => {
-    const classesToImport = parsedClasses.filter((_, i) => selectedClasses.has(i));
-    
-    for (let i = 0; i < classesToImport.length; i++) {
-      const cls = classesToImport[i];
-      await addEvent({
-        title: cls.title,
-        location: cls.location,
-        dayOfWeek: cls.dayOfWeek,
-        startTime: cls.startTime,
-        endTime: cls.endTime,
-        color: COLORS[i % COLORS.length],
-        reminderMinutes: [10, 30],
-        voiceReminderEnabled: true,
-      });
+    setImporting(true);
+    try {
+      const result = await applyImport(
+        itemsToImport.map(({ cls, match }) => ({ cls, match })),
+        eventsToRemove,
+        defaultReminders
+      );
+      const parts = [
+        result.added > 0 && `added ${result.added}`,
+        result.updated > 0 && `updated ${result.updated}`,
+        result.removed > 0 && `removed ${result.removed}`,
+      ].filter(Boolean);
+      toast.success(`Timetable ${parts.join(', ')} class(es)`);
+      onClassesAdded();
+      handleClose();
+    } catch (e) {
+      console.error('Import failed:', e);
+      toast.error('Import failed. Some classes may not have been saved.');
+    } finally {
+      setImporting(false);
     }
-
-    toast.success(`Imported ${classesToImport.length} class(es)`);
-    onClassesAdded();
-    handleClose();
   };
 
   const handleClose = () => {
+    parseControllerRef.current?.abort();
+    setImageFile(null);
     setStage('upload');
     setProgress(null);
-    setParsedClasses([]);
-    setSelectedClasses(new Set());
+    setRows([]);
+    setEditingKey(null);
+    setExistingEvents([]);
+    setExistingExceptions([]);
+    setRemovedIds(new Set());
     setError(null);
+    setCsvRows(null);
+    setCsvMapping({});
+    setParsedWith(null);
+    setTemplateDraft(null);
+    setPasteText('');
+    setPasteHtml(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -124,7 +508,10 @@ export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUp
         <DialogHeader>
           <DialogTitle>
             {stage === 'upload' && 'Upload Timetable'}
+            {stage === 'paste' && 'Paste Timetable'}
+            {stage === 'crop' && 'Prepare Photo'}
             {stage === 'processing' && 'Processing...'}
+            {stage === 'mapping' && 'Match Columns'}
             {stage === 'review' && 'Review Classes'}
             {stage === 'error' && 'Upload Failed'}
           </DialogTitle>
@@ -146,13 +533,13 @@ export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUp
                   </div>
                   <h3 className="mb-2 font-semibold">Upload your timetable</h3>
                   <p className="mb-4 text-sm text-muted-foreground">
-                    Supports PDF and image files (JPG, PNG)
+                    Supports PDF, image files (JPG, PNG), calendar files (.ics) and spreadsheets (.csv)
                   </p>
                   
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".pdf,image/*"
+                    accept=".pdf,image/*,.ics,text/calendar,.csv,text/csv"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -165,9 +552,54 @@ export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUp
                       <FileText className="mr-2 h-4 w-4" />
                       Choose File
                     </Button>
+                    <Button variant="outline" onClick={() => setStage('paste')}>
+                      <ClipboardPaste className="mr-2 h-4 w-4" />
+                      Paste
+                    </Button>
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Timetable language</h4>
+                  <div className="flex flex-wrap gap-1.5">
+                    {(Object.keys(TIMETABLE_LOCALES) as TimetableLanguage[]).map((language) => (
+                      <button
+                        key={language}
+                        onClick={() => handleToggleLanguage(language)}
+                        className={cn(
+                          'rounded-lg px-2.5 py-1 text-xs font-medium transition-colors',
+                          languages.includes(language)
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-muted text-muted-foreground hover:bg-accent'
+                        )}
+                      >
+                        {TIMETABLE_LOCALES[language].label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Used to read day names and times in PDFs and photos. Pick every language the timetable uses.
+                  </p>
+                </div>
+
+                {templates.length > 0 && (
+                  <div className="flex items-center justify-between gap-3">
+                    <h4 className="text-sm font-medium">Template</h4>
+                    <Select value={templateChoice} onValueChange={setTemplateChoice}>
+                      <SelectTrigger className="h-8 w-48 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Match automatically</SelectItem>
+                        <SelectItem value="none">Built-in rules</SelectItem>
+                        {templates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="rounded-xl bg-muted/50 p-4">
                   <h4 className="mb-2 text-sm font-medium">Tips for best results:</h4>
                   <ul className="space-y-1 text-xs text-muted-foreground">
@@ -180,6 +612,67 @@ export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUp
               </motion.div>
             )}
 
+            {stage === 'paste' && (
+              <motion.div
+                key="paste"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className="space-y-4"
+              >
+                <p className="text-sm text-muted-foreground">
+                  Copy the timetable from your student portal (the whole table, with its day and time headings) and
+                  paste it here. Plain text with one class per line works too.
+                </p>
+
+                <Textarea
+                  value={pasteText}
+                  onChange={(e) => {
+                    setPasteText(e.target.value);
+                    setPasteHtml(null);
+                  }}
+                  onPaste={handlePaste}
+                  placeholder={'Monday\n9:00 - 10:30 Calculus Room 101'}
+                  rows={8}
+                  className="font-mono text-xs"
+                />
+
+                {pasteHtml && (
+                  <p className="text-xs text-muted-foreground">
+                    Table layout kept from the copied page, so merged cells are read correctly.
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStage('upload')} className="flex-1">
+                    Back
+                  </Button>
+                  <Button
+                    onClick={handleReadPasted}
+                    disabled={!pasteText.trim() && !pasteHtml}
+                    className="flex-1 btn-primary-gradient"
+                  >
+                    Read Timetable
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+
+            {stage === 'crop' && imageFile && (
+              <motion.div
+                key="crop"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <ImagePreprocessStep
+                  file={imageFile}
+                  onConfirm={(options) => parseFile(imageFile, options)}
+                  onBack={handleCancelParsing}
+                />
+              </motion.div>
+            )}
+
             {stage === 'processing' && progress && (
               <motion.div
                 key="processing"
@@ -203,65 +696,272 @@ export function TimetableUpload({ isOpen, onClose, onClassesAdded }: TimetableUp
                 <p className="text-center text-xs text-muted-foreground">
                   This may take a minute for large files...
                 </p>
+
+                <Button variant="outline" onClick={handleCancelParsing} className="w-full">
+                  Cancel
+                </Button>
               </motion.div>
             )}
 
-            {stage === 'review' && (
+            {stage === 'mapping' && csvRows && (
               <motion.div
-                key="review"
+                key="mapping"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
                 className="space-y-4"
               >
                 <p className="text-sm text-muted-foreground">
-                  Found {parsedClasses.length} class(es). Select the ones to import:
+                  Tell us which column holds each detail. Rows with several days (like "Mon/Wed") become one class per day.
                 </p>
 
-                <div className="max-h-64 space-y-2 overflow-y-auto">
-                  {parsedClasses.map((cls, index) => (
-                    <motion.div
-                      key={index}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.05 }}
-                      onClick={() => handleToggleClass(index)}
-                      className={cn(
-                        'flex cursor-pointer items-center gap-3 rounded-xl p-3 transition-colors',
-                        selectedClasses.has(index)
-                          ? 'bg-primary/10 border border-primary/30'
-                          : 'bg-muted/50 border border-transparent'
-                      )}
-                    >
-                      <div className={cn(
-                        'flex h-6 w-6 items-center justify-center rounded-full border-2 transition-colors',
-                        selectedClasses.has(index)
-                          ? 'border-primary bg-primary text-primary-foreground'
-                          : 'border-muted-foreground/30'
-                      )}>
-                        {selectedClasses.has(index) && <Check className="h-4 w-4" />}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <h4 className="font-medium truncate">{cls.title}</h4>
-                        <p className="text-xs text-muted-foreground">
-                          {DAY_NAMES[cls.dayOfWeek]} • {cls.startTime} - {cls.endTime}
-                          {cls.location && ` • ${cls.location}`}
-                        </p>
-                      </div>
-                    </motion.div>
+                <div className="space-y-2">
+                  {CSV_FIELDS.map(({ field, label, required }) => (
+                    <div key={field} className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-foreground">
+                        {label}
+                        {required && <span className="text-destructive"> *</span>}
+                      </span>
+                      <Select
+                        value={csvMapping[field] !== undefined ? String(csvMapping[field]) : 'none'}
+                        onValueChange={(value) => handleMappingChange(field, value)}
+                      >
+                        <SelectTrigger className="h-8 w-40 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">{required ? 'Choose column' : 'Not included'}</SelectItem>
+                          {csvRows[0].map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   ))}
                 </div>
 
+                {/* First data row, so the choice can be checked against real values */}
+                <div className="rounded-xl bg-muted/50 p-3 text-xs text-muted-foreground">
+                  <p className="mb-1 font-medium text-foreground">First row</p>
+                  {CSV_FIELDS.filter(({ field }) => csvMapping[field] !== undefined).map(({ field, label }) => (
+                    <p key={field} className="truncate">
+                      {label}: {csvRows[1][csvMapping[field]!] || '–'}
+                    </p>
+                  ))}
+                </div>
+
+                <div className="flex gap-2 pt-2">
+                  <Button variant="outline" onClick={handleClose} className="flex-1">
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleConfirmMapping}
+                    disabled={!isMappingComplete(csvMapping)}
+                    className="flex-1 btn-primary-gradient"
+                  >
+                    Continue
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+
+            {stage === 'review' && (
+              <motion.div
+                key="review"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className="space-y-4"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-muted-foreground">
+                    Found {rows.length} class(es). Tap the pencil to fix any mistakes.
+                  </p>
+                  {csvRows && (
+                    <Button variant="ghost" size="sm" className="h-7 shrink-0 text-xs" onClick={() => setStage('mapping')}>
+                      <Columns3 className="mr-1 h-3 w-3" />
+                      Columns
+                    </Button>
+                  )}
+                  {parsedWith && !templateDraft && (
+                    <Button variant="ghost" size="sm" className="h-7 shrink-0 text-xs" onClick={handleStartTemplate}>
+                      <LayoutTemplate className="mr-1 h-3 w-3" />
+                      {parsedWith.template ? 'Update template' : 'Save template'}
+                    </Button>
+                  )}
+                </div>
+
+                {parsedWith?.template && !templateDraft && (
+                  <p className="text-xs text-muted-foreground">
+                    Read with the "{parsedWith.template.name}" template.
+                  </p>
+                )}
+
+                {templateDraft && (
+                  <TemplateEditor
+                    draft={templateDraft}
+                    saveLabel={parsedWith?.template ? 'Update Template' : 'Save Template'}
+                    onSave={handleSaveTemplate}
+                    onCancel={() => setTemplateDraft(null)}
+                  />
+                )}
+
+                <div className="max-h-[50vh] space-y-4 overflow-y-auto">
+                  {rowGroups.filter(group => group.rows.length > 0).map(group => (
+                    <div key={group.status} className="space-y-2">
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        {statusLabels[group.status]} ({group.rows.length})
+                      </h4>
+                      {group.rows.map(({ key, cls, selected }, index) => {
+                        const rowIndex = rows.findIndex(row => row.key === key);
+                        const match = matches[rowIndex];
+                        const next = group.rows[index + 1];
+                        const canMerge = !!next && next.cls.dayOfWeek === cls.dayOfWeek && next.cls.date === cls.date;
+                        const canSplit = !cls.allDay && toMinutes(cls.endTime) - toMinutes(cls.startTime) >= 10;
+                        const isSaved = match?.status === 'unchanged';
+
+                        return (
+                          <motion.div
+                            key={key}
+                            initial={{ opacity: 0, x: -20 }}
+                            animate={{ opacity: 1, x: 0 }}
+                            transition={{ delay: Math.min(index, 10) * 0.05 }}
+                            className="space-y-2"
+                          >
+                            <div
+                              onClick={() => !isSaved && handleToggleClass(key)}
+                              className={cn(
+                                'flex items-center gap-3 rounded-xl p-3 transition-colors',
+                                isSaved
+                                  ? 'bg-muted/30 border border-transparent opacity-70'
+                                  : selected
+                                    ? 'cursor-pointer bg-primary/10 border border-primary/30'
+                                    : 'cursor-pointer bg-muted/50 border border-transparent'
+                              )}
+                            >
+                              {!isSaved && (
+                                <div className={cn(
+                                  'flex h-6 w-6 shrink-0 items-center justify-center rounded-full border-2 transition-colors',
+                                  selected
+                                    ? 'border-primary bg-primary text-primary-foreground'
+                                    : 'border-muted-foreground/30'
+                                )}>
+                                  {selected && <Check className="h-4 w-4" />}
+                                </div>
+                              )}
+                              <div className="h-8 w-1 shrink-0 rounded-full" style={{ backgroundColor: cls.color }} />
+                              <div className="flex-1 min-w-0">
+                                <h4 className={cn('font-medium truncate', !cls.title.trim() && 'text-muted-foreground')}>
+                                  {formatClassTitle(cls) || 'Untitled'}
+                                </h4>
+                                <p className="text-xs text-muted-foreground">
+                                  {formatWhen(cls)} • {cls.allDay ? 'All day' : `${cls.startTime} - ${cls.endTime}`}
+                                  {cls.location && ` • ${cls.location}`}
+                                  {cls.instructor && ` • ${cls.instructor}`}
+                                  {!cls.date && cls.recurrence && ` • ${describeRecurrence(cls.recurrence)}`}
+                                </p>
+                                {match?.status === 'changed' && match.event && (
+                                  <p className="text-xs text-primary">
+                                    Was {match.event.startTime} - {match.event.endTime}
+                                    {match.event.location && ` • ${match.event.location}`} ({match.changes.join(', ')} changed)
+                                  </p>
+                                )}
+                                {getUncertainFields(cls).length > 0 && (
+                                  <p className="text-xs text-warning">
+                                    Check the {getUncertainFields(cls).map(field => FIELD_LABELS[field]).join(', ')}
+                                  </p>
+                                )}
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 shrink-0"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingKey(editingKey === key ? null : key);
+                                }}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </div>
+
+                            {editingKey === key && (
+                              <ParsedClassEditor
+                                cls={cls}
+                                colors={COLORS}
+                                onChange={(updated) => handleChangeClass(key, updated)}
+                                onSplit={canSplit ? () => handleSplitClass(key) : undefined}
+                                onMergeNext={canMerge ? () => handleMergeRows(key, next.key) : undefined}
+                                onRemove={() => handleRemoveClass(key)}
+                              />
+                            )}
+                          </motion.div>
+                        );
+                      })}
+                    </div>
+                  ))}
+
+                  {removedEvents.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        Not in this timetable ({removedEvents.length})
+                      </h4>
+                      <p className="text-xs text-muted-foreground">Select any you want to delete.</p>
+                      {removedEvents.map(event => (
+                        <div
+                          key={event.id}
+                          onClick={() => handleToggleRemoved(event.id)}
+                          className={cn(
+                            'flex cursor-pointer items-center gap-3 rounded-xl p-3 transition-colors',
+                            removedIds.has(event.id)
+                              ? 'bg-destructive/10 border border-destructive/30'
+                              : 'bg-muted/50 border border-transparent'
+                          )}
+                        >
+                          <div className={cn(
+                            'flex h-6 w-6 shrink-0 items-center justify-center rounded-full border-2 transition-colors',
+                            removedIds.has(event.id)
+                              ? 'border-destructive bg-destructive text-destructive-foreground'
+                              : 'border-muted-foreground/30'
+                          )}>
+                            {removedIds.has(event.id) && <X className="h-4 w-4" />}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h4 className="font-medium truncate">{event.title}</h4>
+                            <p className="text-xs text-muted-foreground">
+                              {DAY_NAMES[event.dayOfWeek]} • {event.startTime} - {event.endTime}
+                              {event.location && ` • ${event.location}`}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {rows.some(row => row.selected && !isImportable(row.cls)) && (
+                  <p className="text-xs text-destructive">
+                    Classes without a name, or ending before they start, won't be imported
+                  </p>
+                )}
+
+                <Button variant="outline" size="sm" onClick={handleAddClass} className="w-full">
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add a missing class
+                </Button>
+
                 <div className="flex gap-2 pt-2">
                   <Button variant="outline" onClick={handleClose} className="flex-1">
                     Cancel
                   </Button>
                   <Button
                     onClick={handleImportClasses}
-                    disabled={selectedClasses.size === 0}
+                    disabled={changeCount === 0 || importing}
                     className="flex-1 btn-primary-gradient"
                   >
-                    Import {selectedClasses.size} Class(es)
+                    {importing ? 'Saving...' : `Save ${changeCount} Change(s)`}
                   </Button>
                 </div>
               </motion.div>
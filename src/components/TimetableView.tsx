@@ -4,6 +4,7 @@ import { Calendar, Upload } from 'lucide-react';
 import { useWeeklyEvents } from '@/hooks/useEvents';
 import { EventCard } from '@/components/EventCard';
 import { Header } from '@/components/Header';
+import { QuickAddBar } from '@/components/QuickAddBar';
 import { Button } from '@/components/ui/button';
 import { ClassEvent } from '@/lib/db';
 import { cn } from '@/lib/utils';
@@ -12,27 +13,20 @@ interface TimetableViewProps {
   onEditEvent: (event: ClassEvent) => void;
   onDeleteEvent: (id: string) => void;
   onUploadClick: () => void;
+  onClassesAdded: () => void;
 }
 
 const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const fullDayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-export function TimetableView({ onEditEvent, onDeleteEvent, onUploadClick }: TimetableViewProps) {
-  const { eventsByDay, loading } = useWeeklyEvents();
+export function TimetableView({ onEditEvent, onDeleteEvent, onUploadClick, onClassesAdded }: TimetableViewProps) {
+  const { eventsByDay, weekDates, loading, refresh } = useWeeklyEvents();
   const [selectedDay, setSelectedDay] = useState(new Date().getDay());
 
   const currentDayEvents = eventsByDay[selectedDay] || [];
+  const classCount = currentDayEvents.filter(o => !o.cancelled).length;
 
-  // Get week date range
   const today = new Date();
-  const startOfWeek = new Date(today);
-  startOfWeek.setDate(today.getDate() - today.getDay());
-  
-  const weekDates = Array.from({ length: 7 }, (_, i) => {
-    const date = new Date(startOfWeek);
-    date.setDate(startOfWeek.getDate() + i);
-    return date;
-  });
 
   return (
     <div className="min-h-screen pb-24">
@@ -51,6 +45,7 @@ export function TimetableView({ onEditEvent, onDeleteEvent, onUploadClick }: Tim
           <Upload className="h-4 w-4" />
           Upload Timetable (PDF/Image)
         </Button>
+        <QuickAddBar onAdded={onClassesAdded} />
         {/* Day selector */}
         <div className="mb-6 overflow-x-auto scrollbar-hide">
           <div className="flex gap-2">
@@ -105,7 +100,7 @@ export function TimetableView({ onEditEvent, onDeleteEvent, onUploadClick }: Tim
             {fullDayNames[selectedDay]}
           </h2>
           <span className="text-sm text-muted-foreground">
-            {currentDayEvents.length} {currentDayEvents.length === 1 ? 'class' : 'classes'}
+            {classCount} {classCount === 1 ? 'class' : 'classes'}
           </span>
         </div>
 
@@ -134,18 +129,20 @@ export function TimetableView({ onEditEvent, onDeleteEvent, onUploadClick }: Tim
         ) : (
           <div className="space-y-3">
             <AnimatePresence mode="popLayout">
-              {currentDayEvents.map((event, index) => (
+              {currentDayEvents.map((occurrence, index) => (
                 <motion.div
-                  key={event.id}
+                  key={`${occurrence.event.id}-${occurrence.originalDate}`}
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
                   exit={{ opacity: 0, x: 20 }}
                   transition={{ delay: index * 0.05 }}
                 >
                   <EventCard
-                    event={event}
+                    event={occurrence.event}
+                    occurrence={occurrence}
                     onEdit={onEditEvent}
                     onDelete={onDeleteEvent}
+                    onOccurrenceChange={refresh}
                   />
                 </motion.div>
               ))}
@@ -1,13 +1,20 @@
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Calendar, Clock, Sparkles } from 'lucide-react';
-import { useTodayEvents } from '@/hooks/useEvents';
+import { Calendar, Clock, Sparkles, GraduationCap } from 'lucide-react';
+import { useTodayEvents, useOccurrences } from '@/hooks/useEvents';
+import { useTasks } from '@/hooks/useTasks';
 import { EventCard } from '@/components/EventCard';
 import { Header } from '@/components/Header';
-import { ClassEvent } from '@/lib/db';
+import { TaskForm } from '@/components/TaskForm';
+import { TaskList } from '@/components/TaskList';
+import { QuickAddBar } from '@/components/QuickAddBar';
+import { ClassEvent, Task } from '@/lib/db';
+import { toDateKey } from '@/lib/dates';
 
 interface TodayViewProps {
   onEditEvent: (event: ClassEvent) => void;
   onDeleteEvent: (id: string) => void;
+  onClassesAdded: () => void;
 }
 
 const getGreeting = () => {
@@ -17,6 +24,15 @@ const getGreeting = () => {
   return 'Good evening';
 };
 
+// How far ahead exams and deadlines are listed
+const COMING_UP_DAYS = 14;
+
+const getDateKeyInDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
 const formatDate = () => {
   return new Date().toLocaleDateString('en-US', {
     weekday: 'long',
@@ -25,16 +41,46 @@ const formatDate = () => {
   });
 };
 
-export function TodayView({ onEditEvent, onDeleteEvent }: TodayViewProps) {
-  const { events, loading } = useTodayEvents();
+export function TodayView({ onEditEvent, onDeleteEvent, onClassesAdded }: TodayViewProps) {
+  const { occurrences, loading, refresh } = useTodayEvents();
+  const { occurrences: laterOccurrences } = useOccurrences(
+    getDateKeyInDays(1),
+    getDateKeyInDays(COMING_UP_DAYS)
+  );
+  const comingUp = laterOccurrences.filter(o => (o.event.kind ?? 'class') !== 'class' && !o.cancelled);
+  const { tasks, refresh: refreshTasks } = useTasks();
+  const [taskFormEventId, setTaskFormEventId] = useState<string | undefined>();
+  const [editingTask, setEditingTask] = useState<Task | undefined>();
+  const [isTaskFormOpen, setIsTaskFormOpen] = useState(false);
+
+  const openTaskForm = (eventId?: string, task?: Task) => {
+    setTaskFormEventId(eventId);
+    setEditingTask(task);
+    setIsTaskFormOpen(true);
+  };
+
+  // Open tasks shown under their class's card
+  const renderTasks = (eventId: string) => {
+    const classTasks = tasks.filter(t => t.eventId === eventId && t.status !== 'done');
+    if (classTasks.length === 0) return null;
+    return (
+      <div className="mt-2 pl-3">
+        <TaskList
+          tasks={classTasks}
+          onEdit={(task) => openTaskForm(task.eventId, task)}
+          onChange={refreshTasks}
+        />
+      </div>
+    );
+  };
 
   // Find the next upcoming event
   const now = new Date();
   const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
   
-  const upcomingEvents = events.filter(e => e.startTime >= currentTime);
-  const pastEvents = events.filter(e => e.endTime < currentTime);
-  const currentEvents = events.filter(e => e.startTime <= currentTime && e.endTime >= currentTime);
+  const upcomingEvents = occurrences.filter(o => o.startTime >= currentTime);
+  const pastEvents = occurrences.filter(o => o.endTime < currentTime);
+  const currentEvents = occurrences.filter(o => o.startTime <= currentTime && o.endTime >= currentTime && !o.cancelled);
 
   return (
     <div className="min-h-screen pb-24">
@@ -44,11 +90,13 @@ export function TodayView({ onEditEvent, onDeleteEvent }: TodayViewProps) {
       />
 
       <main className="px-4 py-4">
+        <QuickAddBar onAdded={onClassesAdded} />
+
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
           </div>
-        ) : events.length === 0 ? (
+        ) : occurrences.length === 0 ? (
           <motion.div
             className="mt-8 flex flex-col items-center justify-center text-center"
             initial={{ opacity: 0, y: 20 }}
@@ -76,13 +124,18 @@ export function TodayView({ onEditEvent, onDeleteEvent }: TodayViewProps) {
                   </h2>
                 </div>
                 <AnimatePresence>
-                  {currentEvents.map((event) => (
-                    <EventCard
-                      key={event.id}
-                      event={event}
-                      onEdit={onEditEvent}
-                      onDelete={onDeleteEvent}
-                    />
+                  {currentEvents.map((occurrence) => (
+                    <div key={`${occurrence.event.id}-${occurrence.originalDate}`}>
+                      <EventCard
+                        event={occurrence.event}
+                        occurrence={occurrence}
+                        onEdit={onEditEvent}
+                        onDelete={onDeleteEvent}
+                        onOccurrenceChange={refresh}
+                        onAddTask={(event) => openTaskForm(event.id)}
+                      />
+                      {renderTasks(occurrence.event.id)}
+                    </div>
                   ))}
                 </AnimatePresence>
               </section>
@@ -99,18 +152,22 @@ export function TodayView({ onEditEvent, onDeleteEvent }: TodayViewProps) {
                 </div>
                 <div className="space-y-3">
                   <AnimatePresence>
-                    {upcomingEvents.map((event, index) => (
+                    {upcomingEvents.map((occurrence, index) => (
                       <motion.div
-                        key={event.id}
+                        key={`${occurrence.event.id}-${occurrence.originalDate}`}
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
                         transition={{ delay: index * 0.05 }}
                       >
                         <EventCard
-                          event={event}
+                          event={occurrence.event}
+                          occurrence={occurrence}
                           onEdit={onEditEvent}
                           onDelete={onDeleteEvent}
+                          onOccurrenceChange={refresh}
+                          onAddTask={(event) => openTaskForm(event.id)}
                         />
+                        {renderTasks(occurrence.event.id)}
                       </motion.div>
                     ))}
                   </AnimatePresence>
@@ -129,10 +186,11 @@ export function TodayView({ onEditEvent, onDeleteEvent }: TodayViewProps) {
                 </div>
                 <div className="space-y-3">
                   <AnimatePresence>
-                    {pastEvents.map((event) => (
+                    {pastEvents.map((occurrence) => (
                       <EventCard
-                        key={event.id}
-                        event={event}
+                        key={`${occurrence.event.id}-${occurrence.originalDate}`}
+                        event={occurrence.event}
+                        occurrence={occurrence}
                         onEdit={onEditEvent}
                         isCompact
                       />
@@ -143,7 +201,38 @@ export function TodayView({ onEditEvent, onDeleteEvent }: TodayViewProps) {
             )}
           </div>
         )}
+
+        {/* Exams, deadlines and extra sessions in the next two weeks */}
+        {!loading && comingUp.length > 0 && (
+          <section className="mt-6">
+            <div className="mb-3 flex items-center gap-2">
+              <GraduationCap className="h-4 w-4 text-primary" />
+              <h2 className="text-sm font-semibold uppercase tracking-wide text-primary">
+                Coming Up
+              </h2>
+            </div>
+            <div className="space-y-3">
+              {comingUp.map((occurrence) => (
+                <EventCard
+                  key={`${occurrence.event.id}-${occurrence.originalDate}`}
+                  event={occurrence.event}
+                  onEdit={onEditEvent}
+                  onDelete={onDeleteEvent}
+                  isCompact
+                />
+              ))}
+            </div>
+          </section>
+        )}
       </main>
+
+      <TaskForm
+        isOpen={isTaskFormOpen}
+        task={editingTask}
+        defaultEventId={taskFormEventId}
+        onClose={() => setIsTaskFormOpen(false)}
+        onSave={refreshTasks}
+      />
     </div>
   );
 }
@@ -1,5 +1,7 @@
-import { useState, useEffect } from 'react';
-import { getAllEvents, getEventsByDay, ClassEvent } from '@/lib/db';
+import { useState, useEffect, useCallback } from 'react';
+import { getAllEvents, getEventsByDay, getAllTerms, getAllExceptions, ClassEvent } from '@/lib/db';
+import { occursOnDate, getOccurrences, Occurrence } from '@/lib/schedule';
+import { toDateKey, fromDateKey } from '@/lib/dates';
 
 export function useEvents() {
   const [events, setEvents] = useState<ClassEvent[]>([]);
@@ -26,46 +28,85 @@ export function useEvents() {
   return { events, loading, error, refresh: loadEvents };
 }
 
-export function useEventsByDay(dayOfWeek: number) {
+// Events on a weekday; when a date is given, classes outside their term or in a break are skipped
+export function useEventsByDay(dayOfWeek: number, dateKey?: string) {
   const [events, setEvents] = useState<ClassEvent[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const load = async () => {
       setLoading(true);
-      const dayEvents = await getEventsByDay(dayOfWeek);
+      const [allDayEvents, terms] = await Promise.all([getEventsByDay(dayOfWeek), getAllTerms()]);
+      const dayEvents = dateKey
+        ? allDayEvents.filter(e => occursOnDate(e, fromDateKey(dateKey), terms))
+        : allDayEvents;
       // Sort by start time
       dayEvents.sort((a, b) => a.startTime.localeCompare(b.startTime));
       setEvents(dayEvents);
       setLoading(false);
     };
     load();
-  }, [dayOfWeek]);
+  }, [dayOfWeek, dateKey]);
 
   return { events, loading };
 }
 
+// Occurrences between two dates (inclusive) with terms, recurrence and exceptions applied
+export function useOccurrences(fromDate: string, toDate: string) {
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [events, terms, exceptions] = await Promise.all([
+      getAllEvents(),
+      getAllTerms(),
+      getAllExceptions(),
+    ]);
+    setOccurrences(getOccurrences(events, fromDate, toDate, terms, exceptions));
+    setLoading(false);
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { occurrences, loading, refresh: load };
+}
+
 export function useTodayEvents() {
-  const today = new Date().getDay();
-  return useEventsByDay(today);
+  const today = toDateKey(new Date());
+  return useOccurrences(today, today);
 }
 
-// Get events grouped by day for weekly view
+// Get the current week's dates (Sunday first)
+function getCurrentWeekDates(): Date[] {
+  const today = new Date();
+  const startOfWeek = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay());
+
+  return Array.from({ length: 7 }, (_, i) => {
+    const date = new Date(startOfWeek);
+    date.setDate(startOfWeek.getDate() + i);
+    return date;
+  });
+}
+
+// Get this week's occurrences grouped by day for weekly view
 export function useWeeklyEvents() {
-  const { events, loading, refresh } = useEvents();
-  
-  const eventsByDay = events.reduce((acc, event) => {
-    if (!acc[event.dayOfWeek]) {
-      acc[event.dayOfWeek] = [];
+  const weekDates = getCurrentWeekDates();
+  const { occurrences, loading, refresh } = useOccurrences(
+    toDateKey(weekDates[0]),
+    toDateKey(weekDates[6])
+  );
+
+  const eventsByDay = occurrences.reduce((acc, occurrence) => {
+    const day = fromDateKey(occurrence.date).getDay();
+    if (!acc[day]) {
+      acc[day] = [];
     }
-    acc[event.dayOfWeek].push(event);
+    acc[day].push(occurrence);
     return acc;
-  }, {} as Record<number, ClassEvent[]>);
-
-  // Sort events within each day
-  Object.keys(eventsByDay).forEach(day => {
-    eventsByDay[Number(day)].sort((a, b) => a.startTime.localeCompare(b.startTime));
-  });
+  }, {} as Record<number, Occurrence[]>);
 
-  return { eventsByDay, loading, refresh };
+  return { eventsByDay, weekDates, loading, refresh };
 }
@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getAllTasks, Task } from '@/lib/db';
+import { TASKS_CHANGED_EVENT } from '@/lib/reminders';
+
+// All tasks sorted by due time; refreshes when a task is completed from a notification
+export function useTasks() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTasks = useCallback(async () => {
+    setLoading(true);
+    const all = await getAllTasks();
+    setTasks(all);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTasks();
+    window.addEventListener(TASKS_CHANGED_EVENT, loadTasks);
+    return () => window.removeEventListener(TASKS_CHANGED_EVENT, loadTasks);
+  }, [loadTasks]);
+
+  return { tasks, loading, refresh: loadTasks };
+}
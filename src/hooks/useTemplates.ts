@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { getAllTemplates, TimetableTemplate } from '@/lib/db';
+
+export function useTemplates() {
+  const [templates, setTemplates] = useState<TimetableTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    const all = await getAllTemplates();
+    setTemplates(all);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  return { templates, loading, refresh: loadTemplates };
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { getAllTerms, Term } from '@/lib/db';
+
+export function useTerms() {
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadTerms = async () => {
+    setLoading(true);
+    const all = await getAllTerms();
+    setTerms(all);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadTerms();
+  }, []);
+
+  return { terms, loading, refresh: loadTerms };
+}
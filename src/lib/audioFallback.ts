@@ -149,48 +149,6 @@ export function playMorsePattern(text: string, volume: number = 0.3): Promise<vo
   });
 }
 
-// Generate a more human-friendly reminder message
-export function humanizeReminderText(
-  eventTitle: string,
-  minutesBefore: number,
-  location?: string
-): string {
-  const greetings = [
-    "Hey there! Just a quick heads up",
-    "Hi! Friendly reminder",
-    "Hello! Don't forget",
-    "Quick reminder for you",
-  ];
-  const greeting = greetings[Math.floor(Math.random() * greetings.length)];
-  
-  let timePhrase: string;
-  if (minutesBefore === 1) {
-    timePhrase = "in just 1 minute";
-  } else if (minutesBefore <= 5) {
-    timePhrase = `in about ${minutesBefore} minutes`;
-  } else if (minutesBefore === 10) {
-    timePhrase = "in 10 minutes";
-  } else if (minutesBefore === 15) {
-    timePhrase = "in about 15 minutes";
-  } else if (minutesBefore === 30) {
-    timePhrase = "in half an hour";
-  } else if (minutesBefore === 60) {
-    timePhrase = "in about an hour";
-  } else {
-    timePhrase = `in ${minutesBefore} minutes`;
-  }
-  
-  let message = `${greeting}! ${eventTitle} is starting ${timePhrase}`;
-  
-  if (location) {
-    message += `. Head over to ${location}`;
-  }
-  
-  message += ". You've got this!";
-  
-  return message;
-}
-
 // Speak using fallback audio when TTS unavailable
 export async function speakWithFallback(
   text: string,
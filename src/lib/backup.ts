@@ -0,0 +1,407 @@
+// Versioned JSON backups of everything in classping-db, with per-record
+// validation and a merge/replace plan that can be previewed before restoring.
+
+import { z } from 'zod';
+import {
+  AppSettings,
+  ClassEvent,
+  DataSnapshot,
+  OccurrenceException,
+  Reminder,
+  Task,
+  Term,
+  TimetableTemplate,
+  WeeklySummary,
+  DB_VERSION,
+  exportAllData,
+  getExceptionId,
+  importData,
+} from './db';
+import { templateDraftSchema } from './timetableTemplates';
+import { TIMETABLE_LOCALES, TimetableLanguage } from './timetableLocales';
+
+export const BACKUP_FORMAT = 'classping-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  dbVersion: number;
+  exportedAt: number;
+  data: DataSnapshot;
+}
+
+// Record schemas mirroring the db.ts interfaces; keep them in step when a field is added
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const time = z.string().regex(/^\d{2}:\d{2}$/);
+
+const recurrenceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('weekly') }),
+  z.object({ type: z.literal('biweekly'), anchorDate: dateKey }),
+  z.object({ type: z.literal('weeks'), weeks: z.array(z.number().int().positive()) }),
+  z.object({ type: z.literal('rrule'), rule: z.string(), startDate: dateKey }),
+  z.object({ type: z.literal('once'), date: dateKey }),
+]);
+
+const classEventSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  location: z.string().optional(),
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: time,
+  endTime: time,
+  color: z.string(),
+  reminderMinutes: z.array(z.number().nonnegative()),
+  voiceReminderEnabled: z.boolean(),
+  kind: z.enum(['class', 'exam', 'deadline', 'extra']).optional(),
+  allDay: z.boolean().optional(),
+  recurrence: recurrenceSchema.optional(),
+  termId: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const reminderSchema = z.object({
+  id: z.string().min(1),
+  eventId: z.string().min(1),
+  taskId: z.string().optional(),
+  scheduledTime: z.number(),
+  occurrenceTime: z.number().optional(),
+  occurrenceDate: dateKey.optional(),
+  minutesBefore: z.number().nonnegative(),
+  triggered: z.boolean(),
+  missed: z.boolean(),
+});
+
+const settingsSchema = z.object({
+  id: z.string(),
+  notificationsEnabled: z.boolean(),
+  voiceRemindersEnabled: z.boolean(),
+  defaultReminderMinutes: z.array(z.number().nonnegative()),
+  voiceVolume: z.number().min(0).max(1),
+  voiceRate: z.number().positive(),
+  alarmRetriggerInterval: z.union([z.literal(10), z.literal(15), z.literal(30)]),
+  theme: z.enum(['light', 'dark', 'system']),
+  colorTheme: z.enum(['coral', 'ocean', 'forest', 'violet', 'sunset']),
+  onboardingCompleted: z.boolean(),
+  permissionAskedAt: z.number().nullable(),
+  timetableLanguages: z.array(z.enum(Object.keys(TIMETABLE_LOCALES) as [TimetableLanguage, ...TimetableLanguage[]])).optional(),
+});
+
+const summarySchema = z.object({
+  id: z.string().min(1),
+  weekStart: z.number(),
+  totalEvents: z.number(),
+  missedReminders: z.number(),
+  onTimeReminders: z.number(),
+  generatedAt: z.number(),
+});
+
+const termSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  startDate: dateKey,
+  endDate: dateKey,
+  breaks: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    startDate: dateKey,
+    endDate: dateKey,
+  })),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const exceptionSchema = z.object({
+  id: z.string().min(1),
+  eventId: z.string().min(1),
+  date: dateKey,
+  cancelled: z.boolean(),
+  newDate: dateKey.optional(),
+  newStartTime: time.optional(),
+  newEndTime: time.optional(),
+  newLocation: z.string().optional(),
+  createdAt: z.number(),
+});
+
+const taskSchema = z.object({
+  id: z.string().min(1),
+  eventId: z.string().min(1),
+  title: z.string(),
+  dueDate: dateKey,
+  dueTime: time,
+  status: z.enum(['todo', 'in-progress', 'done']),
+  priority: z.enum(['low', 'medium', 'high']),
+  reminderMinutes: z.array(z.number().nonnegative()),
+  notes: z.string().optional(),
+  completedAt: z.number().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const templateSchema = templateDraftSchema.extend({
+  id: z.string().min(1),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const envelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  dbVersion: z.number().int().positive(),
+  exportedAt: z.number(),
+  data: z.object({
+    events: z.array(z.unknown()).default([]),
+    reminders: z.array(z.unknown()).default([]),
+    settings: z.unknown().nullable().default(null),
+    summaries: z.array(z.unknown()).default([]),
+    terms: z.array(z.unknown()).default([]),
+    exceptions: z.array(z.unknown()).default([]),
+    tasks: z.array(z.unknown()).default([]),
+    templates: z.array(z.unknown()).default([]),
+  }),
+});
+
+export type BackupStore = keyof DataSnapshot;
+
+// A record that failed validation and will be left out of the restore
+export interface InvalidRecord {
+  store: BackupStore;
+  index: number;
+  error: string;
+}
+
+export interface ParsedBackup {
+  backup: BackupFile;
+  invalid: InvalidRecord[];
+}
+
+// Build a backup of the whole database
+export async function createBackup(): Promise<BackupFile> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    dbVersion: DB_VERSION,
+    exportedAt: Date.now(),
+    data: await exportAllData(),
+  };
+}
+
+// File name like classping-backup-2026-10-19.json
+export function getBackupFileName(backup: BackupFile): string {
+  const date = new Date(backup.exportedAt);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${BACKUP_FORMAT}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+}
+
+function validateRecords<T>(
+  store: BackupStore,
+  records: unknown[],
+  schema: z.ZodTypeAny,
+  invalid: InvalidRecord[]
+): T[] {
+  const valid: T[] = [];
+  records.forEach((record, index) => {
+    const result = schema.safeParse(record);
+    if (result.success) {
+      valid.push(result.data as T);
+    } else {
+      const issue = result.error.issues[0];
+      invalid.push({ store, index, error: `${issue.path.join('.') || 'record'}: ${issue.message}` });
+    }
+  });
+  return valid;
+}
+
+// Parse and validate a backup file. Throws if it isn't a backup at all; individual
+// records that fail validation are reported and skipped rather than failing the file.
+export function parseBackup(text: string): ParsedBackup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new Error('This is not a ClassPing backup file');
+  }
+  if (envelope.data.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of ClassPing');
+  }
+
+  const { data } = envelope.data;
+  const invalid: InvalidRecord[] = [];
+  const settings = data.settings === null
+    ? null
+    : validateRecords<AppSettings>('settings', [data.settings], settingsSchema, invalid)[0] ?? null;
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: envelope.data.version,
+      dbVersion: envelope.data.dbVersion,
+      exportedAt: envelope.data.exportedAt,
+      data: {
+        events: validateRecords<ClassEvent>('events', data.events, classEventSchema, invalid),
+        reminders: validateRecords<Reminder>('reminders', data.reminders, reminderSchema, invalid),
+        settings,
+        summaries: validateRecords<WeeklySummary>('summaries', data.summaries, summarySchema, invalid),
+        terms: validateRecords<Term>('terms', data.terms, termSchema, invalid),
+        exceptions: validateRecords<OccurrenceException>('exceptions', data.exceptions, exceptionSchema, invalid),
+        tasks: validateRecords<Task>('tasks', data.tasks, taskSchema, invalid),
+        templates: validateRecords<TimetableTemplate>('templates', data.templates, templateSchema, invalid),
+      },
+    },
+    invalid,
+  };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface StoreChanges {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  snapshot: DataSnapshot; // What gets written
+  changes: Record<BackupStore, StoreChanges>;
+  addedEvents: string[];   // Titles, for the preview
+  updatedEvents: string[];
+  removedEvents: string[];
+}
+
+// JSON with sorted keys so records compare equal regardless of property order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function diffRecords<T extends { id: string }>(current: T[], incoming: T[], removeMissing: boolean): StoreChanges {
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const changes: StoreChanges = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+  for (const record of incoming) {
+    const existing = currentById.get(record.id);
+    if (!existing) changes.added++;
+    else if (stableStringify(existing) === stableStringify(record)) changes.unchanged++;
+    else changes.updated++;
+  }
+  if (removeMissing) {
+    changes.removed = current.filter(r => !incomingIds.has(r.id)).length;
+  }
+
+  return changes;
+}
+
+// Same class as far as merging goes: title, day and start time
+function getEventSignature(event: Pick<ClassEvent, 'title' | 'dayOfWeek' | 'startTime'>): string {
+  return `${event.title.trim().toLowerCase()}|${event.dayOfWeek}|${event.startTime}`;
+}
+
+// Work out what restoring a backup would do, without writing anything.
+// Replace wipes the database first. Merge keeps existing data, updates records with
+// the same ID, and treats events with the same title, day and start time as the same
+// class (pointing the backup's reminders, exceptions and tasks at the existing one).
+export function planRestore(backup: BackupFile, current: DataSnapshot, mode: RestoreMode): RestorePlan {
+  const { data } = backup;
+  const currentById = new Map(current.events.map(e => [e.id, e]));
+
+  if (mode === 'replace') {
+    const backupIds = new Set(data.events.map(e => e.id));
+    return {
+      mode,
+      snapshot: data,
+      changes: {
+        events: diffRecords(current.events, data.events, true),
+        reminders: diffRecords(current.reminders, data.reminders, true),
+        settings: diffRecords(
+          current.settings ? [current.settings] : [],
+          data.settings ? [data.settings] : [],
+          false
+        ),
+        summaries: diffRecords(current.summaries, data.summaries, true),
+        terms: diffRecords(current.terms, data.terms, true),
+        exceptions: diffRecords(current.exceptions, data.exceptions, true),
+        tasks: diffRecords(current.tasks, data.tasks, true),
+        templates: diffRecords(current.templates, data.templates, true),
+      },
+      addedEvents: data.events.filter(e => !currentById.has(e.id)).map(e => e.title),
+      updatedEvents: data.events
+        .filter(e => currentById.has(e.id) && stableStringify(e) !== stableStringify(currentById.get(e.id)))
+        .map(e => e.title),
+      removedEvents: current.events.filter(e => !backupIds.has(e.id)).map(e => e.title),
+    };
+  }
+
+  const currentBySignature = new Map(current.events.map(e => [getEventSignature(e), e]));
+  const eventIdMap = new Map<string, string>();
+
+  const events = data.events.map(event => {
+    const match = currentById.get(event.id) ?? currentBySignature.get(getEventSignature(event));
+    if (match && match.id !== event.id) eventIdMap.set(event.id, match.id);
+    return match ? { ...event, id: match.id, createdAt: match.createdAt } : event;
+  });
+  const remapEventId = (id: string) => eventIdMap.get(id) ?? id;
+
+  // Pending reminders are regenerated after restoring; only history is merged
+  const reminders = data.reminders
+    .filter(r => r.triggered)
+    .map(r => ({ ...r, eventId: remapEventId(r.eventId) }));
+
+  const exceptions = data.exceptions.map(e => {
+    const eventId = remapEventId(e.eventId);
+    return { ...e, eventId, id: getExceptionId(eventId, e.date) };
+  });
+
+  const tasks = data.tasks.map(t => ({ ...t, eventId: remapEventId(t.eventId) }));
+
+  const eventChanges = diffRecords(current.events, events, false);
+  const isNew = (event: ClassEvent) => !currentById.has(event.id);
+
+  return {
+    mode,
+    snapshot: {
+      events,
+      reminders,
+      settings: null, // Merging keeps this device's settings
+      summaries: data.summaries,
+      terms: data.terms,
+      exceptions,
+      tasks,
+      templates: data.templates,
+    },
+    changes: {
+      events: eventChanges,
+      reminders: diffRecords(current.reminders, reminders, false),
+      settings: { added: 0, updated: 0, unchanged: current.settings ? 1 : 0, removed: 0 },
+      summaries: diffRecords(current.summaries, data.summaries, false),
+      terms: diffRecords(current.terms, data.terms, false),
+      exceptions: diffRecords(current.exceptions, exceptions, false),
+      tasks: diffRecords(current.tasks, tasks, false),
+      templates: diffRecords(current.templates, data.templates, false),
+    },
+    addedEvents: events.filter(isNew).map(e => e.title),
+    updatedEvents: events
+      .filter(e => !isNew(e) && stableStringify(e) !== stableStringify(currentById.get(e.id)))
+      .map(e => e.title),
+    removedEvents: [],
+  };
+}
+
+// Write a planned restore
+export async function applyRestore(plan: RestorePlan): Promise<void> {
+  await importData(plan.snapshot, plan.mode === 'replace');
+}
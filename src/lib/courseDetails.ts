@@ -0,0 +1,89 @@
+// Course details that timetables write next to the class name: a course code
+// ("CS101", "MATH 2010"), a session type ("Lecture", "Lab") and an instructor
+// ("Prof. Smith", "Instructor: J. Doe").
+
+export type SessionType = 'lecture' | 'lab' | 'tutorial' | 'seminar';
+
+export const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  tutorial: 'Tutorial',
+  seminar: 'Seminar',
+};
+
+const SESSION_TYPE_WORDS: Record<string, SessionType> = {
+  lecture: 'lecture', lectures: 'lecture', lec: 'lecture', lect: 'lecture',
+  lab: 'lab', labs: 'lab', laboratory: 'lab', practical: 'lab', prac: 'lab',
+  tutorial: 'tutorial', tutorials: 'tutorial', tut: 'tutorial', tute: 'tutorial',
+  seminar: 'seminar', seminars: 'seminar',
+};
+
+// Two to five capital letters and a three or four digit number, e.g. "CS101", "MATH 2010", "COMP-1511A"
+const COURSE_CODE_PATTERN = /\b([A-Z]{2,5})[\s-]?(\d{3,4}[A-Z]?)\b/;
+
+const NAME = String.raw`[A-Z][\w'’-]*\.?`;
+const INSTRUCTOR_PATTERNS = [
+  new RegExp(String.raw`\b(?:instructor|lecturer|teacher|tutor|prof(?:essor)?)\s*[:-]\s*(${NAME}(?:\s+${NAME}){0,2})`, 'i'),
+  new RegExp(String.raw`\b((?:Prof|Dr|Mr|Mrs|Ms)\.?\s+${NAME}(?:\s+${NAME})?)`),
+];
+
+export interface CourseDetails {
+  rest: string; // The text with the details taken out
+  courseCode?: string;
+  sessionType?: SessionType;
+  instructor?: string;
+}
+
+// Punctuation left dangling once a detail has been cut out of the text
+const tidy = (text: string) =>
+  text
+    .replace(/\(\s*\)|\[\s*\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–|,:;/]+|[\s\-–|,:;/]+$/g, '');
+
+// Take the course code, session type and instructor out of a class's text. A
+// template's code pattern replaces the built-in one; its whole match is the code.
+export function extractCourseDetails(text: string, codePattern?: RegExp): CourseDetails {
+  let rest = text;
+  const details: Omit<CourseDetails, 'rest'> = {};
+
+  for (const pattern of INSTRUCTOR_PATTERNS) {
+    const match = rest.match(pattern);
+    if (match) {
+      details.instructor = match[1].trim();
+      rest = rest.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  const code = rest.match(codePattern ?? COURSE_CODE_PATTERN);
+  if (code?.[0].trim()) {
+    details.courseCode = codePattern ? code[0].replace(/\s+/g, '') : `${code[1]}${code[2]}`;
+    rest = rest.replace(code[0], ' ');
+  }
+
+  // The type usually comes last ("Seminar in History (Seminar)")
+  const session = rest.match(/\b[a-z]+\b\.?/gi)?.reverse().find(word => SESSION_TYPE_WORDS[word.replace('.', '').toLowerCase()]);
+  if (session) {
+    details.sessionType = SESSION_TYPE_WORDS[session.replace('.', '').toLowerCase()];
+    const pattern = new RegExp(String.raw`\(?\b${session.replace('.', String.raw`\.`)}(?!\w)\)?`, 'g');
+    const last = [...rest.matchAll(pattern)].pop()!;
+    rest = `${rest.slice(0, last.index)} ${rest.slice(last.index! + last[0].length)}`;
+  }
+
+  return { rest: tidy(rest), ...details };
+}
+
+// Title for the saved event: "CS101 Data Structures (Lab)". Parts the class name
+// already contains aren't repeated.
+export function formatClassTitle(cls: { title: string; courseCode?: string; sessionType?: SessionType }): string {
+  let title = cls.title.trim();
+  const lower = title.toLowerCase();
+  if (cls.courseCode && !lower.includes(cls.courseCode.toLowerCase())) {
+    title = `${cls.courseCode} ${title}`.trim();
+  }
+  if (cls.sessionType && !lower.includes(SESSION_TYPE_LABELS[cls.sessionType].toLowerCase())) {
+    title = title ? `${title} (${SESSION_TYPE_LABELS[cls.sessionType]})` : SESSION_TYPE_LABELS[cls.sessionType];
+  }
+  return title;
+}
@@ -0,0 +1,214 @@
+// CSV import/export for spreadsheets shared by departments. Import maps columns to
+// class fields (auto-detected from common header names) and produces ParsedClass
+// records for the upload review step.
+
+import { ClassEvent, EventKind } from './db';
+import { DAY_MAPPINGS, ParsedClass } from './pdfParser';
+import { parseTimeOrRange } from './timeRange';
+import { fromDateKey } from './dates';
+
+export type CsvField = 'title' | 'day' | 'start' | 'end' | 'location' | 'color' | 'reminders' | 'kind' | 'date';
+
+// Column index for each field; missing fields are left unmapped
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+export const CSV_FIELDS: { field: CsvField; label: string; required: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'day', label: 'Day', required: true },
+  { field: 'start', label: 'Start', required: true },
+  { field: 'end', label: 'End', required: false },
+  { field: 'location', label: 'Location', required: false },
+  { field: 'color', label: 'Color', required: false },
+  { field: 'reminders', label: 'Reminders (min)', required: false },
+  { field: 'kind', label: 'Kind', required: false },
+  { field: 'date', label: 'Date (one-off)', required: false },
+];
+
+// Lowercased header names recognised for each field
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  title: ['title', 'course', 'class', 'subject', 'module', 'name', 'course name', 'course title', 'lecture'],
+  day: ['day', 'days', 'weekday', 'day of week'],
+  start: ['start', 'from', 'begin', 'starts', 'start time', 'time from'],
+  end: ['end', 'to', 'until', 'finish', 'ends', 'end time', 'time to'],
+  location: ['location', 'venue', 'room', 'place', 'building', 'where'],
+  color: ['color', 'colour'],
+  reminders: ['reminders', 'reminder', 'remind', 'reminder minutes', 'alerts'],
+  kind: ['kind', 'type', 'event type'],
+  date: ['date', 'on date'],
+};
+
+const DATED_KINDS: EventKind[] = ['exam', 'deadline', 'extra'];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Pick the delimiter that splits the first line into the most columns
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+}
+
+// Parse CSV text (RFC 4180 quoting) into rows of trimmed cells, dropping blank rows
+export function parseCSV(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte-order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(r => r.some(c => c !== ''));
+}
+
+// Guess the column mapping from a header row
+export function detectMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {};
+  const normalized = headers.map(h => h.toLowerCase().replace(/[_-]/g, ' ').replace(/\s+/g, ' ').trim());
+
+  for (const { field } of CSV_FIELDS) {
+    const index = normalized.findIndex((h, i) =>
+      HEADER_ALIASES[field].includes(h) && !Object.values(mapping).includes(i)
+    );
+    if (index !== -1) mapping[field] = index;
+  }
+
+  return mapping;
+}
+
+// Whether every required field has a column
+export function isMappingComplete(mapping: CsvMapping): boolean {
+  return CSV_FIELDS.every(({ field, required }) => !required || mapping[field] !== undefined);
+}
+
+// Days in a cell like "Mon", "Tuesday", "Mon/Wed" or "Tue, Thu"
+function parseDays(cell: string): number[] {
+  const days = cell
+    .toLowerCase()
+    .split(/[\s,/&+]+|\band\b/)
+    .map(token => DAY_MAPPINGS[token.replace(/\.$/, '')])
+    .filter((day): day is number => day !== undefined);
+  return [...new Set(days)];
+}
+
+// Times read like any other timetable's: "09:00", "9am", "2:30 PM", "9.00", "14h"
+// or "0930". A start cell may hold the whole range ("9-11am").
+function parseCellTime(cell: string): { start: string; end?: string } | null {
+  return parseTimeOrRange(cell.trim());
+}
+
+function addHour(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${Math.min(hours + 1, 23).toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+export interface CsvImportResult {
+  classes: ParsedClass[];
+  skippedRows: number[]; // 1-based data row numbers that couldn't be read
+}
+
+// Convert data rows (without the header) into classes using a mapping.
+// A row listing several days becomes one class per day.
+export function rowsToClasses(rows: string[][], mapping: CsvMapping): CsvImportResult {
+  const classes: ParsedClass[] = [];
+  const skippedRows: number[] = [];
+  const cell = (row: string[], field: CsvField) =>
+    mapping[field] !== undefined ? row[mapping[field]!]?.trim() ?? '' : '';
+
+  rows.forEach((row, index) => {
+    const title = cell(row, 'title');
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(cell(row, 'date')) ? cell(row, 'date') : undefined;
+    const days = date ? [fromDateKey(date).getDay()] : parseDays(cell(row, 'day'));
+    const start = parseCellTime(cell(row, 'start'));
+
+    if (!title || days.length === 0 || !start) {
+      skippedRows.push(index + 1);
+      return;
+    }
+
+    const startTime = start.start;
+    const endTime = parseCellTime(cell(row, 'end'))?.start ?? start.end ?? addHour(startTime);
+    const location = cell(row, 'location') || undefined;
+    const color = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\(.+\))$/i.test(cell(row, 'color')) ? cell(row, 'color') : undefined;
+    const reminderMinutes = cell(row, 'reminders')
+      .split(/[;,\s]+/)
+      .map(Number)
+      .filter(n => Number.isFinite(n) && n > 0);
+    // Exams, deadlines and extra sessions exported with their date come back as one-off events
+    const kind = DATED_KINDS.find(k => k === cell(row, 'kind').toLowerCase());
+    const dated = date
+      ? { date, kind: kind ?? 'extra', allDay: startTime === '00:00' && endTime === '23:59' }
+      : {};
+
+    for (const dayOfWeek of days) {
+      classes.push({
+        title,
+        dayOfWeek,
+        startTime,
+        endTime,
+        location,
+        color,
+        reminderMinutes: reminderMinutes.length > 0 ? reminderMinutes : undefined,
+        ...dated,
+      });
+    }
+  });
+
+  return { classes, skippedRows };
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Export events as CSV that imports back with the default header detection;
+// dated events keep their kind and date
+export function eventsToCSV(events: ClassEvent[]): string {
+  const header = ['Title', 'Day', 'Start', 'End', 'Location', 'Color', 'Reminders', 'Kind', 'Date'];
+  const rows = [...events]
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime))
+    .map(event => [
+      event.title,
+      DAY_NAMES[event.dayOfWeek],
+      event.startTime,
+      event.endTime,
+      event.location ?? '',
+      event.color,
+      event.reminderMinutes.join(';'),
+      event.kind ?? 'class',
+      event.recurrence?.type === 'once' ? event.recurrence.date : '',
+    ]);
+
+  return [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
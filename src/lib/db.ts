@@ -1,4 +1,17 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { TimetableLanguage } from './timetableLocales';
+import { ClockFormat } from './timeRange';
+
+// How a class repeats on its dayOfWeek (missing means every week)
+export type Recurrence =
+  | { type: 'weekly' }
+  | { type: 'biweekly'; anchorDate: string } // YYYY-MM-DD in a week the class meets
+  | { type: 'weeks'; weeks: number[] }       // Week numbers within the class's term, 1-based
+  | { type: 'rrule'; rule: string; startDate: string } // RRULE subset, e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=6
+  | { type: 'once'; date: string };         // Single dated event on YYYY-MM-DD
+
+// What an event is; anything but 'class' is normally a one-off
+export type EventKind = 'class' | 'exam' | 'deadline' | 'extra';
 
 // Event types
 export interface ClassEvent {
@@ -11,6 +24,60 @@ export interface ClassEvent {
   color: string;
   reminderMinutes: number[]; // e.g., [10, 30] for 10 and 30 min before
   voiceReminderEnabled: boolean;
+  kind?: EventKind;  // Missing means 'class'
+  allDay?: boolean;  // Dated events without a time; reminders anchor to ALL_DAY_REMINDER_TIME
+  recurrence?: Recurrence;
+  termId?: string; // Term this class belongs to; no term means it runs every week
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Date range inside a term with no classes (breaks, reading week, public holidays)
+export interface TermBreak {
+  id: string;
+  label: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface Term {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;   // YYYY-MM-DD, inclusive
+  breaks: TermBreak[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One-off change to a single class occurrence, keyed by the date it was originally on
+export interface OccurrenceException {
+  id: string;
+  eventId: string;
+  date: string; // YYYY-MM-DD of the original occurrence
+  cancelled: boolean;
+  newDate?: string;      // YYYY-MM-DD when moved to another day
+  newStartTime?: string; // HH:mm
+  newEndTime?: string;   // HH:mm
+  newLocation?: string;  // Room change for this occurrence only
+  createdAt: number;
+}
+
+export type TaskStatus = 'todo' | 'in-progress' | 'done';
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+// Assignment or homework attached to a class
+export interface Task {
+  id: string;
+  eventId: string;   // Class the task belongs to
+  title: string;
+  dueDate: string;   // YYYY-MM-DD
+  dueTime: string;   // HH:mm
+  status: TaskStatus;
+  priority: TaskPriority;
+  reminderMinutes: number[]; // Offsets before the due time
+  notes?: string;
+  completedAt?: number;
   createdAt: number;
   updatedAt: number;
 }
@@ -18,7 +85,10 @@ export interface ClassEvent {
 export interface Reminder {
   id: string;
   eventId: string;
+  taskId?: string; // Set for task due reminders; eventId is then the task's class
   scheduledTime: number; // Unix timestamp
+  occurrenceTime?: number; // Start of the class occurrence this reminder is for
+  occurrenceDate?: string; // Original YYYY-MM-DD of that occurrence (matches OccurrenceException.date)
   minutesBefore: number;
   triggered: boolean;
   missed: boolean;
@@ -36,6 +106,23 @@ export interface AppSettings {
   colorTheme: 'coral' | 'ocean' | 'forest' | 'violet' | 'sunset';
    onboardingCompleted: boolean;
    permissionAskedAt: number | null;
+  timetableLanguages?: TimetableLanguage[]; // Languages timetables are read in; missing means English
+}
+
+// How one institution lays out its timetables, saved after correcting an import
+// and used to read the next one (see timetableTemplates.ts). Patterns are
+// regular expression sources.
+export interface TimetableTemplate {
+  id: string;
+  name: string;
+  fingerprint: string[];      // Words from the header of the document it was made from
+  dayColumn?: number;         // Column (0-based) holding the day in tabular text; missing means anywhere in the line
+  timeFormat: ClockFormat;    // How times without am/pm are read
+  roomPattern?: string;       // Missing means "Room 101", "Hall B" and the like
+  courseCodePattern?: string; // Missing means "CS101", "MATH 2010" and the like
+  ignorePatterns: string[];   // Lines to skip, like page footers or legends
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface WeeklySummary {
@@ -48,7 +135,7 @@ export interface WeeklySummary {
 }
 
 // Database schema
-interface ClassPingDB extends DBSchema {
+export interface ClassPingDB extends DBSchema {
   events: {
     key: string;
     value: ClassEvent;
@@ -56,11 +143,11 @@ interface ClassPingDB extends DBSchema {
   };
   reminders: {
     key: string;
-    value: Reminder;
+    value: StoredReminder;
     indexes: { 
       'by-event': string;
       'by-scheduled': number;
-      'by-triggered': string; // compound: triggered + scheduledTime
+      'by-triggered': [number, number]; // compound: triggeredKey + scheduledTime
     };
   };
   settings: {
@@ -72,47 +159,168 @@ interface ClassPingDB extends DBSchema {
     value: WeeklySummary;
     indexes: { 'by-week': number };
   };
+  terms: {
+    key: string;
+    value: Term;
+  };
+  exceptions: {
+    key: string;
+    value: OccurrenceException;
+    indexes: { 'by-event': string };
+  };
+  tasks: {
+    key: string;
+    value: Task;
+    indexes: { 'by-event': string };
+  };
+  templates: {
+    key: string;
+    value: TimetableTemplate;
+  };
 }
 
-const DB_NAME = 'classping-db';
-const DB_VERSION = 1;
+// IndexedDB can't index booleans, so reminders also store `triggered` as 0/1 for the by-triggered index
+type StoredReminder = Reminder & { triggeredKey: 0 | 1 };
 
-let dbInstance: IDBPDatabase<ClassPingDB> | null = null;
+function toStoredReminder(reminder: Reminder): StoredReminder {
+  return { ...reminder, triggeredKey: reminder.triggered ? 1 : 0 };
+}
 
-export async function getDB(): Promise<IDBPDatabase<ClassPingDB>> {
-  if (dbInstance) return dbInstance;
+type UpgradeTransaction = IDBPTransaction<ClassPingDB, StoreNames<ClassPingDB>[], 'versionchange'>;
 
-  dbInstance = await openDB<ClassPingDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // Events store
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBPDatabase<ClassPingDB>, tx: UpgradeTransaction) => void | Promise<void>;
+}
+
+// Schema migrations, applied in order to take a database from any older version to
+// DB_VERSION. Never edit a released migration; append a new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Events, reminders, settings and weekly summaries',
+    migrate(db) {
       if (!db.objectStoreNames.contains('events')) {
         const eventStore = db.createObjectStore('events', { keyPath: 'id' });
         eventStore.createIndex('by-day', 'dayOfWeek');
       }
-
-      // Reminders store
       if (!db.objectStoreNames.contains('reminders')) {
         const reminderStore = db.createObjectStore('reminders', { keyPath: 'id' });
         reminderStore.createIndex('by-event', 'eventId');
         reminderStore.createIndex('by-scheduled', 'scheduledTime');
       }
-
-      // Settings store
       if (!db.objectStoreNames.contains('settings')) {
         db.createObjectStore('settings', { keyPath: 'id' });
       }
-
-      // Summaries store
       if (!db.objectStoreNames.contains('summaries')) {
         const summaryStore = db.createObjectStore('summaries', { keyPath: 'id' });
         summaryStore.createIndex('by-week', 'weekStart');
       }
     },
+  },
+  {
+    version: 2,
+    description: 'Terms',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('terms')) {
+        db.createObjectStore('terms', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Per-occurrence exceptions',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('exceptions')) {
+        const exceptionStore = db.createObjectStore('exceptions', { keyPath: 'id' });
+        exceptionStore.createIndex('by-event', 'eventId');
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Tasks',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('tasks')) {
+        const taskStore = db.createObjectStore('tasks', { keyPath: 'id' });
+        taskStore.createIndex('by-event', 'eventId');
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'by-triggered reminder index and backfilled event, reminder and settings fields',
+    async migrate(_db, tx) {
+      const reminderStore = tx.objectStore('reminders');
+      if (!reminderStore.indexNames.contains('by-triggered')) {
+        reminderStore.createIndex('by-triggered', ['triggeredKey', 'scheduledTime']);
+      }
+
+      for (const reminder of await reminderStore.getAll()) {
+        await reminderStore.put(toStoredReminder({ ...reminder, missed: reminder.missed ?? false }));
+      }
+
+      const eventStore = tx.objectStore('events');
+      for (const event of await eventStore.getAll()) {
+        await eventStore.put({
+          ...event,
+          kind: event.kind ?? 'class',
+          reminderMinutes: event.reminderMinutes ?? [],
+          voiceReminderEnabled: event.voiceReminderEnabled ?? true,
+        });
+      }
+
+      const settingsStore = tx.objectStore('settings');
+      const settings = await settingsStore.get(SETTINGS_ID);
+      if (settings) {
+        await settingsStore.put({ ...DEFAULT_SETTINGS, ...settings });
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Timetable templates',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('templates')) {
+        db.createObjectStore('templates', { keyPath: 'id' });
+      }
+    },
+  },
+];
+
+const DB_NAME = 'classping-db';
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let dbInstance: IDBPDatabase<ClassPingDB> | null = null;
+
+export async function getDB(): Promise<IDBPDatabase<ClassPingDB>> {
+  if (dbInstance) return dbInstance;
+
+  dbInstance = await openDB<ClassPingDB>(DB_NAME, DB_VERSION, {
+    // Only IndexedDB requests may be awaited here, or the upgrade transaction commits early
+    async upgrade(db, oldVersion, _newVersion, tx) {
+      for (const migration of MIGRATIONS) {
+        if (migration.version > oldVersion) {
+          await migration.migrate(db, tx);
+        }
+      }
+    },
+    // Let a newer version open in another tab or the service worker
+    blocking() {
+      closeDB();
+    },
   });
 
   return dbInstance;
 }
 
+// Close the connection so the next getDB() reopens it (tests, or another tab upgrading)
+export function closeDB(): void {
+  dbInstance?.close();
+  dbInstance = null;
+}
+
 // Generate unique ID
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -159,6 +367,18 @@ export async function deleteEvent(id: string): Promise<boolean> {
   for (const reminder of reminders) {
     await db.delete('reminders', reminder.id);
   }
+
+  // And any per-occurrence exceptions
+  const exceptions = await db.getAllFromIndex('exceptions', 'by-event', id);
+  for (const exception of exceptions) {
+    await db.delete('exceptions', exception.id);
+  }
+
+  // And the class's tasks (their reminders share the event ID and are already gone)
+  const tasks = await db.getAllFromIndex('tasks', 'by-event', id);
+  for (const task of tasks) {
+    await db.delete('tasks', task.id);
+  }
   
   return true;
 }
@@ -178,6 +398,214 @@ export async function getEventsByDay(dayOfWeek: number): Promise<ClassEvent[]> {
   return db.getAllFromIndex('events', 'by-day', dayOfWeek);
 }
 
+// Term operations
+export async function addTerm(term: Omit<Term, 'id' | 'createdAt' | 'updatedAt'>): Promise<Term> {
+  const db = await getDB();
+  const now = Date.now();
+  const newTerm: Term = {
+    ...term,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.put('terms', newTerm);
+  return newTerm;
+}
+
+export async function updateTerm(id: string, updates: Partial<Term>): Promise<Term | null> {
+  const db = await getDB();
+  const existing = await db.get('terms', id);
+  if (!existing) return null;
+
+  const updated: Term = {
+    ...existing,
+    ...updates,
+    id,
+    updatedAt: Date.now(),
+  };
+  await db.put('terms', updated);
+  return updated;
+}
+
+export async function deleteTerm(id: string): Promise<boolean> {
+  const db = await getDB();
+  const existing = await db.get('terms', id);
+  if (!existing) return false;
+
+  await db.delete('terms', id);
+
+  // Classes in the deleted term go back to running every week
+  const events = await db.getAll('events');
+  for (const event of events) {
+    if (event.termId === id) {
+      await db.put('events', { ...event, termId: undefined, updatedAt: Date.now() });
+    }
+  }
+
+  return true;
+}
+
+export async function getTerm(id: string): Promise<Term | undefined> {
+  const db = await getDB();
+  return db.get('terms', id);
+}
+
+export async function getAllTerms(): Promise<Term[]> {
+  const db = await getDB();
+  const terms = await db.getAll('terms');
+  return terms.sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// Timetable template operations
+export async function addTemplate(
+  template: Omit<TimetableTemplate, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<TimetableTemplate> {
+  const db = await getDB();
+  const now = Date.now();
+  const newTemplate: TimetableTemplate = {
+    ...template,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.put('templates', newTemplate);
+  return newTemplate;
+}
+
+export async function updateTemplate(
+  id: string,
+  updates: Partial<TimetableTemplate>
+): Promise<TimetableTemplate | null> {
+  const db = await getDB();
+  const existing = await db.get('templates', id);
+  if (!existing) return null;
+
+  const updated: TimetableTemplate = {
+    ...existing,
+    ...updates,
+    id,
+    updatedAt: Date.now(),
+  };
+  await db.put('templates', updated);
+  return updated;
+}
+
+export async function deleteTemplate(id: string): Promise<boolean> {
+  const db = await getDB();
+  const existing = await db.get('templates', id);
+  if (!existing) return false;
+
+  await db.delete('templates', id);
+  return true;
+}
+
+export async function getAllTemplates(): Promise<TimetableTemplate[]> {
+  const db = await getDB();
+  const templates = await db.getAll('templates');
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Occurrence exception operations (one per event + original date)
+export function getExceptionId(eventId: string, date: string): string {
+  return `${eventId}@${date}`;
+}
+
+export async function saveException(
+  exception: Omit<OccurrenceException, 'id' | 'createdAt'>
+): Promise<OccurrenceException> {
+  const db = await getDB();
+  const newException: OccurrenceException = {
+    ...exception,
+    id: getExceptionId(exception.eventId, exception.date),
+    createdAt: Date.now(),
+  };
+  await db.put('exceptions', newException);
+  return newException;
+}
+
+export async function deleteException(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('exceptions', id);
+}
+
+export async function getException(eventId: string, date: string): Promise<OccurrenceException | undefined> {
+  const db = await getDB();
+  return db.get('exceptions', getExceptionId(eventId, date));
+}
+
+export async function getExceptionsByEvent(eventId: string): Promise<OccurrenceException[]> {
+  const db = await getDB();
+  return db.getAllFromIndex('exceptions', 'by-event', eventId);
+}
+
+export async function getAllExceptions(): Promise<OccurrenceException[]> {
+  const db = await getDB();
+  return db.getAll('exceptions');
+}
+
+// Task operations
+export async function addTask(task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Promise<Task> {
+  const db = await getDB();
+  const now = Date.now();
+  const newTask: Task = {
+    ...task,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.put('tasks', newTask);
+  return newTask;
+}
+
+export async function updateTask(id: string, updates: Partial<Task>): Promise<Task | null> {
+  const db = await getDB();
+  const existing = await db.get('tasks', id);
+  if (!existing) return null;
+
+  const updated: Task = {
+    ...existing,
+    ...updates,
+    id,
+    updatedAt: Date.now(),
+  };
+  await db.put('tasks', updated);
+  return updated;
+}
+
+export async function deleteTask(id: string): Promise<boolean> {
+  const db = await getDB();
+  const existing = await db.get('tasks', id);
+  if (!existing) return false;
+
+  await db.delete('tasks', id);
+
+  // Also delete the task's reminders
+  const reminders = await db.getAllFromIndex('reminders', 'by-event', existing.eventId);
+  for (const reminder of reminders) {
+    if (reminder.taskId === id) {
+      await db.delete('reminders', reminder.id);
+    }
+  }
+
+  return true;
+}
+
+export async function getTask(id: string): Promise<Task | undefined> {
+  const db = await getDB();
+  return db.get('tasks', id);
+}
+
+export async function getTasksByEvent(eventId: string): Promise<Task[]> {
+  const db = await getDB();
+  return db.getAllFromIndex('tasks', 'by-event', eventId);
+}
+
+export async function getAllTasks(): Promise<Task[]> {
+  const db = await getDB();
+  const tasks = await db.getAll('tasks');
+  return tasks.sort((a, b) => `${a.dueDate} ${a.dueTime}`.localeCompare(`${b.dueDate} ${b.dueTime}`));
+}
+
 // Reminder operations
 export async function addReminder(reminder: Omit<Reminder, 'id'>): Promise<Reminder> {
   const db = await getDB();
@@ -185,10 +613,17 @@ export async function addReminder(reminder: Omit<Reminder, 'id'>): Promise<Remin
     ...reminder,
     id: generateId(),
   };
-  await db.put('reminders', newReminder);
+  await db.put('reminders', toStoredReminder(newReminder));
   return newReminder;
 }
 
+// Insert or replace a reminder keeping its existing ID
+export async function saveReminder(reminder: Reminder): Promise<Reminder> {
+  const db = await getDB();
+  await db.put('reminders', toStoredReminder(reminder));
+  return reminder;
+}
+
 export async function updateReminder(id: string, updates: Partial<Reminder>): Promise<Reminder | null> {
   const db = await getDB();
   const existing = await db.get('reminders', id);
@@ -199,30 +634,41 @@ export async function updateReminder(id: string, updates: Partial<Reminder>): Pr
     ...updates,
     id,
   };
-  await db.put('reminders', updated);
+  await db.put('reminders', toStoredReminder(updated));
   return updated;
 }
 
 export async function getUpcomingReminders(fromTime: number, toTime: number): Promise<Reminder[]> {
   const db = await getDB();
-  const allReminders = await db.getAllFromIndex('reminders', 'by-scheduled');
-  return allReminders.filter(
-    r => !r.triggered && r.scheduledTime >= fromTime && r.scheduledTime <= toTime
-  );
+  return db.getAllFromIndex('reminders', 'by-triggered', IDBKeyRange.bound([0, fromTime], [0, toTime]));
 }
 
 export async function getUntriggeredReminders(): Promise<Reminder[]> {
   const db = await getDB();
-  const allReminders = await db.getAll('reminders');
-  return allReminders.filter(r => !r.triggered);
+  return db.getAllFromIndex('reminders', 'by-triggered', IDBKeyRange.bound([0, -Infinity], [0, Infinity]));
 }
 
 export async function markReminderTriggered(id: string, missed: boolean = false): Promise<void> {
   const db = await getDB();
   const reminder = await db.get('reminders', id);
   if (reminder) {
-    await db.put('reminders', { ...reminder, triggered: true, missed });
+    await db.put('reminders', toStoredReminder({ ...reminder, triggered: true, missed }));
+  }
+}
+
+// Atomically mark a reminder as triggered; returns false if another context
+// (the app or the service worker) already claimed it
+export async function claimReminder(id: string, missed: boolean = false): Promise<boolean> {
+  const db = await getDB();
+  const tx = db.transaction('reminders', 'readwrite');
+  const reminder = await tx.store.get(id);
+  if (!reminder || reminder.triggered) {
+    await tx.done;
+    return false;
   }
+  await tx.store.put(toStoredReminder({ ...reminder, triggered: true, missed }));
+  await tx.done;
+  return true;
 }
 
 export async function getRemindersByEvent(eventId: string): Promise<Reminder[]> {
@@ -230,6 +676,11 @@ export async function getRemindersByEvent(eventId: string): Promise<Reminder[]>
   return db.getAllFromIndex('reminders', 'by-event', eventId);
 }
 
+export async function deleteReminder(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('reminders', id);
+}
+
 export async function deleteRemindersByEvent(eventId: string): Promise<void> {
   const db = await getDB();
   const reminders = await db.getAllFromIndex('reminders', 'by-event', eventId);
@@ -239,8 +690,10 @@ export async function deleteRemindersByEvent(eventId: string): Promise<void> {
 }
 
 // Settings operations
+const SETTINGS_ID = 'app-settings';
+
 const DEFAULT_SETTINGS: AppSettings = {
-  id: 'app-settings',
+  id: SETTINGS_ID,
   notificationsEnabled: true,
   voiceRemindersEnabled: true,
   defaultReminderMinutes: [10, 30],
@@ -255,7 +708,7 @@ const DEFAULT_SETTINGS: AppSettings = {
 
 export async function getSettings(): Promise<AppSettings> {
   const db = await getDB();
-  const settings = await db.get('settings', 'app-settings');
+  const settings = await db.get('settings', SETTINGS_ID);
   return settings || DEFAULT_SETTINGS;
 }
 
@@ -265,7 +718,7 @@ export async function updateSettings(updates: Partial<AppSettings>): Promise<App
   const updated: AppSettings = {
     ...current,
     ...updates,
-    id: 'app-settings',
+    id: SETTINGS_ID,
   };
   await db.put('settings', updated);
   return updated;
@@ -290,10 +743,84 @@ export async function getLatestSummary(): Promise<WeeklySummary | undefined> {
   return all.sort((a, b) => b.generatedAt - a.generatedAt)[0];
 }
 
+// Everything a backup holds, one array per store
+export interface DataSnapshot {
+  events: ClassEvent[];
+  reminders: Reminder[];
+  settings: AppSettings | null;
+  summaries: WeeklySummary[];
+  terms: Term[];
+  exceptions: OccurrenceException[];
+  tasks: Task[];
+  templates: TimetableTemplate[];
+}
+
+export async function exportAllData(): Promise<DataSnapshot> {
+  const db = await getDB();
+  const [events, reminders, settings, summaries, terms, exceptions, tasks, templates] = await Promise.all([
+    db.getAll('events'),
+    db.getAll('reminders'),
+    db.get('settings', SETTINGS_ID),
+    db.getAll('summaries'),
+    db.getAll('terms'),
+    db.getAll('exceptions'),
+    db.getAll('tasks'),
+    db.getAll('templates'),
+  ]);
+  const plainReminders = reminders.map(({ triggeredKey: _key, ...reminder }) => reminder);
+  return {
+    events,
+    reminders: plainReminders,
+    settings: settings ?? null,
+    summaries,
+    terms,
+    exceptions,
+    tasks,
+    templates,
+  };
+}
+
+// Write a snapshot in a single transaction; with clear, existing records are removed first
+export async function importData(snapshot: DataSnapshot, clear: boolean): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(
+    ['events', 'reminders', 'settings', 'summaries', 'terms', 'exceptions', 'tasks', 'templates'],
+    'readwrite'
+  );
+
+  if (clear) {
+    await Promise.all([
+      tx.objectStore('events').clear(),
+      tx.objectStore('reminders').clear(),
+      tx.objectStore('summaries').clear(),
+      tx.objectStore('terms').clear(),
+      tx.objectStore('exceptions').clear(),
+      tx.objectStore('tasks').clear(),
+      tx.objectStore('templates').clear(),
+    ]);
+  }
+
+  await Promise.all([
+    ...snapshot.events.map(e => tx.objectStore('events').put(e)),
+    ...snapshot.reminders.map(r => tx.objectStore('reminders').put(toStoredReminder(r))),
+    ...snapshot.summaries.map(s => tx.objectStore('summaries').put(s)),
+    ...snapshot.terms.map(t => tx.objectStore('terms').put(t)),
+    ...snapshot.exceptions.map(e => tx.objectStore('exceptions').put(e)),
+    ...snapshot.tasks.map(t => tx.objectStore('tasks').put(t)),
+    ...snapshot.templates.map(t => tx.objectStore('templates').put(t)),
+    ...(snapshot.settings ? [tx.objectStore('settings').put({ ...snapshot.settings, id: SETTINGS_ID })] : []),
+  ]);
+  await tx.done;
+}
+
 // Utility: Clear all data (for testing/reset)
 export async function clearAllData(): Promise<void> {
   const db = await getDB();
   await db.clear('events');
   await db.clear('reminders');
   await db.clear('summaries');
+  await db.clear('terms');
+  await db.clear('exceptions');
+  await db.clear('tasks');
+  await db.clear('templates');
 }
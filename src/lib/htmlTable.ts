@@ -0,0 +1,212 @@
+// Timetables copied from student portals as tables: the clipboard's <table>
+// markup, or the tab-separated text spreadsheets and browsers also put there.
+// Cells are laid out on a grid with rowspan and colspan expanded, then read with
+// day headers along one edge and time labels along the other, like
+// timetableGrid.ts does for positioned text.
+
+import { GridCell, GridVocabulary } from './timetableGrid';
+
+export interface TableCell {
+  lines: string[]; // Text, top to bottom
+  row: number;     // Top-left position in the table
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+// Every position holds the cell covering it, so a merged cell appears several times
+export type Table = (TableCell | null)[][];
+
+// Elements that start a new line inside a cell
+const LINE_BREAKS = new Set(['BR', 'P', 'DIV', 'LI', 'TR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+function cellLines(element: Element): string[] {
+  const lines = [''];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      lines[lines.length - 1] += node.textContent;
+      return;
+    }
+    const breaks = node.nodeType === Node.ELEMENT_NODE && LINE_BREAKS.has((node as Element).tagName);
+    if (breaks) lines.push('');
+    node.childNodes.forEach(walk);
+    if (breaks) lines.push('');
+  };
+  element.childNodes.forEach(walk);
+  return lines.map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+// Rows of possibly ragged cells as a rectangular table
+const pad = (rows: (TableCell | null)[][]): Table => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return rows.map(row => Array.from({ length: width }, (_, c) => row[c] ?? null));
+};
+
+function layoutTable(table: HTMLTableElement): Table {
+  const rowCount = table.rows.length;
+  const rows: (TableCell | null)[][] = Array.from({ length: rowCount }, () => []);
+
+  Array.from(table.rows).forEach((tr, r) => {
+    let c = 0;
+    for (const td of Array.from(tr.cells)) {
+      // Skip positions taken by cells spanning down from the rows above
+      while (rows[r][c]) c++;
+      const cell: TableCell = {
+        lines: cellLines(td),
+        row: r,
+        col: c,
+        rowSpan: Math.min(Math.max(1, td.rowSpan), rowCount - r),
+        colSpan: Math.max(1, td.colSpan),
+      };
+      for (let dr = 0; dr < cell.rowSpan; dr++) {
+        for (let dc = 0; dc < cell.colSpan; dc++) rows[r + dr][c + dc] = cell;
+      }
+      c += cell.colSpan;
+    }
+  });
+
+  return pad(rows);
+}
+
+// The tables in a piece of HTML. Tables that only hold other tables are page
+// layout, so just the innermost ones are kept.
+export function readHtmlTables(html: string): Table[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('table'))
+    .filter(table => !table.querySelector('table'))
+    .map(layoutTable)
+    .filter(table => table.length > 0);
+}
+
+// Tab-separated text as a table, or null when most lines aren't split into columns
+export function readTextTable(text: string): Table | null {
+  const lines = text.split('\n').filter(line => line.trim());
+  if (lines.length < 2 || lines.filter(line => line.includes('\t')).length < lines.length / 2) return null;
+
+  return pad(lines.map((line, r) =>
+    line.split('\t').map((value, c) => ({
+      lines: value.trim() ? [value.trim()] : [],
+      row: r,
+      col: c,
+      rowSpan: 1,
+      colSpan: 1,
+    }))
+  ));
+}
+
+// One tab-separated line per row, for the line-by-line parser. A cell spanning
+// several rows is repeated on each, so "Monday" down the side applies to all of them.
+export function tableToText(table: Table): string {
+  return table
+    .map(row => row.flatMap((cell, c) => (!cell ? [''] : cell.col === c ? [cell.lines.join(' ')] : [])).join('\t'))
+    .join('\n');
+}
+
+function transpose(table: Table): Table {
+  const flipped = new Map<TableCell, TableCell>();
+  const flip = (cell: TableCell | null) => {
+    if (!cell) return null;
+    if (!flipped.has(cell)) {
+      flipped.set(cell, { lines: cell.lines, row: cell.col, col: cell.row, rowSpan: cell.colSpan, colSpan: cell.rowSpan });
+    }
+    return flipped.get(cell)!;
+  };
+  return (table[0] ?? []).map((_, c) => table.map(row => flip(row[c])));
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number) => {
+  const clamped = Math.min(total, 23 * 60 + 59);
+  return `${Math.floor(clamped / 60).toString().padStart(2, '0')}:${(clamped % 60).toString().padStart(2, '0')}`;
+};
+
+const cellText = (cell: TableCell | null) => cell?.lines.join(' ') ?? '';
+
+// Read one orientation: days across a header row, time labels down a column
+// before the first day
+function readTable(table: Table, vocab: GridVocabulary): GridCell[] | null {
+  // Header row: the first that names at least two different days
+  let headerRow = -1;
+  const dayOfColumn = new Map<number, number>();
+  for (let r = 0; r < table.length && headerRow === -1; r++) {
+    const days = new Map<number, number>();
+    table[r].forEach((cell, c) => {
+      const day = cell ? vocab.parseDay(cellText(cell)) : null;
+      if (day !== null) days.set(c, day);
+    });
+    if (new Set(days.values()).size >= 2) {
+      headerRow = r;
+      days.forEach((day, c) => dayOfColumn.set(c, day));
+    }
+  }
+  if (headerRow === -1) return null;
+  const firstDayColumn = Math.min(...dayOfColumn.keys());
+
+  // Time labels: the column before the days with the most of them
+  const labelsIn = (c: number) => {
+    const labels = new Map<number, { start: string; end?: string; rowSpan: number }>();
+    for (let r = headerRow + 1; r < table.length; r++) {
+      const cell = table[r][c];
+      const time = cell && cell.row === r ? vocab.parseTimeLabel(cellText(cell)) : null;
+      if (time) labels.set(r, { ...time, rowSpan: cell!.rowSpan });
+    }
+    return labels;
+  };
+  const labels = Array.from({ length: firstDayColumn }, (_, c) => labelsIn(c))
+    .sort((a, b) => b.size - a.size)[0];
+  if (!labels || labels.size < 2) return null;
+
+  const labelled = [...labels.entries()];
+  for (let i = 1; i < labelled.length; i++) {
+    if (toMinutes(labelled[i][1].start) <= toMinutes(labelled[i - 1][1].start)) return null;
+  }
+
+  // Each label's time is shared evenly by its row and the unlabelled rows under it
+  // (half-hour rows under an hourly label). Below the last label, only the rows it
+  // spans are part of the grid.
+  const rowTimes = new Map<number, { start: number; end: number }>();
+  labelled.forEach(([row, time], i) => {
+    const next = labelled[i + 1];
+    const start = toMinutes(time.start);
+    const previousLength = i > 0 ? start - toMinutes(labelled[i - 1][1].start) : 60;
+    const end = time.end ? toMinutes(time.end) : next ? toMinutes(next[1].start) : start + previousLength;
+    const lastRow = next ? next[0] - 1 : row + time.rowSpan - 1;
+    const rows = lastRow - row + 1;
+    for (let k = 0; k < rows; k++) {
+      rowTimes.set(row + k, {
+        start: start + Math.round(((end - start) * k) / rows),
+        end: start + Math.round(((end - start) * (k + 1)) / rows),
+      });
+    }
+  });
+
+  const cells: GridCell[] = [];
+  for (let r = headerRow + 1; r < table.length; r++) {
+    table[r].forEach((cell, c) => {
+      if (!cell || cell.row !== r || cell.col !== c || cell.lines.length === 0) return;
+      const day = dayOfColumn.get(c);
+      const times = rowTimes.get(r);
+      if (day === undefined || !times) return;
+      // Banners like "LUNCH" run across several days
+      const spannedDays = new Set(Array.from({ length: cell.colSpan }, (_, k) => dayOfColumn.get(c + k) ?? day));
+      if (spannedDays.size > 1) return;
+      const last = rowTimes.get(r + cell.rowSpan - 1) ?? times;
+      cells.push({
+        dayOfWeek: day,
+        startTime: fromMinutes(times.start),
+        endTime: fromMinutes(last.end),
+        lines: cell.lines.map(text => ({ text })),
+      });
+    });
+  }
+  return cells;
+}
+
+// Day × time cells of a grid timetable, or null when the table isn't one
+export function extractTableCells(table: Table, vocab: GridVocabulary): GridCell[] | null {
+  return readTable(table, vocab) ?? readTable(transpose(table), vocab);
+}
@@ -0,0 +1,284 @@
+// iCalendar (RFC 5545) export so the timetable can be subscribed to or imported
+// into other calendar apps. Times are written as floating local times, which is
+// how ClassPing itself stores them.
+
+import { ClassEvent, OccurrenceException, Term } from './db';
+import { toDateKey, fromDateKey } from './dates';
+import { getEventTerm, occursOnDate } from './schedule';
+import { matchesRecurrence, parseRRule, RRULE_DAYS } from './recurrence';
+import { ALL_DAY_REMINDER_TIME } from './reminderEngine';
+
+const PRODID = '-//ClassPing//Timetable//EN';
+
+// Escape TEXT values (commas, semicolons, backslashes and newlines)
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold lines longer than 75 octets, continuing with a leading space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 2026-10-19 + 09:00 -> 20261019T090000
+function formatDateTime(dateKey: string, time: string): string {
+  return `${dateKey.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+function formatDate(dateKey: string): string {
+  return dateKey.replace(/-/g, '');
+}
+
+function formatUtcStamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ISO 8601 duration for an alarm trigger relative to the start, e.g. -PT10M
+function formatTrigger(minutesBefore: number): string {
+  const sign = minutesBefore >= 0 ? '-' : '';
+  const minutes = Math.abs(minutesBefore);
+  if (minutes > 0 && minutes % 1440 === 0) return `${sign}P${minutes / 1440}D`;
+  return `${sign}PT${minutes}M`;
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = fromDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Monday of the current week, so this week's classes are included
+function getThisWeekStart(now: Date): string {
+  const date = new Date(now);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toDateKey(date);
+}
+
+interface SeriesRule {
+  start: string;      // First date of the series (DTSTART)
+  interval: number;   // Weeks between meetings
+  until?: string;     // Last date, inclusive
+  count?: number;
+}
+
+// Whether the class's recurrence has it meet on a date, ignoring term breaks
+function isMeeting(event: ClassEvent, dateKey: string, term?: Term): boolean {
+  const date = fromDateKey(dateKey);
+  return date.getDay() === event.dayOfWeek && matchesRecurrence(event.recurrence, event.dayOfWeek, date, term);
+}
+
+// Work out the RRULE shape for a recurring event; null if it never meets
+function getSeriesRule(event: ClassEvent, term: Term | undefined, now: Date): SeriesRule | null {
+  const recurrence = event.recurrence;
+
+  if (recurrence?.type === 'rrule') {
+    const rule = parseRRule(recurrence.rule);
+    if (!rule) return null;
+
+    // The series starts at the class's first meeting under the rule
+    let start = recurrence.startDate;
+    const limit = addDays(start, 7 * (rule.interval + 1));
+    while (start <= limit && !isMeeting(event, start)) start = addDays(start, 1);
+    if (start > limit) return null;
+
+    // COUNT covers every BYDAY day; this class only gets its own share of the meetings
+    let count: number | undefined;
+    if (rule.count) {
+      count = 0;
+      for (let date = start; isMeeting(event, date); date = addDays(date, rule.interval * 7)) count++;
+    }
+
+    const until = rule.until && term
+      ? (rule.until < term.endDate ? rule.until : term.endDate)
+      : rule.until ?? (count ? undefined : term?.endDate);
+    return { start, interval: rule.interval, until, count };
+  }
+
+  // First date on the class's weekday that its recurrence allows
+  let start = term ? term.startDate : getThisWeekStart(now);
+  const limit = addDays(start, 7 * 53);
+  while (start <= limit && !isMeeting(event, start, term)) start = addDays(start, 1);
+  if (start > limit || (term && start > term.endDate)) return null;
+
+  return {
+    start,
+    interval: recurrence?.type === 'biweekly' ? 2 : 1,
+    until: term?.endDate,
+  };
+}
+
+// Dates the RRULE produces on which the class doesn't actually meet (term breaks,
+// weeks outside a week list). Without a COUNT the series is also cut off at its
+// last real meeting so it doesn't end in a run of skipped dates.
+function getSkippedDates(event: ClassEvent, rule: SeriesRule, terms: Term[]): string[] {
+  if (!rule.until) return [];
+
+  const skipped: string[] = [];
+  let lastMeeting: string | undefined;
+  let index = 0;
+  for (
+    let date = rule.start;
+    date <= rule.until && (rule.count === undefined || index < rule.count);
+    date = addDays(date, rule.interval * 7), index++
+  ) {
+    if (occursOnDate(event, fromDateKey(date), terms)) lastMeeting = date;
+    else skipped.push(date);
+  }
+
+  if (rule.count === undefined && lastMeeting) {
+    rule.until = lastMeeting;
+    return skipped.filter(date => date < lastMeeting);
+  }
+  return skipped;
+}
+
+function buildAlarms(event: ClassEvent): string[] {
+  const lines: string[] = [];
+  const [anchorHours, anchorMinutes] = ALL_DAY_REMINDER_TIME.split(':').map(Number);
+  // All-day events are reminded relative to ALL_DAY_REMINDER_TIME rather than midnight
+  const anchorOffset = event.allDay ? anchorHours * 60 + anchorMinutes : 0;
+
+  for (const minutesBefore of event.reminderMinutes) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:${formatTrigger(minutesBefore - anchorOffset)}`,
+      'END:VALARM'
+    );
+  }
+  return lines;
+}
+
+function buildTimes(event: ClassEvent, dateKey: string, startTime: string, endTime: string): string[] {
+  if (event.allDay) {
+    return [`DTSTART;VALUE=DATE:${formatDate(dateKey)}`, `DTEND;VALUE=DATE:${formatDate(addDays(dateKey, 1))}`];
+  }
+  return [`DTSTART:${formatDateTime(dateKey, startTime)}`, `DTEND:${formatDateTime(dateKey, endTime)}`];
+}
+
+// Stable across exports so re-importing updates events instead of duplicating them
+export function getEventUid(event: Pick<ClassEvent, 'id'>): string {
+  return `${event.id}@classping`;
+}
+
+function buildEvent(
+  event: ClassEvent,
+  terms: Term[],
+  exceptions: OccurrenceException[],
+  stamp: string,
+  now: Date
+): string[] {
+  const term = getEventTerm(event, terms);
+  const header = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.kind && event.kind !== 'class' ? [`CATEGORIES:${event.kind.toUpperCase()}`] : []),
+  ];
+
+  if (event.recurrence?.type === 'once') {
+    return [
+      ...header,
+      ...buildTimes(event, event.recurrence.date, event.startTime, event.endTime),
+      ...buildAlarms(event),
+      'END:VEVENT',
+    ];
+  }
+
+  const rule = getSeriesRule(event, term, now);
+  if (!rule) return [];
+
+  const eventExceptions = exceptions.filter(e => e.eventId === event.id);
+  const exdates = new Set(getSkippedDates(event, rule, terms));
+
+  const rrule = [
+    'FREQ=WEEKLY',
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    `BYDAY=${RRULE_DAYS[event.dayOfWeek]}`,
+    ...(rule.count ? [`COUNT=${rule.count}`] : []),
+    // UNTIL has to be the same value type as DTSTART
+    ...(rule.until ? [`UNTIL=${event.allDay ? formatDate(rule.until) : formatDateTime(rule.until, '23:59')}`] : []),
+  ].join(';');
+
+  // Cancelled occurrences are removed from the series; moved ones are overridden below
+  for (const exception of eventExceptions) {
+    if (exception.cancelled) exdates.add(exception.date);
+  }
+
+  const lines = [
+    ...header,
+    ...buildTimes(event, rule.start, event.startTime, event.endTime),
+    `RRULE:${rrule}`,
+    ...[...exdates].sort().map(date =>
+      event.allDay ? `EXDATE;VALUE=DATE:${formatDate(date)}` : `EXDATE:${formatDateTime(date, event.startTime)}`
+    ),
+    ...buildAlarms(event),
+    'END:VEVENT',
+  ];
+
+  // One VEVENT per moved or relocated occurrence, tied to the series by RECURRENCE-ID
+  for (const exception of eventExceptions) {
+    if (exception.cancelled) continue;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${getEventUid(event)}`,
+      `DTSTAMP:${stamp}`,
+      event.allDay
+        ? `RECURRENCE-ID;VALUE=DATE:${formatDate(exception.date)}`
+        : `RECURRENCE-ID:${formatDateTime(exception.date, event.startTime)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      ...buildTimes(
+        event,
+        exception.newDate ?? exception.date,
+        exception.newStartTime ?? event.startTime,
+        exception.newEndTime ?? event.endTime
+      ),
+      ...((exception.newLocation ?? event.location) ? [`LOCATION:${escapeText(exception.newLocation ?? event.location!)}`] : []),
+      ...buildAlarms(event),
+      'END:VEVENT'
+    );
+  }
+
+  return lines;
+}
+
+// Generate a VCALENDAR containing every event
+export function generateICS(
+  events: ClassEvent[],
+  terms: Term[] = [],
+  exceptions: OccurrenceException[] = [],
+  now: Date = new Date()
+): string {
+  const stamp = formatUtcStamp(now.getTime());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:ClassPing',
+    ...events.flatMap(event => buildEvent(event, terms, exceptions, stamp, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
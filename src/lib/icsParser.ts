@@ -0,0 +1,332 @@
+// iCalendar (.ics) import: turns VEVENTs into ParsedClass results for the same
+// review step PDF and image uploads use. Weekly RRULEs become recurring classes
+// (one per BYDAY), single VEVENTs become dated events.
+
+import { EventKind, Recurrence } from './db';
+import { toDateKey, fromDateKey } from './dates';
+import { RRULE_DAYS } from './recurrence';
+import { ParsedClass, ParsedException, ParseProgress } from './pdfParser';
+
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+type ICSComponent = Map<string, ICSProperty[]>;
+
+// A DTSTART/DTEND/EXDATE value in local terms
+interface ICSDateTime {
+  date: string;  // YYYY-MM-DD
+  time?: string; // HH:mm, missing for all-day (VALUE=DATE) values
+}
+
+// Undo RFC 5545 line folding (CRLF followed by a space or tab)
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+function parseProperty(line: string): ICSProperty | null {
+  // Split at the first colon that isn't inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+// Collect every VEVENT's properties
+function parseEvents(text: string): ICSComponent[] {
+  const events: ICSComponent[] = [];
+  let current: ICSComponent | null = null;
+  let nestedDepth = 0; // VALARMs inside a VEVENT
+
+  for (const line of unfold(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT') current = new Map();
+      else if (current) nestedDepth++;
+    } else if (property.name === 'END') {
+      if (property.value.toUpperCase() === 'VEVENT' && current) {
+        events.push(current);
+        current = null;
+      } else if (current) {
+        nestedDepth--;
+      }
+    } else if (current && nestedDepth === 0) {
+      current.set(property.name, [...(current.get(property.name) ?? []), property]);
+    }
+  }
+
+  return events;
+}
+
+// Parse 20261019, 20261019T090000 or 20261019T090000Z. TZID-qualified times are
+// taken as wall-clock times; UTC ones are converted to the device's local time.
+function parseDateTime(value: string, params: Record<string, string> = {}): ICSDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours || params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}` };
+  }
+
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+    const time = `${local.getHours().toString().padStart(2, '0')}:${local.getMinutes().toString().padStart(2, '0')}`;
+    return { date: toDateKey(local), time };
+  }
+
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+}
+
+function getText(event: ICSComponent, name: string): string | undefined {
+  const value = event.get(name)?.[0]?.value;
+  return value ? unescapeText(value) : undefined;
+}
+
+function getDateTime(event: ICSComponent, name: string): ICSDateTime | null {
+  const property = event.get(name)?.[0];
+  return property ? parseDateTime(property.value, property.params) : null;
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = fromDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Add an ISO 8601 duration like PT1H30M to a time, capped at 23:59
+function addDuration(time: string, duration: string): string {
+  const match = duration.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?/);
+  if (!match) return time;
+  const [, weeks, days, hours, minutes] = match.map(v => (v ? parseInt(v) : 0));
+  const [h, m] = time.split(':').map(Number);
+  const total = Math.min(h * 60 + m + (weeks * 7 + days) * 1440 + hours * 60 + minutes, 23 * 60 + 59);
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+// Guess what a one-off event is from its title
+function guessKind(title: string): EventKind {
+  if (/\b(exam|midterm|final|quiz|test)\b/i.test(title)) return 'exam';
+  if (/\b(due|deadline|submission|submit)\b/i.test(title)) return 'deadline';
+  return 'extra';
+}
+
+// A dated event's kind from its CATEGORIES (how ClassPing exports it), or guessed from the title
+function getKind(event: ICSComponent, title: string): EventKind {
+  const categories = (event.get('CATEGORIES') ?? []).flatMap(property => property.value.toLowerCase().split(','));
+  const kinds: EventKind[] = ['exam', 'deadline', 'extra'];
+  return kinds.find(kind => categories.includes(kind)) ?? guessKind(title);
+}
+
+interface WeeklyRule {
+  interval: number;
+  byDay: number[];
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+// Read a weekly RRULE; COUNT is turned into an UNTIL date because each BYDAY
+// becomes its own class and COUNT counts meetings across all of them.
+// Returns null for rules ClassPing can't represent (daily, monthly, ...).
+function parseWeeklyRule(rule: string, start: string, startDay: number): WeeklyRule | null {
+  const parts = new Map(
+    rule.split(';').map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+  if (parts.get('FREQ') !== 'WEEKLY') return null;
+
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!) : 1;
+  if (!(interval >= 1)) return null;
+
+  const byDay = (parts.get('BYDAY') || '')
+    .split(',')
+    .filter(Boolean)
+    .map(day => RRULE_DAYS.indexOf(day.slice(-2)))
+    .filter(day => day !== -1);
+  if (byDay.length === 0) byDay.push(startDay);
+
+  let until = parts.has('UNTIL') ? parseDateTime(parts.get('UNTIL')!)?.date : undefined;
+
+  const count = parts.has('COUNT') ? parseInt(parts.get('COUNT')!) : undefined;
+  if (count && count > 0) {
+    // Weeks start on Monday (WKST default); walk meetings in order until COUNT is reached
+    const weekStart = addDays(start, -((fromDateKey(start).getDay() + 6) % 7));
+    const days = [...byDay].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    let seen = 0;
+    for (let week = 0; seen < count && week < 520; week += interval) {
+      for (const day of days) {
+        const date = addDays(weekStart, week * 7 + ((day + 6) % 7));
+        if (date < start) continue;
+        until = date;
+        if (++seen === count) break;
+      }
+    }
+  }
+
+  return { interval, byDay, until };
+}
+
+// Recurrence for one weekday of an imported weekly series
+function toRecurrence(rule: WeeklyRule, start: string, today: string): Recurrence | undefined {
+  // A plain weekly class that has already started needs no rule
+  if (rule.interval === 1 && !rule.until && start <= today) return undefined;
+
+  const parts = ['FREQ=WEEKLY'];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return { type: 'rrule', rule: parts.join(';'), startDate: start };
+}
+
+// Parse an .ics file's text into classes and dated events
+export function parseICS(text: string, now: Date = new Date()): ParsedClass[] {
+  const today = toDateKey(now);
+  const events = parseEvents(text);
+  const classes: ParsedClass[] = [];
+  const seriesByUid = new Map<string, ParsedClass[]>();
+  const overrides: ICSComponent[] = [];
+
+  for (const event of events) {
+    if (event.has('RECURRENCE-ID')) {
+      overrides.push(event);
+      continue;
+    }
+    if (getText(event, 'STATUS')?.toUpperCase() === 'CANCELLED') continue;
+
+    const start = getDateTime(event, 'DTSTART');
+    if (!start) continue;
+
+    const title = getText(event, 'SUMMARY') || 'Untitled';
+    const location = getText(event, 'LOCATION');
+    const allDay = !start.time;
+    const startTime = start.time ?? '00:00';
+    const end = getDateTime(event, 'DTEND');
+    const duration = event.get('DURATION')?.[0]?.value;
+    const endTime = allDay
+      ? '23:59'
+      : end?.time && end.date === start.date ? end.time
+      : duration ? addDuration(startTime, duration)
+      : startTime;
+
+    const rrule = event.get('RRULE')?.[0]?.value;
+    const startDay = fromDateKey(start.date).getDay();
+
+    if (!rrule) {
+      classes.push({
+        title,
+        location,
+        dayOfWeek: startDay,
+        startTime,
+        endTime,
+        date: start.date,
+        allDay,
+        kind: getKind(event, title),
+      });
+      continue;
+    }
+
+    const rule = parseWeeklyRule(rrule, start.date, startDay);
+    if (!rule) continue;
+    if (rule.until && rule.until < today) continue; // Series already over
+
+    const exdates = (event.get('EXDATE') ?? []).flatMap(property =>
+      property.value.split(',').map(value => parseDateTime(value, property.params)?.date).filter(Boolean)
+    ) as string[];
+
+    const weekStart = addDays(start.date, -((startDay + 6) % 7));
+    const series: ParsedClass[] = rule.byDay.map(day => {
+      // First meeting on this weekday: in the start week, or a whole interval later
+      // if that day falls before DTSTART
+      let dayStart = addDays(weekStart, (day + 6) % 7);
+      if (dayStart < start.date) dayStart = addDays(dayStart, rule.interval * 7);
+      const exceptions: ParsedException[] = exdates
+        .filter(date => fromDateKey(date).getDay() === day)
+        .map(date => ({ date, cancelled: true }));
+
+      return {
+        title,
+        location,
+        dayOfWeek: day,
+        startTime,
+        endTime,
+        recurrence: toRecurrence(rule, dayStart, today),
+        exceptions: exceptions.length > 0 ? exceptions : undefined,
+      };
+    });
+
+    classes.push(...series);
+    const uid = getText(event, 'UID');
+    if (uid) seriesByUid.set(uid, series);
+  }
+
+  // Single-occurrence overrides (RECURRENCE-ID) become moves or cancellations
+  for (const override of overrides) {
+    const series = seriesByUid.get(getText(override, 'UID') ?? '');
+    const original = getDateTime(override, 'RECURRENCE-ID');
+    const cls = original && series?.find(c => c.dayOfWeek === fromDateKey(original.date).getDay());
+    if (!cls) continue;
+
+    const exception: ParsedException = { date: original.date, cancelled: false };
+    if (getText(override, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+      exception.cancelled = true;
+    } else {
+      const start = getDateTime(override, 'DTSTART');
+      const end = getDateTime(override, 'DTEND');
+      const location = getText(override, 'LOCATION');
+      if (start && start.date !== original.date) exception.newDate = start.date;
+      if (start?.time && start.time !== cls.startTime) exception.newStartTime = start.time;
+      if (end?.time && end.time !== cls.endTime) exception.newEndTime = end.time;
+      if (location && location !== cls.location) exception.newLocation = location;
+    }
+
+    cls.exceptions = [...(cls.exceptions ?? []).filter(e => e.date !== exception.date), exception];
+  }
+
+  return classes;
+}
+
+// Parse an .ics file for the upload flow
+export async function parseICSTimetable(
+  file: File,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedClass[]> {
+  try {
+    onProgress?.({ stage: 'loading', progress: 0, message: 'Reading calendar...' });
+    const text = await file.text();
+
+    onProgress?.({ stage: 'parsing', progress: 50, message: 'Reading events...' });
+    const classes = parseICS(text);
+
+    onProgress?.({ stage: 'complete', progress: 100, message: `Found ${classes.length} event(s)` });
+    return classes;
+  } catch (error) {
+    console.error('ICS parsing error:', error);
+    throw new Error('Failed to read this calendar file. Please check it is a valid .ics file.');
+  }
+}
@@ -0,0 +1,249 @@
+// Cleans up photographed timetables before OCR: crop to the timetable's corners
+// with perspective correction, grayscale, deskew by the angle of the text lines,
+// then an adaptive threshold so shadows and uneven light don't swallow the text.
+// Works on DOM canvases and, inside the parsing worker, on OffscreenCanvas.
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// A point as a fraction (0-1) of the image's width and height
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface PreprocessOptions {
+  corners?: Point[]; // Timetable corners: top-left, top-right, bottom-right, bottom-left
+  enhance?: boolean; // Grayscale, deskew and threshold; defaults to true
+}
+
+// Tesseract gains nothing from larger images, and phone photos are 12+ megapixels
+export const MAX_OCR_DIMENSION = 2400;
+
+// The whole image
+export const FULL_IMAGE_CORNERS: Point[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// Steepest skew corrected; beyond this the photo needs retaking rather than rotating
+const MAX_SKEW_DEGREES = 15;
+const SKEW_STEP_DEGREES = 0.5;
+// Width the skew is measured at
+const SKEW_SAMPLE_WIDTH = 800;
+// Pixels this much darker than their neighbourhood are ink
+const THRESHOLD_SENSITIVITY = 0.15;
+
+// Parsing runs in a Web Worker (see timetableWorker.ts), where there is no DOM
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+const context2d = (canvas: AnyCanvas) =>
+  canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D;
+
+// Decode an image file onto a canvas no larger than maxDimension on its long side
+export async function loadImageCanvas(file: Blob, maxDimension = MAX_OCR_DIMENSION): Promise<AnyCanvas> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  context2d(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+}
+
+// Solve a linear system by Gaussian elimination with partial pivoting
+function solve(matrix: number[][], values: number[]): number[] {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * result[k];
+    result[row] = sum / rows[row][row];
+  }
+  return result;
+}
+
+// Homography taking each `from` point to the matching `to` point, as a function
+export function homography(from: Point[], to: Point[]): (x: number, y: number) => Point {
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  });
+  const [a, b, c, d, e, f, g, h] = solve(matrix, values);
+  return (x, y) => {
+    const w = g * x + h * y + 1;
+    return { x: (a * x + b * y + c) / w, y: (d * x + e * y + f) / w };
+  };
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Cut the quadrilateral out of the image and straighten it into a rectangle
+function warpPerspective(source: AnyCanvas, corners: Point[]): AnyCanvas {
+  const quad = corners.map(({ x, y }) => ({ x: x * source.width, y: y * source.height }));
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+  const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+
+  const rect = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const toSource = homography(rect, quad);
+
+  const input = context2d(source).getImageData(0, 0, source.width, source.height);
+  const output = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const point = toSource(x + 0.5, y + 0.5);
+      const sx = Math.min(source.width - 1, Math.max(0, Math.floor(point.x)));
+      const sy = Math.min(source.height - 1, Math.max(0, Math.floor(point.y)));
+      const from = (sy * source.width + sx) * 4;
+      const to = (y * width + x) * 4;
+      output.data[to] = input.data[from];
+      output.data[to + 1] = input.data[from + 1];
+      output.data[to + 2] = input.data[from + 2];
+      output.data[to + 3] = 255;
+    }
+  }
+
+  const canvas = createCanvas(width, height);
+  context2d(canvas).putImageData(output, 0, 0);
+  return canvas;
+}
+
+// Luminance of every pixel
+function grayscale(image: ImageData): Uint8ClampedArray {
+  const gray = new Uint8ClampedArray(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+  }
+  return gray;
+}
+
+// Angle (degrees) the text lines are tilted by. Each candidate angle projects the
+// dark pixels onto rows; at the right angle the lines of text and the table
+// rulings pile up into sharp peaks.
+export function detectSkew(gray: Uint8ClampedArray, width: number, height: number): number {
+  const step = Math.max(1, Math.floor(width / SKEW_SAMPLE_WIDTH));
+  let total = 0;
+  for (let i = 0; i < gray.length; i += step) total += gray[i];
+  const ink = (total / Math.ceil(gray.length / step)) * 0.75;
+
+  const points: Point[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (gray[y * width + x] < ink) points.push({ x: x / step, y: y / step });
+    }
+  }
+  if (points.length === 0) return 0;
+
+  const rows = Math.ceil(Math.hypot(width, height) / step) * 2;
+  let best = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const counts = new Uint32Array(rows);
+    for (const { x, y } of points) {
+      counts[Math.round(y * cos - x * sin) + rows / 2]++;
+    }
+    let score = 0;
+    for (let i = 0; i < rows; i++) score += counts[i] * counts[i];
+    if (score > bestScore) {
+      bestScore = score;
+      best = degrees;
+    }
+  }
+  return best;
+}
+
+// Rotate the image about its centre, filling the uncovered corners with white
+function rotate(source: AnyCanvas, degrees: number): AnyCanvas {
+  const canvas = createCanvas(source.width, source.height);
+  const context = context2d(canvas);
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((-degrees * Math.PI) / 180);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// Black text on white: a pixel is ink when it is darker than the average of the
+// pixels around it (Bradley's method, using an integral image)
+export function adaptiveThreshold(gray: Uint8ClampedArray, width: number, height: number): ImageData {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(4, Math.floor(Math.max(width, height) / 32));
+  const output = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const value = gray[y * width + x] < mean * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      const i = (y * width + x) * 4;
+      output.data[i] = output.data[i + 1] = output.data[i + 2] = value;
+      output.data[i + 3] = 255;
+    }
+  }
+  return output;
+}
+
+const isFullImage = (corners: Point[]) =>
+  corners.every((corner, i) => distance(corner, FULL_IMAGE_CORNERS[i]) < 0.001);
+
+// Crop, straighten and binarize an image for OCR
+export function preprocessCanvas(source: AnyCanvas, { corners, enhance = true }: PreprocessOptions = {}): AnyCanvas {
+  let canvas = corners && !isFullImage(corners) ? warpPerspective(source, corners) : source;
+  if (!enhance) return canvas;
+
+  let image = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  let gray = grayscale(image);
+
+  const skew = detectSkew(gray, canvas.width, canvas.height);
+  if (Math.abs(skew) >= SKEW_STEP_DEGREES) {
+    canvas = rotate(canvas, skew);
+    image = context2d(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    gray = grayscale(image);
+  }
+
+  const output = createCanvas(canvas.width, canvas.height);
+  context2d(output).putImageData(adaptiveThreshold(gray, canvas.width, canvas.height), 0, 0);
+  return output;
+}
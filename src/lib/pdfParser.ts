@@ -1,10 +1,37 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { version } from 'pdfjs-dist';
+import type { PageViewport } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
 import Tesseract from 'tesseract.js';
-import { ClassEvent } from './db';
+import { ClassEvent, EventKind, OccurrenceException, Recurrence, TimetableTemplate } from './db';
+import { extractGridCells, boxesToText, minConfidence, GridCell, GridVocabulary, TextBox } from './timetableGrid';
+import { ClockFormat, findTimeRange, parseTimeOrRange } from './timeRange';
+import { extractCourseDetails, SessionType } from './courseDetails';
+import { AnyCanvas, PreprocessOptions, createCanvas, loadImageCanvas, preprocessCanvas } from './imagePreprocess';
+import {
+  TIMETABLE_LOCALES,
+  DEFAULT_TIMETABLE_LANGUAGES,
+  TimetableLanguage,
+  TimetableVocabulary,
+  getVocabulary,
+  getTesseractLanguages,
+  lookupDay,
+  normalizeWord,
+} from './timetableLocales';
+import { TemplateRules, compileTemplate, getHeaderFingerprint, selectTemplate } from './timetableTemplates';
+import { extractTableCells, readHtmlTables, readTextTable, tableToText } from './htmlTable';
 
-// Set up PDF.js worker - version MUST match installed package
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${version}/pdf.worker.min.js`;
+// PDF.js worker is bundled with the app (and precached) so PDFs open offline
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Tesseract's worker, core and language data are served by the app (see vite.config.ts)
+const TESSERACT_PATH = `${import.meta.env.BASE_URL}tesseract`;
+
+export const OFFLINE_ASSETS_MISSING =
+  'Timetable scanning files are missing. Connect to the internet and try again; ClassPing keeps them for offline use after that.';
+
+// One-off change to an imported class, saved as an OccurrenceException on import
+export type ParsedException = Omit<OccurrenceException, 'id' | 'eventId' | 'createdAt'>;
 
 export interface ParsedClass {
   title: string;
@@ -12,150 +39,380 @@ export interface ParsedClass {
   startTime: string;
   endTime: string;
   location?: string;
+  date?: string;             // YYYY-MM-DD for one-off dated events (calendar imports)
+  allDay?: boolean;
+  kind?: EventKind;
+  recurrence?: Recurrence;   // Missing means every week
+  exceptions?: ParsedException[];
+  courseCode?: string;       // "CS101"
+  sessionType?: SessionType;
+  instructor?: string;
+  color?: string;            // From spreadsheet imports; otherwise assigned on import
+  reminderMinutes?: number[];
+  confidence?: ParsedConfidence; // Set for fields read by OCR
 }
 
+export type ParsedField = 'title' | 'dayOfWeek' | 'startTime' | 'endTime' | 'location';
+
+// OCR confidence (0-1) per field
+export type ParsedConfidence = Partial<Record<ParsedField, number>>;
+
+// Fields read with less confidence than this are worth a second look
+export const LOW_CONFIDENCE = 0.6;
+
 export interface ParseProgress {
   stage: 'loading' | 'rendering' | 'ocr' | 'parsing' | 'complete';
   progress: number;
   message: string;
 }
 
-// Day name mappings
-const DAY_MAPPINGS: Record<string, number> = {
-  'sunday': 0, 'sun': 0,
-  'monday': 1, 'mon': 1,
-  'tuesday': 2, 'tue': 2, 'tues': 2,
-  'wednesday': 3, 'wed': 3,
-  'thursday': 4, 'thu': 4, 'thur': 4, 'thurs': 4,
-  'friday': 5, 'fri': 5,
-  'saturday': 6, 'sat': 6,
-};
+// English day name mappings; other languages are in timetableLocales.ts
+export const DAY_MAPPINGS: Record<string, number> = TIMETABLE_LOCALES.en.days;
 
-// Time regex patterns
-const TIME_PATTERNS = [
-  /(\d{1,2}):(\d{2})\s*(am|pm)?/gi,
-  /(\d{1,2})\s*(am|pm)/gi,
-  /(\d{1,2})h(\d{2})/gi, // 24h format like 14h30
-];
+export interface ParseOptions {
+  signal?: AbortSignal;
+  languages?: TimetableLanguage[]; // Defaults to English
+  preprocess?: PreprocessOptions;  // Crop and cleanup for photos
+  template?: TimetableTemplate;    // Read with this template
+  templates?: TimetableTemplate[]; // Otherwise with the one whose header matches the document, if any
+}
 
-// Parse time string to HH:mm format
-function parseTime(timeStr: string): string | null {
-  const cleaned = timeStr.toLowerCase().trim();
-  
-  // Match HH:MM am/pm
-  const match1 = cleaned.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/);
-  if (match1) {
-    let hours = parseInt(match1[1]);
-    const minutes = match1[2];
-    const period = match1[3];
-    
-    if (period === 'pm' && hours < 12) hours += 12;
-    if (period === 'am' && hours === 12) hours = 0;
-    
-    return `${hours.toString().padStart(2, '0')}:${minutes}`;
-  }
-  
-  // Match HH am/pm
-  const match2 = cleaned.match(/(\d{1,2})\s*(am|pm)/);
-  if (match2) {
-    let hours = parseInt(match2[1]);
-    const period = match2[2];
-    
-    if (period === 'pm' && hours < 12) hours += 12;
-    if (period === 'am' && hours === 12) hours = 0;
-    
-    return `${hours.toString().padStart(2, '0')}:00`;
+export interface ParseResult {
+  classes: ParsedClass[];
+  fingerprint: string[];         // The document's header words, for saving a template
+  template?: TimetableTemplate;  // The template it was read with
+}
+
+// Compact day codes from course catalogues: "MWF", "TTh", "TR" (R is Thursday)
+const DAY_CODE_PATTERN = /^(?:Th|Tu|Sa|Su|M|T|W|R|F){2,}$|^(?:Th|Tu)$/;
+const DAY_CODES: Record<string, number> = { M: 1, T: 2, Tu: 2, W: 3, Th: 4, R: 4, F: 5, Sa: 6, Su: 0 };
+
+const DAY_LIST_SEPARATORS = ['/', ',', '&', '+'];
+const DAY_RANGE_SEPARATORS = ['-', '–', '—'];
+
+interface DayList {
+  days: number[];
+  index: number; // Where the days are written in the text
+  length: number;
+}
+
+// Words (with an abbreviation's full stop) and list punctuation with their
+// positions. Hyphenated words are split up unless the whole word is a day
+// ("segunda-feira", but "Mon-Thu").
+function dayListWords(text: string, vocab: TimetableVocabulary): { text: string; index: number }[] {
+  const words: { text: string; index: number }[] = [];
+  for (const match of text.matchAll(/\p{L}+(?:-\p{L}+)*\.?|[-–—/,&+]/gu)) {
+    if (!/\p{L}-/u.test(match[0]) || lookupDay(vocab, match[0]) !== undefined) {
+      words.push({ text: match[0], index: match.index! });
+      continue;
+    }
+    for (const part of match[0].matchAll(/\p{L}+|-/gu)) {
+      words.push({ text: part[0], index: match.index! + part.index! });
+    }
   }
-  
-  // Match 24h format
-  const match3 = cleaned.match(/(\d{1,2})[h:](\d{2})/);
-  if (match3) {
-    const hours = parseInt(match3[1]);
-    const minutes = match3[2];
-    return `${hours.toString().padStart(2, '0')}:${minutes}`;
+  return words;
+}
+
+// Days a line is about: a day name, a list ("Mon/Wed/Fri", "Tue & Thu"), a range
+// ("Mon–Thu", "Monday to Thursday") or a compact code ("MWF", "TTh"). Codes look
+// like course words ("RF Circuits"), so they only count at the start of the text
+// or right next to `codesNear` (where the time was cut out); null turns them off.
+export function extractDays(
+  text: string,
+  vocab: TimetableVocabulary,
+  codesNear: number | null = 0
+): DayList | null {
+  const words = dayListWords(text, vocab);
+  const dayOf = (word: string) => lookupDay(vocab, word);
+  const end = (k: number) => words[k].index + words[k].text.length;
+  // Words that follow each other with nothing but spaces between them
+  const adjacent = (k: number) => text.slice(end(k - 1), words[k].index).trim() === '';
+  const listSeparators = [...DAY_LIST_SEPARATORS, ...vocab.listWords];
+  const rangeSeparators = [...DAY_RANGE_SEPARATORS, ...vocab.rangeWords];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].text;
+
+    const touches = (position: number) =>
+      text.slice(Math.min(position, words[i].index), words[i].index).trim() === ''
+      && text.slice(end(i), Math.max(position, end(i))).trim() === '';
+    if (DAY_CODE_PATTERN.test(word) && codesNear !== null && (touches(0) || touches(codesNear))) {
+      const days = [...word.matchAll(/Th|Tu|Sa|Su|M|T|W|R|F/g)].map(code => DAY_CODES[code[0]]);
+      return { days: [...new Set(days)], index: words[i].index, length: word.length };
+    }
+
+    const first = dayOf(word);
+    if (first === undefined) continue;
+
+    const days = [first];
+    let last = i;
+    for (let k = i + 1; k < words.length && adjacent(k); k = last + 1) {
+      // "Mon Wed Fri" with just spaces between the days
+      const day = dayOf(words[k].text);
+      if (day !== undefined) {
+        days.push(day);
+        last = k;
+        continue;
+      }
+
+      const separator = normalizeWord(words[k].text);
+      const next = k + 1 < words.length && adjacent(k + 1) ? dayOf(words[k + 1].text) : undefined;
+      if (next === undefined) break;
+      if (rangeSeparators.includes(separator)) {
+        for (let d = (days[days.length - 1] + 1) % 7; d !== next; d = (d + 1) % 7) {
+          days.push(d);
+        }
+      } else if (!listSeparators.includes(separator)) {
+        break;
+      }
+      days.push(next);
+      last = k + 1;
+    }
+
+    return { days: [...new Set(days)], index: words[i].index, length: end(last) - words[i].index };
   }
-  
+
   return null;
 }
 
-// Extract day of week from text
-function extractDayOfWeek(text: string): number | null {
-  const lower = text.toLowerCase();
-  
-  for (const [dayName, dayNum] of Object.entries(DAY_MAPPINGS)) {
-    if (lower.includes(dayName)) {
-      return dayNum;
+// How grid headers read in the timetable's language. A day header is just a day
+// name, optionally followed by a date ("Mon 14/10"); a time axis label is "9:00",
+// "9am", "0900", "9.00" or a range like "09:00 - 10:00".
+function gridVocabulary(vocab: TimetableVocabulary, clock: ClockFormat): GridVocabulary {
+  return {
+    parseDay: (text) => {
+      const [word, ...rest] = text.trim().split(/\s+/);
+      const day = lookupDay(vocab, word);
+      if (day === undefined || !/^[\d/.-]*$/.test(rest.join(''))) return null;
+      return day;
+    },
+    parseTimeLabel: (text) => parseTimeOrRange(text, vocab, clock),
+  };
+}
+
+// The line with a found time range (or day list) cut out
+const removeSpan = (line: string, span: { index: number; length: number }) =>
+  (line.slice(0, span.index) + ' ' + line.slice(span.index + span.length)).replace(/\s+/g, ' ').trim();
+
+export const LOCATION_PATTERN = /\b(room|rm\.?|hall|building|bldg\.?)\s*[\w\d-]+/i;
+
+// Table cells in text: tab-separated, or lined up with runs of spaces
+const COLUMN_SEPARATOR = /\t| {2,}/;
+
+// Without a template, times are read however they're written and nothing is skipped
+const DEFAULT_RULES: TemplateRules = { clock: 'auto', ignorePatterns: [] };
+
+const isIgnored = (line: string, rules: TemplateRules) =>
+  rules.ignorePatterns.some(pattern => pattern.test(line));
+
+// Turn a reconstructed grid cell into a class. A time range written in the cell
+// wins over the slot it sits in.
+function cellToClass(cell: GridCell, vocab: TimetableVocabulary, rules: TemplateRules): ParsedClass | null {
+  let { startTime, endTime } = cell;
+  let location: string | undefined;
+  const titleLines: string[] = [];
+  const confidence: ParsedConfidence = {
+    dayOfWeek: cell.dayConfidence,
+    startTime: cell.startConfidence,
+    endTime: cell.endConfidence,
+  };
+  const titleConfidence: (number | undefined)[] = [];
+
+  for (const { text: line, confidence: lineConfidence } of cell.lines) {
+    if (isIgnored(line, rules)) continue;
+    const range = findTimeRange(line, vocab, rules.clock);
+    let rest = line;
+    if (range) {
+      startTime = range.start;
+      endTime = range.end;
+      confidence.startTime = confidence.endTime = lineConfidence;
+      rest = removeSpan(line, range);
+    }
+
+    const locationMatch = rest.match(rules.roomPattern ?? LOCATION_PATTERN);
+    if (!location && locationMatch) {
+      location = locationMatch[0];
+      confidence.location = lineConfidence;
+      rest = rest.replace(locationMatch[0], '').trim();
+    }
+    if (rest) {
+      titleLines.push(rest);
+      titleConfidence.push(lineConfidence);
     }
   }
-  
-  return null;
+
+  const text = titleLines.join(' ').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  const { rest, ...details } = extractCourseDetails(text, rules.courseCodePattern);
+  const title = rest || details.courseCode || text;
+  confidence.title = minConfidence(titleConfidence);
+
+  const known = Object.entries(confidence).filter(([, value]) => value !== undefined);
+  return {
+    title,
+    dayOfWeek: cell.dayOfWeek,
+    startTime,
+    endTime,
+    location,
+    ...details,
+    confidence: known.length > 0 ? Object.fromEntries(known) : undefined,
+  };
+}
+
+// Classes from positioned text when it forms a grid, otherwise an empty list
+function parseGridClasses(boxes: TextBox[], vocab: TimetableVocabulary, rules: TemplateRules): ParsedClass[] {
+  const cells = extractGridCells(boxes, gridVocabulary(vocab, rules.clock)) ?? [];
+  return cells.map(cell => cellToClass(cell, vocab, rules)).filter((c): c is ParsedClass => c !== null);
+}
+
+interface OCRResult {
+  text: string;
+  words: TextBox[];
+}
+
+// Run OCR keeping word positions and confidence, which the grid reader needs.
+// Aborting terminates the Tesseract worker mid-recognition.
+async function recognizeLayout(
+  image: Tesseract.ImageLike,
+  languages: TimetableLanguage[],
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OCRResult> {
+  signal?.throwIfAborted();
+  let worker: Tesseract.Worker;
+  try {
+    worker = await Tesseract.createWorker(getTesseractLanguages(languages), Tesseract.OEM.LSTM_ONLY, {
+      workerPath: `${TESSERACT_PATH}/worker.min.js`,
+      corePath: `${TESSERACT_PATH}/core`,
+      langPath: `${TESSERACT_PATH}/lang`,
+      // A blob worker wouldn't go through the service worker's precache
+      workerBlobURL: false,
+      logger: (m) => {
+        if (m.status === 'recognizing text') onProgress(m.progress);
+      },
+    });
+  } catch (error) {
+    console.error('OCR setup error:', error);
+    throw new Error(OFFLINE_ASSETS_MISSING);
+  }
+
+  // Terminate once, whether recognition finished, failed or was aborted
+  let terminated: Promise<unknown> | null = null;
+  const stop = () => (terminated ??= worker.terminate().catch(() => undefined));
+  signal?.addEventListener('abort', stop);
+
+  try {
+    // Aborted while the worker was loading: the abort event has already fired
+    signal?.throwIfAborted();
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+    const words = (data.blocks ?? [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => line.words)
+      .map(({ text, bbox, confidence }) => ({
+        text,
+        x: bbox.x0,
+        y: bbox.y0,
+        width: bbox.x1 - bbox.x0,
+        height: bbox.y1 - bbox.y0,
+        confidence: confidence / 100,
+      }));
+    return { text: data.text, words };
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', stop);
+    await stop();
+  }
 }
 
 // Parse extracted text to find classes
-function parseClassesFromText(text: string): ParsedClass[] {
+function parseClassesFromText(
+  text: string,
+  vocab: TimetableVocabulary,
+  rules: TemplateRules = DEFAULT_RULES
+): ParsedClass[] {
   const classes: ParsedClass[] = [];
-  const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+  const lines = text.split('\n').filter(l => l.trim().length > 0 && !isIgnored(l, rules));
   
   // Common patterns for timetables
   // Pattern 1: "Monday 9:00 AM - 10:30 AM Math 101 Room A"
-  // Pattern 2: Table format with days as headers
+  // Pattern 2: "Mon/Wed/Fri 9-10am CS101 Lecture", "TTh 2:00-3:15 Chemistry Lab"
+  // Pattern 3: Table format with days as headers
+  // Pattern 4: Table rows with the day in a template's day column
+  
+  let currentDays: number[] = [];
   
-  let currentDay: number | null = null;
+  // Text that is nothing but days, like "Monday" or "Mon–Thu:"
+  const onlyDays = (text: string) => {
+    const header = text.replace(/:$/, '');
+    const days = extractDays(header, vocab);
+    return days && days.index === 0 && days.length === header.length ? days.days : null;
+  };
   
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+    let line = lines[i].trim();
+    let columnDays: number[] | null = null;
     
-    // Check if this line is a day header
-    const dayFromLine = extractDayOfWeek(line);
-    if (dayFromLine !== null) {
-      // Check if this line is JUST a day name (header)
-      const justDay = Object.keys(DAY_MAPPINGS).some(day => 
-        line.toLowerCase().trim() === day
-      );
-      if (justDay) {
-        currentDay = dayFromLine;
-        continue;
+    // A template's day column; rows with it left blank continue the day above
+    if (rules.dayColumn !== undefined) {
+      const columns = lines[i].split(COLUMN_SEPARATOR);
+      const column = columns[rules.dayColumn]?.trim() ?? '';
+      const days = column ? onlyDays(column) : null;
+      if (days || (!column && columns.length > rules.dayColumn + 1)) {
+        if (days) currentDays = days;
+        columnDays = currentDays;
+        line = columns.filter((_, c) => c !== rules.dayColumn).join(' ').replace(/\s+/g, ' ').trim();
       }
     }
     
+    // Check if this line is a day header
+    const daysFromLine = columnDays ? null : onlyDays(line);
+    if (daysFromLine) {
+      currentDays = daysFromLine;
+      continue;
+    }
+    
     // Try to extract time range from line
-    const timeMatches = line.match(/(\d{1,2}[:h]\d{2})\s*(am|pm)?\s*[-–to]+\s*(\d{1,2}[:h]\d{2})\s*(am|pm)?/i);
+    const range = findTimeRange(line, vocab, rules.clock);
     
-    if (timeMatches) {
-      const startTime = parseTime(timeMatches[1] + (timeMatches[2] || ''));
-      const endTime = parseTime(timeMatches[3] + (timeMatches[4] || ''));
+    if (range) {
+      const { start: startTime, end: endTime } = range;
+      
+      // Extract the rest as title/location
+      let restOfLine = removeSpan(line, range);
+      
+      // Try to find days in this line or use current context. A compact code
+      // counts next to the time, and not at all under a day header.
+      const cutAt = line.slice(0, range.index).replace(/\s+/g, ' ').trim().length;
+      const daysInLine = columnDays ? null : extractDays(restOfLine, vocab, currentDays.length > 0 ? null : cutAt);
+      const days = columnDays ?? (daysInLine ? daysInLine.days : currentDays);
+      if (daysInLine) restOfLine = removeSpan(restOfLine, daysInLine);
       
-      if (startTime && endTime) {
-        // Extract the rest as title/location
-        let restOfLine = line.replace(timeMatches[0], '').trim();
+      if (days.length > 0) {
+        // Try to separate title from location
+        const locationMatch = restOfLine.match(rules.roomPattern ?? LOCATION_PATTERN);
+        let location: string | undefined;
         
-        // Try to find day in this line or use current context
-        const dayInLine = extractDayOfWeek(line);
-        const day = dayInLine !== null ? dayInLine : currentDay;
+        if (locationMatch) {
+          location = locationMatch[0];
+          restOfLine = restOfLine.replace(locationMatch[0], '').trim();
+        }
         
-        if (day !== null) {
-          // Remove day name from rest of line
-          for (const dayName of Object.keys(DAY_MAPPINGS)) {
-            restOfLine = restOfLine.replace(new RegExp(dayName, 'gi'), '').trim();
-          }
-          
-          // Try to separate title from location
-          const locationMatch = restOfLine.match(/(room|rm\.?|hall|building|bldg\.?)\s*[\w\d-]+/i);
-          let title = restOfLine;
-          let location: string | undefined;
-          
-          if (locationMatch) {
-            location = locationMatch[0];
-            title = restOfLine.replace(locationMatch[0], '').trim();
-          }
-          
-          if (title) {
+        const { rest, ...details } = extractCourseDetails(restOfLine, rules.courseCodePattern);
+        const title = rest || details.courseCode || restOfLine;
+        
+        if (title) {
+          // One class per day for "MWF" and the like
+          for (const day of days) {
             classes.push({
-              title: title || 'Unknown Class',
+              title,
               dayOfWeek: day,
               startTime,
               endTime,
               location,
+              ...details,
             });
           }
         }
@@ -166,124 +423,241 @@ function parseClassesFromText(text: string): ParsedClass[] {
   return classes;
 }
 
-// Convert PDF page to image canvas
-async function pdfPageToCanvas(page: pdfjsLib.PDFPageProxy, scale: number = 2): Promise<HTMLCanvasElement> {
+// Classes in plain timetable text, one class per line or grouped under day headers
+export function parseTimetableText(
+  text: string,
+  languages: TimetableLanguage[] = DEFAULT_TIMETABLE_LANGUAGES,
+  template?: TimetableTemplate
+): ParsedClass[] {
+  return parseClassesFromText(text, getVocabulary(languages), template ? compileTemplate(template) : DEFAULT_RULES);
+}
+
+// The template to read a document with: the one asked for, or the saved one
+// whose header matches
+function chooseTemplate(
+  text: string,
+  { template, templates = [] }: ParseOptions
+): { fingerprint: string[]; template?: TimetableTemplate; rules: TemplateRules } {
+  const fingerprint = getHeaderFingerprint(text);
+  const chosen = template ?? selectTemplate(templates, fingerprint) ?? undefined;
+  return { fingerprint, template: chosen, rules: chosen ? compileTemplate(chosen) : DEFAULT_RULES };
+}
+
+// Classes from a pasted timetable: the tables in the clipboard's HTML when it has
+// any, otherwise the text, whose tab-separated rows are read as a table too. Grid
+// tables become day × time cells; list tables go through the line parser.
+export function parsePastedTimetable(text: string, html?: string, options: ParseOptions = {}): ParseResult {
+  const vocab = getVocabulary(options.languages ?? DEFAULT_TIMETABLE_LANGUAGES);
+  const htmlTables = html ? readHtmlTables(html) : [];
+  const textTable = htmlTables.length === 0 ? readTextTable(text) : null;
+  const tables = textTable ? [textTable] : htmlTables;
+
+  const { fingerprint, template, rules } = chooseTemplate(text || tables.map(tableToText).join('\n'), options);
+  const grid = gridVocabulary(vocab, rules.clock);
+
+  const gridClasses: ParsedClass[] = [];
+  let lineText = tables.length > 0 ? '' : text;
+  for (const table of tables) {
+    const cells = extractTableCells(table, grid);
+    if (cells && cells.length > 0) {
+      gridClasses.push(...cells.map(cell => cellToClass(cell, vocab, rules)).filter((c): c is ParsedClass => c !== null));
+    } else {
+      lineText += tableToText(table) + '\n';
+    }
+  }
+
+  const classes = [...gridClasses, ...parseClassesFromText(lineText, vocab, rules)];
+  return { classes, fingerprint, template };
+}
+
+// Parsing runs in a Web Worker (see timetableWorker.ts), where there is no DOM
+const inWorker = typeof document === 'undefined';
+
+// pdf.js makes DOM canvases for its own drawing unless given another factory
+const canvasFactory = {
+  create(width: number, height: number) {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset(canvasAndContext: { canvas: AnyCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  },
+  destroy(canvasAndContext: { canvas: AnyCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  },
+};
+
+// Convert PDF page to image canvas, cleaned up for OCR (scanned pages are as
+// skewed and shadowed as photos)
+async function pdfPageToCanvas(page: pdfjsLib.PDFPageProxy, scale: number = 2): Promise<AnyCanvas> {
   const viewport = page.getViewport({ scale });
-  const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d')!;
-  
-  canvas.width = viewport.width;
-  canvas.height = viewport.height;
+  const canvas = createCanvas(viewport.width, viewport.height);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
   
   await page.render({
     canvasContext: context,
     viewport,
   }).promise;
   
-  return canvas;
+  return preprocessCanvas(canvas);
+}
+
+// Positions of a page's text items, top-left origin in unscaled page units
+function getTextBoxes(items: TextContent['items'], viewport: PageViewport): TextBox[] {
+  return items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+    .map(item => {
+      const [, , , , x, baseline] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+      const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+      return { text: item.str, x, y: baseline - height, width: item.width, height };
+    });
+}
+
+// Open a PDF, telling a missing worker apart from a broken file
+async function loadPDF(data: ArrayBuffer): Promise<pdfjsLib.PDFDocumentProxy> {
+  try {
+    return await pdfjsLib.getDocument({
+      data,
+      canvasFactory,
+      // Font loading needs a document; without it glyphs are drawn as paths
+      disableFontFace: inWorker,
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && /worker/i.test(error.message)) {
+      throw new Error(OFFLINE_ASSETS_MISSING);
+    }
+    throw error;
+  }
 }
 
+// Errors the user can act on (and cancellation) are passed through; anything else
+// gets the generic message
+const isPassThroughError = (error: unknown) =>
+  error instanceof Error && (error.message === OFFLINE_ASSETS_MISSING || error.name === 'AbortError');
+
 // Main PDF parsing function
 export async function parsePDFTimetable(
   file: File,
-  onProgress?: (progress: ParseProgress) => void
-): Promise<ParsedClass[]> {
+  onProgress?: (progress: ParseProgress) => void,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  const { signal, languages = DEFAULT_TIMETABLE_LANGUAGES } = options;
   const report = (stage: ParseProgress['stage'], progress: number, message: string) => {
     onProgress?.({ stage, progress, message });
   };
+  const vocab = getVocabulary(languages);
   
+  let pdf: pdfjsLib.PDFDocumentProxy | null = null;
   try {
     report('loading', 0, 'Loading PDF...');
     
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    pdf = await loadPDF(arrayBuffer);
     const numPages = pdf.numPages;
     
     report('loading', 100, `Loaded ${numPages} page(s)`);
     
     let allText = '';
+    const gridClasses: ParsedClass[] = [];
+    let chosen: ReturnType<typeof chooseTemplate> | null = null;
     
     for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      signal?.throwIfAborted();
       report('rendering', ((pageNum - 1) / numPages) * 100, `Rendering page ${pageNum}/${numPages}...`);
       
       const page = await pdf.getPage(pageNum);
       
       // First try to extract text directly (for searchable PDFs)
       const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
+      let boxes = getTextBoxes(textContent.items, page.getViewport({ scale: 1 }));
+      let pageText = boxesToText(boxes);
       
-      if (pageText.trim().length > 50) {
-        // PDF has extractable text
-        allText += pageText + '\n';
-      } else {
+      if (pageText.trim().length <= 50) {
         // Need OCR for this page
         report('ocr', ((pageNum - 1) / numPages) * 100, `Running OCR on page ${pageNum}...`);
         
         const canvas = await pdfPageToCanvas(page);
-        const imageData = canvas.toDataURL('image/png');
         
-        const result = await Tesseract.recognize(imageData, 'eng', {
-          logger: (m) => {
-            if (m.status === 'recognizing text') {
-              report('ocr', ((pageNum - 1 + m.progress) / numPages) * 100, `OCR page ${pageNum}: ${Math.round(m.progress * 100)}%`);
-            }
-          },
-        });
-        
-        allText += result.data.text + '\n';
+        const result = await recognizeLayout(canvas, languages, (progress) => {
+          report('ocr', ((pageNum - 1 + progress) / numPages) * 100, `OCR page ${pageNum}: ${Math.round(progress * 100)}%`);
+        }, signal);
+        boxes = result.words;
+        pageText = result.text;
+      }
+      
+      // The first page's header decides the template for the whole document
+      chosen ??= chooseTemplate(pageText, options);
+      
+      // Grid timetables are read by position, anything else falls back to
+      // line-by-line parsing
+      const pageClasses = parseGridClasses(boxes, vocab, chosen.rules);
+      if (pageClasses.length > 0) {
+        gridClasses.push(...pageClasses);
+      } else {
+        allText += pageText + '\n';
       }
     }
     
     report('parsing', 0, 'Parsing extracted text...');
     
-    const classes = parseClassesFromText(allText);
+    const { fingerprint, template, rules } = chosen ?? chooseTemplate('', options);
+    const classes = [...gridClasses, ...parseClassesFromText(allText, vocab, rules)];
     
     report('complete', 100, `Found ${classes.length} class(es)`);
     
-    return classes;
+    return { classes, fingerprint, template };
   } catch (error) {
     console.error('PDF parsing error:', error);
+    if (isPassThroughError(error)) throw error;
     throw new Error('Failed to parse PDF. Please try a different file or enter classes manually.');
+  } finally {
+    await pdf?.destroy();
   }
 }
 
 // Parse image timetable using OCR
 export async function parseImageTimetable(
   file: File,
-  onProgress?: (progress: ParseProgress) => void
-): Promise<ParsedClass[]> {
+  onProgress?: (progress: ParseProgress) => void,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  const { signal, languages = DEFAULT_TIMETABLE_LANGUAGES, preprocess } = options;
   const report = (stage: ParseProgress['stage'], progress: number, message: string) => {
     onProgress?.({ stage, progress, message });
   };
+  const vocab = getVocabulary(languages);
   
   try {
     report('loading', 0, 'Loading image...');
     
-    const imageUrl = URL.createObjectURL(file);
+    const image = preprocessCanvas(await loadImageCanvas(file), preprocess);
     
     report('ocr', 0, 'Running OCR...');
     
-    const result = await Tesseract.recognize(imageUrl, 'eng', {
-      logger: (m) => {
-        if (m.status === 'recognizing text') {
-          report('ocr', m.progress * 100, `OCR: ${Math.round(m.progress * 100)}%`);
-        }
-      },
-    });
-    
-    URL.revokeObjectURL(imageUrl);
+    const result = await recognizeLayout(image, languages, (progress) => {
+      report('ocr', progress * 100, `OCR: ${Math.round(progress * 100)}%`);
+    }, signal);
     
     report('parsing', 0, 'Parsing extracted text...');
     
-    const classes = parseClassesFromText(result.data.text);
+    const { fingerprint, template, rules } = chooseTemplate(result.text, options);
+    
+    // Photographed grids keep their columns through the word positions
+    const gridClasses = parseGridClasses(result.words, vocab, rules);
+    const classes = gridClasses.length > 0 ? gridClasses : parseClassesFromText(result.text, vocab, rules);
     
     report('complete', 100, `Found ${classes.length} class(es)`);
     
-    return classes;
+    return { classes, fingerprint, template };
   } catch (error) {
     console.error('Image parsing error:', error);
+    if (isPassThroughError(error)) throw error;
     throw new Error('Failed to parse image. Please try a different file or enter classes manually.');
   }
 }
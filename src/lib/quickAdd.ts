@@ -0,0 +1,246 @@
+// Quick add: one line like "Physics lab every Tue 2-4pm in B12, remind 15 and 60
+// min before" or "Calc midterm Nov 14 9am Hall C". Times, days, rooms and course
+// codes are read the way timetable lines are (see pdfParser.ts); dates, reminders
+// and what kind of event it is are read here. Each detail is cut out of the text
+// as it's found, and what's left is the title.
+
+import { EventKind } from './db';
+import { ParsedClass, LOCATION_PATTERN, extractDays } from './pdfParser';
+import { findTime, findTimeRange } from './timeRange';
+import { SessionType, extractCourseDetails } from './courseDetails';
+import { toDateKey, fromDateKey } from './dates';
+import { DEFAULT_TIMETABLE_LANGUAGES, TimetableLanguage, getVocabulary } from './timetableLocales';
+
+export interface QuickAdd {
+  title: string;
+  kind: EventKind;
+  days: number[];             // Weekdays a class repeats on
+  date?: string;              // YYYY-MM-DD for a one-off event
+  startTime?: string;         // Missing for an all-day event, or when no time was given
+  endTime?: string;
+  location?: string;
+  reminderMinutes?: number[]; // Missing means the usual reminders
+  courseCode?: string;
+  sessionType?: SessionType;
+  instructor?: string;
+}
+
+// Length of a class or exam given just a start time
+const DEFAULT_LENGTH = 60;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8, oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11,
+};
+const MONTH = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+// "Nov 14", "November 14th, 2026", "14 Nov"
+const MONTH_DAY_PATTERN = new RegExp(String.raw`\b(${MONTH})\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(20\d{2})\b)?`, 'i');
+const DAY_MONTH_PATTERN = new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(${MONTH})\b\.?(?:,?\s+(20\d{2})\b)?`, 'i');
+const RELATIVE_DATE_PATTERN = /\b(today|tonight|tomorrow)\b/i;
+
+// "remind 15 and 60 min before", "reminders 1 day, 2h", "remind 2 weeks before"
+const REMINDER_UNIT = String.raw`(?:minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w)`;
+const REMINDER_PATTERN = new RegExp(
+  String.raw`\b(?:remind(?:\s+me)?|reminders?|alerts?)\s+((?:\d+\s*${REMINDER_UNIT}?\b(?:\s*(?:,|&|and)\s*)?)+)(?:\s*(?:before|ahead|early)\b)?`,
+  'i'
+);
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 1440, w: 10080 };
+
+const EXAM_WORDS = /\b(?:exams?|midterms?|finals?|quiz(?:zes)?|tests?)\b/i;
+const DEADLINE_WORDS = /\b(?:due|deadlines?|submit|submission)\b/i;
+const REPEAT_WORDS = /\b(?:every|each|weekly)\b/i;
+// "next Tue" is a single date rather than every Tuesday
+const ONE_OFF_WORDS = /\b(?:next|this|coming)\b/i;
+
+// "at 10": an hour on its own, which findTime leaves alone since it could be any number
+const AT_HOUR_PATTERN = /\bat\s+(\d{1,2})(?![\w:.])/i;
+
+// Capitalised words between "in"/"at" and a room word: "in Lecture Hall 2"
+const ROOM_LEAD_PATTERN = /(?:\b(?:in|at)\s+|@\s*)((?:[A-Z][\w-]*\s+)*)$/;
+
+// A room after "in", "at" or "@" when the built-in room words don't find one: "in B12", "@ Lab 3"
+const ROOM_PATTERN = /(?:\b(?:in|at)\s+|@\s*)([A-Z]*\d[\w-]*|[A-Z][\w-]*\s+\d[\w-]*)/;
+
+// Words that lead into a detail ("every Tue", "at 9am", "due Fri") and go with it
+const CONNECTORS = /(?:\s*(?:\b(?:every|each|weekly|next|this|coming|on|at|from|in|by|due)\b|@))+\s*$/i;
+
+// The text with a detail and the words leading into it cut out
+function cut(text: string, index: number, length: number): string {
+  const before = text.slice(0, index).replace(CONNECTORS, ' ');
+  return `${before} ${text.slice(index + length)}`.replace(/\s+/g, ' ').trim();
+}
+
+// Where a cut detail was in the text left after cut()
+const cutPosition = (text: string, index: number) =>
+  text.slice(0, index).replace(CONNECTORS, ' ').replace(/\s+/g, ' ').trim().length;
+
+// Reminder offsets in minutes. A unit covers the numbers before it without one
+// ("15 and 60 min"); numbers without any unit are minutes.
+function readReminders(list: string): number[] {
+  const values = [...list.matchAll(new RegExp(String.raw`(\d+)\s*(${REMINDER_UNIT})?\b`, 'gi'))];
+  let unit = 1;
+  const minutes = values.reverse().map(([, amount, word]) => {
+    if (word) unit = UNIT_MINUTES[word[0].toLowerCase()];
+    return Number(amount) * unit;
+  });
+  return [...new Set(minutes.filter(m => m > 0))].sort((a, b) => a - b);
+}
+
+// The date a month and day without a year next falls on, or null if there's no such day
+function nextMonthDay(month: number, day: number, year: number | undefined, today: Date): string | null {
+  const thisYear = year ?? today.getFullYear();
+  let date = new Date(thisYear, month, day);
+  if (!year && toDateKey(date) < toDateKey(today)) date = new Date(thisYear + 1, month, day);
+  return date.getMonth() === month && date.getDate() === day ? toDateKey(date) : null;
+}
+
+function findDate(text: string, today: Date): { date: string; index: number; length: number } | null {
+  const monthDay = text.match(MONTH_DAY_PATTERN);
+  const dayMonth = monthDay ? null : text.match(DAY_MONTH_PATTERN);
+  const match = monthDay ?? dayMonth;
+  if (match) {
+    const [monthWord, day] = monthDay ? [match[1], match[2]] : [match[2], match[1]];
+    const date = nextMonthDay(MONTHS[monthWord.toLowerCase()], Number(day), match[3] ? Number(match[3]) : undefined, today);
+    return date ? { date, index: match.index!, length: match[0].length } : null;
+  }
+
+  const relative = text.match(RELATIVE_DATE_PATTERN);
+  if (relative) {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    if (relative[1].toLowerCase() === 'tomorrow') date.setDate(date.getDate() + 1);
+    return { date: toDateKey(date), index: relative.index!, length: relative[0].length };
+  }
+
+  return null;
+}
+
+// "at 10" as a time, read like findTime reads "10:00": 1 to 6 is the afternoon
+function findHour(text: string): { time: string; index: number; length: number } | null {
+  const match = text.match(AT_HOUR_PATTERN);
+  const hours = match ? Number(match[1]) : NaN;
+  if (!match || hours > 23) return null;
+  const time = `${(hours > 0 && hours < 7 ? hours + 12 : hours).toString().padStart(2, '0')}:00`;
+  return { time, index: match.index!, length: match[0].length };
+}
+
+const addMinutes = (time: string, minutes: number) => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// Read a quick-add line. Missing details are left out; see getQuickAddProblem.
+export function parseQuickAdd(
+  text: string,
+  today: Date = new Date(),
+  languages: TimetableLanguage[] = DEFAULT_TIMETABLE_LANGUAGES
+): QuickAdd {
+  const vocab = getVocabulary(languages);
+  let rest = text.replace(/\s+/g, ' ').trim();
+
+  let reminderMinutes: number[] | undefined;
+  const reminders = rest.match(REMINDER_PATTERN);
+  if (reminders) {
+    reminderMinutes = readReminders(reminders[1]);
+    rest = cut(rest, reminders.index!, reminders[0].length);
+  }
+
+  // Read before the details are cut out, since "due" and "every" go with them
+  const kind: EventKind = DEADLINE_WORDS.test(rest) ? 'deadline' : EXAM_WORDS.test(rest) ? 'exam' : 'class';
+  const repeats = REPEAT_WORDS.test(rest);
+  const oneOff = ONE_OFF_WORDS.test(rest);
+
+  let date: string | undefined;
+  const dateMatch = findDate(rest, today);
+  if (dateMatch) {
+    date = dateMatch.date;
+    rest = cut(rest, dateMatch.index, dateMatch.length);
+  }
+
+  let startTime: string | undefined;
+  let endTime: string | undefined;
+  const range = findTimeRange(rest, vocab);
+  const time = range ? null : findTime(rest, vocab) ?? findHour(rest);
+  // Where the time was, since day codes like "TTh" only count next to it
+  let timeAt = 0;
+  if (range) {
+    ({ start: startTime, end: endTime } = range);
+    timeAt = cutPosition(rest, range.index);
+    rest = cut(rest, range.index, range.length);
+  } else if (time) {
+    startTime = time.time;
+    endTime = kind === 'deadline' ? time.time : addMinutes(time.time, DEFAULT_LENGTH);
+    timeAt = cutPosition(rest, time.index);
+    rest = cut(rest, time.index, time.length);
+  }
+
+  let days: number[] = [];
+  const dayList = extractDays(rest, vocab, timeAt);
+  if (dayList) {
+    days = dayList.days;
+    rest = cut(rest, dayList.index, dayList.length);
+  }
+
+  // Exams and deadlines on a weekday, and "next Tue", are the next one rather than every week
+  if (!date && days.length > 0 && !repeats && (kind !== 'class' || oneOff)) {
+    const ahead = (days[0] - today.getDay() + 7) % 7 || (/\bnext\b/i.test(text) ? 7 : 0);
+    date = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + ahead));
+  }
+  if (date) days = [];
+
+  let location: string | undefined;
+  const room = rest.match(LOCATION_PATTERN);
+  const roomAfterWord = room ? null : rest.match(ROOM_PATTERN);
+  if (room) {
+    // Take the words leading up to the room word along, and the "in" before them
+    const lead = rest.slice(0, room.index).match(ROOM_LEAD_PATTERN);
+    const index = lead ? lead.index! : room.index!;
+    location = `${lead?.[1] ?? ''}${room[0]}`;
+    rest = cut(rest, index, room.index! + room[0].length - index);
+  } else if (roomAfterWord) {
+    location = roomAfterWord[1];
+    rest = cut(rest, roomAfterWord.index!, roomAfterWord[0].length);
+  }
+
+  rest = rest.replace(new RegExp(REPEAT_WORDS, 'gi'), ' ').replace(/[\s,;:.\-–]+$/, '').replace(CONNECTORS, '');
+  const { rest: title, ...details } = extractCourseDetails(rest);
+
+  return {
+    title: title || details.courseCode || '',
+    kind: date ? (kind === 'class' ? 'extra' : kind) : 'class',
+    days,
+    date,
+    startTime,
+    endTime,
+    location,
+    reminderMinutes: reminderMinutes?.length ? reminderMinutes : undefined,
+    ...details,
+  };
+}
+
+// What still has to be written before the line can be added, or null
+export function getQuickAddProblem(quickAdd: QuickAdd): string | null {
+  if (!quickAdd.title) return 'Add a name, like "Physics lab"';
+  if (!quickAdd.date && quickAdd.days.length === 0) return 'Add a day like "every Tue" or a date like "Nov 14"';
+  if (!quickAdd.date && !quickAdd.startTime) return 'Add a time, like "2-4pm" or "9am"';
+  return null;
+}
+
+// The classes to save: one per weekday, or one dated event (all day when no time was given)
+export function quickAddToClasses(quickAdd: QuickAdd): ParsedClass[] {
+  const { days, date, kind, startTime, endTime, ...cls } = quickAdd;
+  if (date) {
+    return [{
+      ...cls,
+      dayOfWeek: fromDateKey(date).getDay(),
+      startTime: startTime ?? '00:00',
+      endTime: endTime ?? '23:59',
+      date,
+      kind,
+      allDay: !startTime,
+    }];
+  }
+  return days.map(dayOfWeek => ({ ...cls, dayOfWeek, startTime: startTime!, endTime: endTime! }));
+}
@@ -0,0 +1,181 @@
+// Recurrence rules for classes that don't meet every week
+// (A/B weeks, labs in weeks 1–6, imported RRULEs).
+
+import { Recurrence, Term } from './db';
+import { toDateKey, fromDateKey } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface ParsedRRule {
+  interval: number;
+  byDay: number[];  // Empty means the class's own day
+  count?: number;
+  until?: string;   // YYYY-MM-DD, inclusive
+}
+
+// Whole days since the epoch, immune to DST and time of day
+function dayNumber(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+// Day number of the Monday starting the week that contains a date
+function weekStartNumber(date: Date): number {
+  return dayNumber(date) - ((date.getDay() + 6) % 7);
+}
+
+// Calendar week of a date within a term; week 1 is the Monday–Sunday week the term starts in
+export function getTermWeekNumber(date: Date, term: Term): number {
+  const diff = weekStartNumber(date) - weekStartNumber(fromDateKey(term.startDate));
+  return Math.floor(diff / 7) + 1;
+}
+
+// Parse the supported RRULE subset: FREQ=WEEKLY with INTERVAL, BYDAY, COUNT and UNTIL
+export function parseRRule(rule: string): ParsedRRule | null {
+  const parts = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  if (parts.get('FREQ') !== 'WEEKLY') return null;
+
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!) : 1;
+  if (!(interval >= 1)) return null;
+
+  const byDay: number[] = [];
+  for (const day of (parts.get('BYDAY') || '').split(',').filter(Boolean)) {
+    const index = RRULE_DAYS.indexOf(day.slice(-2));
+    if (index === -1) return null;
+    byDay.push(index);
+  }
+
+  let count: number | undefined;
+  if (parts.has('COUNT')) {
+    count = parseInt(parts.get('COUNT')!);
+    if (!(count >= 1)) return null;
+  }
+
+  let until: string | undefined;
+  const untilMatch = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (parts.has('UNTIL')) {
+    if (!untilMatch) return null;
+    until = `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}`;
+  }
+
+  return { interval, byDay, count, until };
+}
+
+// Whether a weekly RRULE anchored at startDate has an occurrence on date for a class on dayOfWeek.
+// Like iCalendar, weeks run Monday to Sunday from the week startDate falls in, and COUNT
+// counts meetings on every BYDAY day, not just this class's.
+function matchesRRule(rule: ParsedRRule, startDate: string, dayOfWeek: number, date: Date): boolean {
+  const days = rule.byDay.length > 0 ? [...new Set(rule.byDay)] : [dayOfWeek];
+  if (!days.includes(dayOfWeek)) return false;
+
+  const dateKey = toDateKey(date);
+  if (dateKey < startDate) return false;
+  if (rule.until && dateKey > rule.until) return false;
+
+  const start = fromDateKey(startDate);
+  const weeksSinceStart = (weekStartNumber(date) - weekStartNumber(start)) / 7;
+  if (weeksSinceStart % rule.interval !== 0) return false;
+  if (rule.count === undefined) return true;
+
+  // Meetings before this one: every rule day in earlier weeks of the series and earlier
+  // this week, less the days of the first week that fall before startDate
+  const position = (day: number) => (day + 6) % 7;
+  const beforeStart = days.filter(day => position(day) < position(start.getDay())).length;
+  const earlierThisWeek = days.filter(day => position(day) < position(dayOfWeek)).length;
+  const index = (weeksSinceStart / rule.interval) * days.length + earlierThisWeek - beforeStart;
+  return index < rule.count;
+}
+
+// Whether a class with this recurrence meets on a date that already falls on its weekday.
+// Week-number rules need the class's term; without one they fall back to every week.
+export function matchesRecurrence(
+  recurrence: Recurrence | undefined,
+  dayOfWeek: number,
+  date: Date,
+  term?: Term
+): boolean {
+  if (!recurrence) return true;
+
+  switch (recurrence.type) {
+    case 'weekly':
+      return true;
+    case 'biweekly': {
+      const diff = weekStartNumber(date) - weekStartNumber(fromDateKey(recurrence.anchorDate));
+      return (diff / 7) % 2 === 0;
+    }
+    case 'weeks':
+      return !term || recurrence.weeks.includes(getTermWeekNumber(date, term));
+    case 'rrule': {
+      const rule = parseRRule(recurrence.rule);
+      return !!rule && matchesRRule(rule, recurrence.startDate, dayOfWeek, date);
+    }
+    case 'once':
+      return toDateKey(date) === recurrence.date;
+  }
+}
+
+// Parse a week list like "1-6, 9, 11" into sorted week numbers
+export function parseWeekList(text: string): number[] {
+  const weeks = new Set<number>();
+
+  for (const part of text.split(/[,\s]+/).filter(Boolean)) {
+    const range = part.match(/^(\d+)\s*[-–]\s*(\d+)$/);
+    if (range) {
+      const from = parseInt(range[1]);
+      const to = parseInt(range[2]);
+      for (let w = Math.min(from, to); w <= Math.max(from, to); w++) weeks.add(w);
+    } else if (/^\d+$/.test(part)) {
+      weeks.add(parseInt(part));
+    }
+  }
+
+  return [...weeks].filter(w => w > 0).sort((a, b) => a - b);
+}
+
+// Format week numbers back into a compact list like "1–6, 9"
+export function formatWeekList(weeks: number[]): string {
+  const ranges: string[] = [];
+  let i = 0;
+
+  while (i < weeks.length) {
+    let j = i;
+    while (j + 1 < weeks.length && weeks[j + 1] === weeks[j] + 1) j++;
+    ranges.push(j > i ? `${weeks[i]}–${weeks[j]}` : `${weeks[i]}`);
+    i = j + 1;
+  }
+
+  return ranges.join(', ');
+}
+
+// Short label for cards, e.g. "Every other week" or "Weeks 1–6"
+export function describeRecurrence(recurrence: Recurrence | undefined): string | null {
+  if (!recurrence) return null;
+
+  switch (recurrence.type) {
+    case 'weekly':
+      return null;
+    case 'biweekly':
+      return 'Every other week';
+    case 'weeks':
+      return `Weeks ${formatWeekList(recurrence.weeks)}`;
+    case 'rrule': {
+      const rule = parseRRule(recurrence.rule);
+      if (!rule) return 'Custom';
+      const every = rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`;
+      if (rule.count) return `${every}, ${rule.count}×`;
+      if (rule.until) return `${every} until ${rule.until}`;
+      return every;
+    }
+    case 'once':
+      return fromDateKey(recurrence.date).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      });
+  }
+}
@@ -0,0 +1,324 @@
+// Reminder engine shared by the app and the service worker.
+// Must stay free of window/DOM and React so it can be bundled into the SW.
+
+import {
+  getAllEvents,
+  getAllTerms,
+  getAllExceptions,
+  getAllTasks,
+  getTask,
+  updateTask,
+  getExceptionsByEvent,
+  getException,
+  getEvent,
+  getRemindersByEvent,
+  getUpcomingReminders,
+  saveReminder,
+  deleteReminder,
+  claimReminder,
+  ClassEvent,
+  EventKind,
+  OccurrenceException,
+  Reminder,
+  Task,
+  Term,
+} from './db';
+import { getOccurrences, toTimestamp } from './schedule';
+import { toDateKey } from './dates';
+
+// How many days ahead reminders are kept materialized for recurring classes
+export const REMINDER_HORIZON_DAYS = 14;
+
+// Reminders older than this when first seen are marked missed instead of firing
+export const MISSED_GRACE_MS = 5 * 60 * 1000;
+
+export interface DueReminder {
+  reminder: Reminder;
+  event: ClassEvent;
+  task?: Task; // Set when the reminder is for a task's due time
+  title: string;
+  message: string;
+}
+
+// Reminders for all-day events count back from this time on the day
+export const ALL_DAY_REMINDER_TIME = '09:00';
+
+// Generate a more human-friendly reminder message
+export function humanizeReminderText(
+  eventTitle: string,
+  minutesBefore: number,
+  location?: string,
+  kind: EventKind = 'class'
+): string {
+  const greetings = [
+    "Hey there! Just a quick heads up",
+    "Hi! Friendly reminder",
+    "Hello! Don't forget",
+    "Quick reminder for you",
+  ];
+  const greeting = greetings[Math.floor(Math.random() * greetings.length)];
+
+  const days = minutesBefore / (24 * 60);
+  const hours = minutesBefore / 60;
+
+  let timePhrase: string;
+  if (minutesBefore === 1) {
+    timePhrase = "in just 1 minute";
+  } else if (minutesBefore <= 5) {
+    timePhrase = `in about ${minutesBefore} minutes`;
+  } else if (minutesBefore === 10) {
+    timePhrase = "in 10 minutes";
+  } else if (minutesBefore === 15) {
+    timePhrase = "in about 15 minutes";
+  } else if (minutesBefore === 30) {
+    timePhrase = "in half an hour";
+  } else if (minutesBefore === 60) {
+    timePhrase = "in about an hour";
+  } else if (days === 7) {
+    timePhrase = "in a week";
+  } else if (days === 1) {
+    timePhrase = "tomorrow";
+  } else if (Number.isInteger(days)) {
+    timePhrase = `in ${days} days`;
+  } else if (Number.isInteger(hours)) {
+    timePhrase = `in ${hours} hours`;
+  } else {
+    timePhrase = `in ${minutesBefore} minutes`;
+  }
+
+  const verb = kind === 'deadline' ? 'is due' : kind === 'exam' ? 'is coming up' : 'is starting';
+  let message = `${greeting}! ${eventTitle} ${verb} ${timePhrase}`;
+
+  if (location) {
+    // Only tell people to head over when it's actually about to start
+    message += minutesBefore <= 60 ? `. Head over to ${location}` : `. It's in ${location}`;
+  }
+
+  message += ". You've got this!";
+
+  return message;
+}
+
+// Reminder message for a task that's coming due
+export function humanizeTaskReminderText(task: Task, className: string, minutesBefore: number): string {
+  const hours = minutesBefore / 60;
+  const days = minutesBefore / (24 * 60);
+
+  let timePhrase: string;
+  if (days === 1) {
+    timePhrase = 'tomorrow';
+  } else if (Number.isInteger(days)) {
+    timePhrase = `in ${days} days`;
+  } else if (hours === 1) {
+    timePhrase = 'in an hour';
+  } else if (Number.isInteger(hours)) {
+    timePhrase = `in ${hours} hours`;
+  } else {
+    timePhrase = `in ${minutesBefore} minutes`;
+  }
+
+  const urgency = task.priority === 'high' ? ' It\'s a high priority one.' : '';
+  return `Heads up! ${task.title} for ${className} is due ${timePhrase}.${urgency} You've got this!`;
+}
+
+// Stable ID so the same occurrence/offset pair is only ever stored once
+function getReminderId(eventId: string, occurrenceTime: number, minutesBefore: number): string {
+  return `${eventId}@${occurrenceTime}-${minutesBefore}`;
+}
+
+// Due time of a task as a local timestamp
+export function getTaskDueTime(task: Pick<Task, 'dueDate' | 'dueTime'>): number {
+  return toTimestamp(task.dueDate, task.dueTime);
+}
+
+// Reconcile an event's future reminders with its current schedule, term, exceptions
+// and reminder offsets
+export async function syncEventReminders(
+  event: ClassEvent,
+  now: number = Date.now(),
+  terms?: Term[],
+  exceptions?: OccurrenceException[]
+): Promise<void> {
+  // Offsets longer than the window ("3 weeks before") need occurrences further out
+  const longestOffset = Math.max(0, ...event.reminderMinutes) * 60 * 1000;
+  const horizon = now + REMINDER_HORIZON_DAYS * 24 * 60 * 60 * 1000 + longestOffset;
+  const expected = new Map<string, Reminder>();
+  const allTerms = terms ?? await getAllTerms();
+  const eventExceptions = exceptions?.filter(e => e.eventId === event.id)
+    ?? await getExceptionsByEvent(event.id);
+
+  const occurrences = getOccurrences(
+    [event],
+    toDateKey(new Date(now)),
+    toDateKey(new Date(horizon)),
+    allTerms,
+    eventExceptions
+  ).filter(o => !o.cancelled && o.start > now && o.start <= horizon);
+
+  for (const { start: occurrenceTime, originalDate, date } of occurrences) {
+    const anchor = event.allDay ? toTimestamp(date, ALL_DAY_REMINDER_TIME) : occurrenceTime;
+
+    for (const minutesBefore of event.reminderMinutes) {
+      const scheduledTime = anchor - minutesBefore * 60 * 1000;
+      if (scheduledTime <= now) continue;
+
+      const id = getReminderId(event.id, occurrenceTime, minutesBefore);
+      expected.set(id, {
+        id,
+        eventId: event.id,
+        scheduledTime,
+        occurrenceTime,
+        occurrenceDate: originalDate,
+        minutesBefore,
+        triggered: false,
+        missed: false,
+      });
+    }
+  }
+
+  // Task reminders share the class's event ID but are reconciled separately
+  const existing = (await getRemindersByEvent(event.id)).filter(r => !r.taskId);
+  const existingIds = new Set(existing.map(r => r.id));
+
+  // Drop future reminders that no longer match the event (time or offsets changed).
+  // Past-due ones are left alone so the next pass can still fire or mark them missed.
+  for (const reminder of existing) {
+    if (!reminder.triggered && reminder.scheduledTime > now && !expected.has(reminder.id)) {
+      await deleteReminder(reminder.id);
+    }
+  }
+
+  for (const [id, reminder] of expected) {
+    if (!existingIds.has(id)) {
+      await saveReminder(reminder);
+    }
+  }
+}
+
+// Reconcile a task's future reminders with its due time, offsets and status.
+// Finished tasks keep no pending reminders.
+export async function syncTaskReminders(task: Task, now: number = Date.now()): Promise<void> {
+  const dueTime = getTaskDueTime(task);
+  const expected = new Map<string, Reminder>();
+
+  if (task.status !== 'done') {
+    for (const minutesBefore of task.reminderMinutes) {
+      const scheduledTime = dueTime - minutesBefore * 60 * 1000;
+      if (scheduledTime <= now) continue;
+
+      const id = getReminderId(`task-${task.id}`, dueTime, minutesBefore);
+      expected.set(id, {
+        id,
+        eventId: task.eventId,
+        taskId: task.id,
+        scheduledTime,
+        occurrenceTime: dueTime,
+        minutesBefore,
+        triggered: false,
+        missed: false,
+      });
+    }
+  }
+
+  const existing = (await getRemindersByEvent(task.eventId)).filter(r => r.taskId === task.id);
+  const existingIds = new Set(existing.map(r => r.id));
+
+  for (const reminder of existing) {
+    if (!reminder.triggered && reminder.scheduledTime > now && !expected.has(reminder.id)) {
+      await deleteReminder(reminder.id);
+    }
+  }
+
+  for (const [id, reminder] of expected) {
+    if (!existingIds.has(id)) {
+      await saveReminder(reminder);
+    }
+  }
+}
+
+// Mark a task done and drop its pending reminders (used by the app and notification actions)
+export async function completeTask(id: string): Promise<Task | null> {
+  const task = await updateTask(id, { status: 'done', completedAt: Date.now() });
+  if (task) await syncTaskReminders(task);
+  return task;
+}
+
+// Put a finished task back on the list and restore its reminders
+export async function reopenTask(id: string): Promise<Task | null> {
+  const task = await updateTask(id, { status: 'todo', completedAt: undefined });
+  if (task) await syncTaskReminders(task);
+  return task;
+}
+
+// Keep a rolling window of reminders materialized for every class and open task
+export async function materializeReminders(now: number = Date.now()): Promise<void> {
+  const [events, terms, exceptions, tasks] = await Promise.all([
+    getAllEvents(),
+    getAllTerms(),
+    getAllExceptions(),
+    getAllTasks(),
+  ]);
+  for (const event of events) {
+    await syncEventReminders(event, now, terms, exceptions);
+  }
+  for (const task of tasks) {
+    await syncTaskReminders(task, now);
+  }
+}
+
+// Run one reminder pass: top up the window, mark stale reminders missed and fire due ones.
+// Each reminder is claimed in the store first, so the app and the service worker
+// never fire the same reminder twice.
+export async function runReminderPass(
+  fire: (due: DueReminder) => Promise<void>,
+  now: number = Date.now()
+): Promise<void> {
+  await materializeReminders(now);
+
+  const dueReminders = await getUpcomingReminders(0, now);
+
+  for (const reminder of dueReminders) {
+    const event = await getEvent(reminder.eventId);
+    const isMissed = now - reminder.scheduledTime > MISSED_GRACE_MS;
+
+    if (!event || isMissed) {
+      await claimReminder(reminder.id, true);
+      continue;
+    }
+
+    if (reminder.taskId) {
+      // Tasks finished or deleted after their reminders were stored don't fire
+      const task = await getTask(reminder.taskId);
+      if (!task || task.status === 'done') {
+        await deleteReminder(reminder.id);
+        continue;
+      }
+
+      if (!(await claimReminder(reminder.id))) continue;
+
+      await fire({
+        reminder,
+        event,
+        task,
+        title: `📝 ${task.title}`,
+        message: humanizeTaskReminderText(task, event.title, reminder.minutesBefore),
+      });
+      continue;
+    }
+
+    if (!(await claimReminder(reminder.id))) continue;
+
+    // A room change for just this occurrence overrides the class's usual location
+    const exception = reminder.occurrenceDate
+      ? await getException(event.id, reminder.occurrenceDate)
+      : undefined;
+    const location = exception?.newLocation ?? event.location;
+
+    await fire({
+      reminder,
+      event,
+      title: `📚 ${event.title}`,
+      message: humanizeReminderText(event.title, reminder.minutesBefore, location, event.kind),
+    });
+  }
+}
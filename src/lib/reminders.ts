@@ -1,6 +1,12 @@
 import { useEffect, useCallback, useRef } from 'react';
-import { getSettings, getUpcomingReminders, markReminderTriggered, getEvent, Reminder } from '@/lib/db';
-import { speakWithFallback, playNotificationBeep, playReminderSound, humanizeReminderText } from '@/lib/audioFallback';
+import { getSettings, ClassEvent, Term } from '@/lib/db';
+import { getOccurrenceStarts } from '@/lib/schedule';
+import { runReminderPass, DueReminder } from '@/lib/reminderEngine';
+import { speakWithFallback, playNotificationBeep, playReminderSound } from '@/lib/audioFallback';
+
+// Window event fired when tasks change outside the component showing them
+// (e.g. "Mark done" tapped on a notification)
+export const TASKS_CHANGED_EVENT = 'classping:tasks-changed';
 
 // Track active alarms that haven't been acknowledged
 const activeAlarms = new Map<string, NodeJS.Timeout>();
@@ -49,6 +55,9 @@ export async function registerServiceWorker(): Promise<ServiceWorkerRegistration
     navigator.serviceWorker.addEventListener('message', (event) => {
       if (event.data?.type === 'REMINDER_ACKNOWLEDGED') {
         acknowledgeReminder(event.data.reminderId);
+      } else if (event.data?.type === 'TASK_COMPLETED') {
+        acknowledgeReminder(event.data.reminderId);
+        window.dispatchEvent(new Event(TASKS_CHANGED_EVENT));
       }
     });
     
@@ -100,8 +109,14 @@ export async function showNotification(title: string, body: string, tag?: string
   };
 }
 
-// Show persistent notification that requires user action to dismiss
-export async function showPersistentNotification(title: string, body: string, tag?: string): Promise<void> {
+// Show persistent notification that requires user action to dismiss.
+// Task reminders get a "Mark done" action handled by the service worker.
+export async function showPersistentNotification(
+  title: string,
+  body: string,
+  tag?: string,
+  taskId?: string
+): Promise<void> {
   const hasPermission = await requestNotificationPermission();
   if (!hasPermission) return;
 
@@ -115,11 +130,16 @@ export async function showPersistentNotification(title: string, body: string, ta
         badge: '/pwa-192x192.png',
         tag: tag || `classping-${Date.now()}`,
         requireInteraction: true, // Won't dismiss until user clicks
-        actions: [
-          { action: 'ok', title: '✓ Got it!' },
-          { action: 'snooze', title: '⏰ Snooze 5min' }
-        ],
-        data: { tag, timestamp: Date.now() }
+        actions: taskId
+          ? [
+              { action: 'complete', title: '✓ Mark done' },
+              { action: 'snooze', title: '⏰ Snooze 5min' }
+            ]
+          : [
+              { action: 'ok', title: '✓ Got it!' },
+              { action: 'snooze', title: '⏰ Snooze 5min' }
+            ],
+        data: { reminderId: tag, tag, taskId, timestamp: Date.now() }
       } as NotificationOptions);
       return;
     } catch (e) {
@@ -152,23 +172,9 @@ export function acknowledgeReminder(reminderId: string): void {
 }
 
 // Trigger a reminder with persistent alarm behavior
-export async function triggerReminder(reminder: Reminder): Promise<void> {
+export async function triggerReminder({ reminder, event, task, title, message }: DueReminder): Promise<void> {
   const settings = await getSettings();
   ALARM_REPEAT_INTERVAL = (settings.alarmRetriggerInterval || 15) * 1000;
-  const event = await getEvent(reminder.eventId);
-
-  if (!event) {
-    await markReminderTriggered(reminder.id, true);
-    return;
-  }
-
-  const humanMessage = humanizeReminderText(
-    event.title,
-    reminder.minutesBefore,
-    event.location
-  );
-
-  const notificationTitle = `📚 ${event.title}`;
 
   // Function to play alarm sounds
   const playAlarm = async () => {
@@ -176,7 +182,7 @@ export async function triggerReminder(reminder: Reminder): Promise<void> {
     
     if (settings.voiceRemindersEnabled && event.voiceReminderEnabled) {
       try {
-        await speakText(humanMessage, settings.voiceVolume, settings.voiceRate);
+        await speakText(message, settings.voiceVolume, settings.voiceRate);
       } catch (e) {
         console.warn('Voice reminder failed, playing fallback sound:', e);
         await playReminderSound({ volume: settings.voiceVolume, urgency: 'high' });
@@ -189,7 +195,7 @@ export async function triggerReminder(reminder: Reminder): Promise<void> {
 
   // Show persistent notification
   if (settings.notificationsEnabled) {
-    await showPersistentNotification(notificationTitle, humanMessage, reminder.id);
+    await showPersistentNotification(title, message, reminder.id, task?.id);
   }
 
   // Set up repeating alarm until acknowledged (max 5 minutes)
@@ -207,33 +213,16 @@ export async function triggerReminder(reminder: Reminder): Promise<void> {
     }
     await playAlarm();
     if (settings.notificationsEnabled) {
-      await showPersistentNotification(notificationTitle, humanMessage, reminder.id);
+      await showPersistentNotification(title, message, reminder.id, task?.id);
     }
   }, ALARM_REPEAT_INTERVAL);
 
   activeAlarms.set(reminder.id, intervalId);
-
-  await markReminderTriggered(reminder.id);
 }
 
 // Check for due reminders
 export async function checkReminders(): Promise<void> {
-  const now = Date.now();
-  const checkWindow = 60000; // Check reminders due in the next minute
-  
-  const dueReminders = await getUpcomingReminders(now - checkWindow, now + checkWindow);
-  
-  for (const reminder of dueReminders) {
-    if (reminder.scheduledTime <= now && !reminder.triggered) {
-      const isMissed = now - reminder.scheduledTime > 5 * 60 * 1000; // 5 min grace period
-      
-      if (isMissed) {
-        await markReminderTriggered(reminder.id, true);
-      } else {
-        await triggerReminder(reminder);
-      }
-    }
-  }
+  await runReminderPass(triggerReminder);
 }
 
 // Hook to run reminder checking
@@ -272,34 +261,19 @@ export function useReminderChecker(intervalMs: number = 30000): void {
   }, [runCheck, intervalMs]);
 }
 
-// Calculate next reminder time for an event
+// Calculate the reminder time for an event's next occurrence, honoring its
+// recurrence and term (null if it has no occurrence in the coming year)
 export function calculateReminderTime(
-  eventDayOfWeek: number,
-  eventStartTime: string,
-  minutesBefore: number
-): number {
-  const now = new Date();
-  const currentDay = now.getDay();
-  
-  // Calculate days until the event
-  let daysUntil = eventDayOfWeek - currentDay;
-  if (daysUntil < 0) daysUntil += 7;
-  
-  // Parse event time
-  const [hours, minutes] = eventStartTime.split(':').map(Number);
-  
-  // Create event date
-  const eventDate = new Date(now);
-  eventDate.setDate(eventDate.getDate() + daysUntil);
-  eventDate.setHours(hours, minutes, 0, 0);
-  
-  // If event is today but already passed, schedule for next week
-  if (daysUntil === 0 && eventDate.getTime() <= now.getTime()) {
-    eventDate.setDate(eventDate.getDate() + 7);
-  }
-  
+  event: Pick<ClassEvent, 'dayOfWeek' | 'startTime' | 'termId' | 'recurrence'>,
+  minutesBefore: number,
+  terms: Term[] = []
+): number | null {
+  const now = Date.now();
+  const [nextStart] = getOccurrenceStarts(event, now, now + 366 * 24 * 60 * 60 * 1000, terms);
+  if (nextStart === undefined) return null;
+
   // Subtract reminder time
-  return eventDate.getTime() - (minutesBefore * 60 * 1000);
+  return nextStart - (minutesBefore * 60 * 1000);
 }
 
 // Get readable time until reminder
@@ -317,3 +291,11 @@ export function getTimeUntilReminder(scheduledTime: number): string {
   if (hours > 0) return `${hours}h ${minutes % 60}m`;
   return `${minutes}m`;
 }
+
+// Short label for a reminder offset, e.g. "10m", "2h", "3d", "1w"
+export function formatReminderOffset(minutesBefore: number): string {
+  if (minutesBefore >= 10080 && minutesBefore % 10080 === 0) return `${minutesBefore / 10080}w`;
+  if (minutesBefore >= 1440 && minutesBefore % 1440 === 0) return `${minutesBefore / 1440}d`;
+  if (minutesBefore >= 60 && minutesBefore % 60 === 0) return `${minutesBefore / 60}h`;
+  return `${minutesBefore}m`;
+}
@@ -0,0 +1,157 @@
+// Pure schedule helpers: which dates a class actually meets on.
+// Shared by the views, the reminder engine and the service worker.
+
+import { ClassEvent, OccurrenceException, Term } from './db';
+import { toDateKey, fromDateKey } from './dates';
+import { matchesRecurrence } from './recurrence';
+
+// Check whether a date falls inside a term and outside all of its breaks
+export function isDateInTerm(dateKey: string, term: Term): boolean {
+  if (dateKey < term.startDate || dateKey > term.endDate) return false;
+  return !term.breaks.some(b => dateKey >= b.startDate && dateKey <= b.endDate);
+}
+
+// Find the break (if any) covering a date
+export function getTermBreak(dateKey: string, term: Term) {
+  return term.breaks.find(b => dateKey >= b.startDate && dateKey <= b.endDate);
+}
+
+// Find the term an event belongs to (undefined if it has none or it was deleted)
+export function getEventTerm(event: Pick<ClassEvent, 'termId'>, terms: Term[]): Term | undefined {
+  if (!event.termId) return undefined;
+  return terms.find(t => t.id === event.termId);
+}
+
+// Find the term running on a given date
+export function getTermForDate(dateKey: string, terms: Term[]): Term | undefined {
+  return terms.find(t => dateKey >= t.startDate && dateKey <= t.endDate);
+}
+
+// Whether an event has a class on the given date (weekday, recurrence and term)
+export function occursOnDate(
+  event: Pick<ClassEvent, 'dayOfWeek' | 'termId' | 'recurrence'>,
+  date: Date,
+  terms: Term[]
+): boolean {
+  if (date.getDay() !== event.dayOfWeek) return false;
+
+  const term = getEventTerm(event, terms);
+  if (term && !isDateInTerm(toDateKey(date), term)) return false;
+
+  return matchesRecurrence(event.recurrence, event.dayOfWeek, date, term);
+}
+
+// Get the start time of every occurrence of an event within (from, to]
+export function getOccurrenceStarts(
+  event: Pick<ClassEvent, 'dayOfWeek' | 'startTime' | 'termId' | 'recurrence'>,
+  from: number,
+  to: number,
+  terms: Term[] = []
+): number[] {
+  const [hours, minutes] = event.startTime.split(':').map(Number);
+  const starts: number[] = [];
+
+  // Walk calendar days rather than adding milliseconds so DST shifts don't drift the time
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  while (day.getTime() <= to) {
+    if (occursOnDate(event, day, terms)) {
+      const start = new Date(day);
+      start.setHours(hours, minutes, 0, 0);
+      if (start.getTime() > from && start.getTime() <= to) {
+        starts.push(start.getTime());
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return starts;
+}
+
+// A single class meeting after applying its exception (if any)
+export interface Occurrence {
+  event: ClassEvent;
+  originalDate: string; // YYYY-MM-DD the recurrence put it on
+  date: string;         // YYYY-MM-DD it actually happens on
+  startTime: string;
+  endTime: string;
+  location?: string;
+  start: number;        // Timestamp of the actual start
+  cancelled: boolean;
+  exception?: OccurrenceException;
+}
+
+// Combine a YYYY-MM-DD date and HH:mm time into a local timestamp
+export function toTimestamp(dateKey: string, time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = fromDateKey(dateKey);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+}
+
+function buildOccurrence(
+  event: ClassEvent,
+  originalDate: string,
+  exception?: OccurrenceException
+): Occurrence {
+  const date = exception?.newDate ?? originalDate;
+  const startTime = exception?.newStartTime ?? event.startTime;
+
+  return {
+    event,
+    originalDate,
+    date,
+    startTime,
+    endTime: exception?.newEndTime ?? event.endTime,
+    location: exception?.newLocation ?? event.location,
+    start: toTimestamp(date, startTime),
+    cancelled: exception?.cancelled ?? false,
+    exception,
+  };
+}
+
+// Expand events into occurrences actually happening between two dates (inclusive),
+// applying cancellations, moves and room changes. Cancelled occurrences are kept
+// (flagged) so views can show them; moved ones appear on their new date.
+export function getOccurrences(
+  events: ClassEvent[],
+  fromDate: string,
+  toDate: string,
+  terms: Term[],
+  exceptions: OccurrenceException[]
+): Occurrence[] {
+  const exceptionsById = new Map(exceptions.map(e => [e.id, e]));
+  const occurrences: Occurrence[] = [];
+  const inRange = (dateKey: string) => dateKey >= fromDate && dateKey <= toDate;
+
+  for (const event of events) {
+    const day = fromDateKey(fromDate);
+    while (toDateKey(day) <= toDate) {
+      const dateKey = toDateKey(day);
+      if (occursOnDate(event, day, terms)) {
+        const occurrence = buildOccurrence(event, dateKey, exceptionsById.get(`${event.id}@${dateKey}`));
+        if (inRange(occurrence.date)) occurrences.push(occurrence);
+      }
+      day.setDate(day.getDate() + 1);
+    }
+  }
+
+  // Occurrences moved into the range from a date outside it
+  const eventsById = new Map(events.map(e => [e.id, e]));
+  for (const exception of exceptions) {
+    const event = eventsById.get(exception.eventId);
+    if (
+      !event ||
+      !exception.newDate ||
+      !inRange(exception.newDate) ||
+      inRange(exception.date) ||
+      !occursOnDate(event, fromDateKey(exception.date), terms)
+    ) {
+      continue;
+    }
+    occurrences.push(buildOccurrence(event, exception.date, exception));
+  }
+
+  return occurrences.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,291 @@
+// Time ranges in free timetable text: "9:00 - 10:30", "0900-1030", "9.00–10.30",
+// "9-11am", "14h-16h", "9:00 to 10:30". Text is split into tokens (times, range
+// separators, anything else) and a range is a time, a separator and a time.
+// Missing am/pm is inferred from the other end of the range, unless a template
+// says which clock the timetable uses. Separator words ("to", "bis", "à") and
+// clock words ("Uhr") come from the timetable's language.
+
+import { TIMETABLE_LOCALES, TimetableVocabulary, normalizeWord } from './timetableLocales';
+
+type Meridiem = 'am' | 'pm';
+
+// How times without am/pm are read: worked out from how they're written, or fixed
+export type ClockFormat = 'auto' | '12h' | '24h';
+
+interface TimeToken {
+  type: 'time';
+  hours: number;
+  minutes: number;
+  meridiem?: Meridiem;
+  // Written as 24-hour time: "14:00", "09:00", "0900" or "14h"
+  twentyFourHour: boolean;
+  // Minutes, am/pm or an "h" mark; a bare "10" is more likely a number than a time
+  marked: boolean;
+  // Four digits like "0930", which could also be a year
+  military: boolean;
+  from: number;
+  to: number;
+}
+
+interface OtherToken {
+  type: 'separator' | 'other';
+  from: number;
+  to: number;
+}
+
+type Token = TimeToken | OtherToken;
+
+export interface TimeRange {
+  start: string; // HH:mm
+  end: string;
+}
+
+export interface TimeRangeMatch extends TimeRange {
+  index: number; // Where the range starts in the text
+  length: number;
+}
+
+// Longest class we'll assume when an end time before the start is read as afternoon
+const MAX_WRAPPED_LENGTH = 6 * 60;
+
+// Shortest class a "0900-0915" style range can be; shorter ones are usually other numbers
+const MIN_MILITARY_LENGTH = 15;
+
+const DASHES = '-–—~';
+type RangeVocabulary = Pick<TimetableVocabulary, 'rangeWords' | 'clockWords'>;
+
+const isDigit = (c: string | undefined) => c !== undefined && c >= '0' && c <= '9';
+const isLetter = (c: string | undefined) => c !== undefined && /\p{L}/u.test(c);
+
+// Read "am", "a.m.", "a" (and pm) starting at `i`; returns the meridiem and where it ends.
+// A lone "a" only counts straight after the number ("9a"), since "9 a 11" is Spanish.
+function readMeridiem(text: string, i: number): { meridiem: Meridiem; to: number } | null {
+  const match = text.slice(i).match(/^(?:\s?([ap])\.?\s?m\b\.?|([ap])\b\.?)/i);
+  if (!match) return null;
+  const letter = (match[1] ?? match[2]).toLowerCase();
+  return { meridiem: letter === 'a' ? 'am' : 'pm', to: i + match[0].length };
+}
+
+// Read a time starting with the digit at `i`, or null if the number isn't one
+function readTime(text: string, i: number): TimeToken | null {
+  let j = i;
+  while (isDigit(text[j])) j++;
+  const digits = text.slice(i, j);
+
+  let hours: number;
+  let minutes = 0;
+  let marked = false;
+  let twentyFourHour = false;
+  let military = false;
+
+  if (digits.length <= 2) {
+    hours = Number(digits);
+    twentyFourHour = hours > 12 || (digits.length === 2 && digits[0] === '0');
+    if (/[:.h]/i.test(text[j] ?? '') && isDigit(text[j + 1]) && isDigit(text[j + 2]) && !isDigit(text[j + 3])) {
+      twentyFourHour ||= text[j].toLowerCase() === 'h';
+      minutes = Number(text.slice(j + 1, j + 3));
+      marked = true;
+      j += 3;
+    } else if (text[j]?.toLowerCase() === 'h' && !isLetter(text[j + 1])) {
+      // "14h" (French style)
+      twentyFourHour = true;
+      marked = true;
+      j += 1;
+    }
+  } else if (digits.length === 4) {
+    // Military style "0930"
+    hours = Number(digits.slice(0, 2));
+    minutes = Number(digits.slice(2));
+    twentyFourHour = true;
+    marked = true;
+    military = true;
+  } else {
+    return null;
+  }
+
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+  const meridiem = readMeridiem(text, j);
+  if (meridiem) {
+    if (twentyFourHour || hours === 0) return null; // "14:00pm" is not a time we can trust
+    j = meridiem.to;
+    marked = true;
+  }
+
+  // "2nd", "10x" and the like are not times
+  if (isLetter(text[j]) || isDigit(text[j])) return null;
+
+  return { type: 'time', hours, minutes, meridiem: meridiem?.meridiem, twentyFourHour, marked, military, from: i, to: j };
+}
+
+function tokenize(text: string, vocab: RangeVocabulary): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const c = text[i];
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    if (isDigit(c) && !isDigit(text[i - 1])) {
+      const time = readTime(text, i);
+      if (time) {
+        tokens.push(time);
+        i = time.to;
+        continue;
+      }
+    }
+
+    if (DASHES.includes(c)) {
+      tokens.push({ type: 'separator', from: i, to: i + 1 });
+      i++;
+      continue;
+    }
+
+    // A word (or number that isn't a time) up to the next space or dash
+    let j = i + 1;
+    while (j < text.length && !/\s/.test(text[j]) && !DASHES.includes(text[j])) j++;
+    const word = normalizeWord(text.slice(i, j));
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === 'time' && vocab.clockWords.includes(word)) {
+      // "14 Uhr" is one time
+      previous.to = j;
+      previous.marked = true;
+    } else {
+      tokens.push({ type: vocab.rangeWords.includes(word) ? 'separator' : 'other', from: i, to: j });
+    }
+    i = j;
+  }
+
+  return tokens;
+}
+
+const toMinutes = (hours: number, minutes: number) => hours * 60 + minutes;
+
+function to24Hour(time: TimeToken, meridiem: Meridiem | undefined): number {
+  let hours = time.hours;
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return toMinutes(hours, time.minutes);
+}
+
+// Minutes since midnight for both ends, filling in whichever am/pm is missing
+function resolveRange(start: TimeToken, end: TimeToken): [number, number] {
+  if (start.meridiem && end.meridiem) {
+    return [to24Hour(start, start.meridiem), to24Hour(end, end.meridiem)];
+  }
+
+  if (end.meridiem) {
+    // "9-11am", and "11-1pm" where the start is on the other side of noon
+    const endMinutes = to24Hour(end, end.meridiem);
+    if (start.twentyFourHour) return [to24Hour(start, undefined), endMinutes];
+    const sameHalf = to24Hour(start, end.meridiem);
+    if (sameHalf < endMinutes) return [sameHalf, endMinutes];
+    return [to24Hour(start, end.meridiem === 'pm' ? 'am' : 'pm'), endMinutes];
+  }
+
+  if (start.meridiem) {
+    // "11am-1" runs past noon
+    const startMinutes = to24Hour(start, start.meridiem);
+    if (end.twentyFourHour) return [startMinutes, to24Hour(end, undefined)];
+    const sameHalf = to24Hour(end, start.meridiem);
+    return [startMinutes, sameHalf > startMinutes ? sameHalf : to24Hour(end, 'pm')];
+  }
+
+  let startMinutes = to24Hour(start, undefined);
+  let endMinutes = to24Hour(end, undefined);
+  if (start.twentyFourHour || end.twentyFourHour) return [startMinutes, endMinutes];
+
+  // 12-hour clock without am/pm: "11:00-1:00" is 11am-1pm, and nobody has class
+  // from 1 to 3 in the morning. "10:30-9:00" is a typo rather than a 10-hour class.
+  if (start.hours < 7) {
+    startMinutes += 12 * 60;
+    endMinutes += 12 * 60;
+  } else if (endMinutes <= startMinutes && end.hours < 12 && endMinutes + 12 * 60 - startMinutes <= MAX_WRAPPED_LENGTH) {
+    endMinutes += 12 * 60;
+  }
+  return [startMinutes, endMinutes];
+}
+
+const formatMinutes = (total: number) =>
+  `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+
+// A time as the timetable's clock reads it: on a 12-hour clock "11:00-01:00"
+// ends at 1pm, on a 24-hour clock "5:00" is always morning
+function withClock(time: TimeToken, clock: ClockFormat): TimeToken {
+  if (clock === 'auto' || time.meridiem) return time;
+  return { ...time, twentyFourHour: clock === '24h' || time.hours > 12 };
+}
+
+// "2026-2027" in an "Academic Year" header: two 19xx/20xx years a few apart
+function isYearRange(start: TimeToken, end: TimeToken): boolean {
+  const year = (time: TimeToken) => (time.military && (time.hours === 19 || time.hours === 20) ? time.hours * 100 + time.minutes : null);
+  const [from, to] = [year(start), year(end)];
+  return from !== null && to !== null && to >= from && to - from <= 10;
+}
+
+// Turn "time separator time" tokens into a range, or null if it isn't a valid one
+function rangeFromTokens(start: Token, separator: Token, end: Token, clock: ClockFormat): TimeRange | null {
+  if (start.type !== 'time' || separator.type !== 'separator' || end.type !== 'time') return null;
+  if (!start.marked && !end.marked) return null; // "10-12" could be anything
+  if (isYearRange(start, end)) return null;
+
+  const [startMinutes, endMinutes] = resolveRange(withClock(start, clock), withClock(end, clock));
+  if (endMinutes <= startMinutes || endMinutes > 24 * 60) return null;
+  if ((start.military || end.military) && endMinutes - startMinutes < MIN_MILITARY_LENGTH) return null;
+
+  return { start: formatMinutes(startMinutes), end: formatMinutes(Math.min(endMinutes, 24 * 60 - 1)) };
+}
+
+// The first time range in a line of text, with its position so callers can cut it out
+export function findTimeRange(
+  text: string,
+  vocab: RangeVocabulary = TIMETABLE_LOCALES.en,
+  clock: ClockFormat = 'auto'
+): TimeRangeMatch | null {
+  const tokens = tokenize(text, vocab);
+
+  for (let i = 0; i + 2 < tokens.length; i++) {
+    const range = rangeFromTokens(tokens[i], tokens[i + 1], tokens[i + 2], clock);
+    if (range) {
+      return { ...range, index: tokens[i].from, length: tokens[i + 2].to - tokens[i].from };
+    }
+  }
+
+  return null;
+}
+
+// The first time written on its own, like "9am" or "14:30", with its position.
+// Bare numbers don't count, and "3:00" without am/pm is afternoon like in ranges.
+export function findTime(
+  text: string,
+  vocab: RangeVocabulary = TIMETABLE_LOCALES.en
+): { time: string; index: number; length: number } | null {
+  const time = tokenize(text, vocab).find((token): token is TimeToken => token.type === 'time' && token.marked);
+  if (!time) return null;
+
+  let minutes = to24Hour(time, time.meridiem) % (24 * 60);
+  if (!time.meridiem && !time.twentyFourHour && time.hours > 0 && time.hours < 7) minutes += 12 * 60;
+  return { time: formatMinutes(minutes), index: time.from, length: time.to - time.from };
+}
+
+// A text that is only a time or a time range, like a timetable's time axis label
+export function parseTimeOrRange(
+  text: string,
+  vocab: RangeVocabulary = TIMETABLE_LOCALES.en,
+  clock: ClockFormat = 'auto'
+): { start: string; end?: string } | null {
+  const tokens = tokenize(text, vocab);
+
+  if (tokens.length === 3) return rangeFromTokens(tokens[0], tokens[1], tokens[2], clock);
+
+  if (tokens.length === 1 && tokens[0].type === 'time' && tokens[0].marked) {
+    const time = tokens[0];
+    return { start: formatMinutes(to24Hour(time, time.meridiem) % (24 * 60)) };
+  }
+
+  return null;
+}
@@ -0,0 +1,285 @@
+// Rebuilds the structure of grid-style timetables from positioned text (pdf.js text
+// items, OCR words). Day headers form one axis and time labels the other; the text
+// between them is grouped into cells and mapped onto a day and time slot.
+// Coordinates are page units (or image pixels) with the origin at the top-left.
+
+export interface TextBox {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence?: number; // 0-1 for OCR words; missing for exact PDF text
+}
+
+export interface GridLine {
+  text: string;
+  confidence?: number; // Lowest word confidence on the line
+}
+
+export interface GridCell {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  lines: GridLine[]; // Cell text, top to bottom
+  // Confidence of the header and labels the day and times were read from
+  dayConfidence?: number;
+  startConfidence?: number;
+  endConfidence?: number;
+}
+
+// How header text is read, so the geometry stays independent of the language
+export interface GridVocabulary {
+  parseDay: (text: string) => number | null;
+  parseTimeLabel: (text: string) => { start: string; end?: string } | null;
+}
+
+type Axis = 'x' | 'y';
+
+// Gap (in line heights) below which neighbouring words belong to the same phrase
+const PHRASE_GAP = 0.8;
+// Gap (in line heights) below which consecutive phrases belong to the same cell
+const CELL_GAP = 0.8;
+
+const start = (box: TextBox, axis: Axis) => (axis === 'x' ? box.x : box.y);
+const size = (box: TextBox, axis: Axis) => (axis === 'x' ? box.width : box.height);
+const end = (box: TextBox, axis: Axis) => start(box, axis) + size(box, axis);
+const mid = (box: TextBox, axis: Axis) => start(box, axis) + size(box, axis) / 2;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Lowest of the known confidences, or undefined when none are known
+export function minConfidence(values: (number | undefined)[]): number | undefined {
+  const known = values.filter((v): v is number => v !== undefined);
+  return known.length > 0 ? Math.min(...known) : undefined;
+}
+
+function union(a: TextBox, b: TextBox, text: string): TextBox {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    text,
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+    confidence: minConfidence([a.confidence, b.confidence]),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const clamped = Math.min(total, 23 * 60 + 59);
+  return `${Math.floor(clamped / 60).toString().padStart(2, '0')}:${(clamped % 60).toString().padStart(2, '0')}`;
+}
+
+// Group boxes into visual lines, top to bottom, each sorted left to right
+export function groupLines<T extends TextBox>(boxes: T[]): T[][] {
+  const lines: { center: number; height: number; boxes: T[] }[] = [];
+
+  for (const box of [...boxes].sort((a, b) => mid(a, 'y') - mid(b, 'y'))) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(mid(box, 'y') - line.center) < Math.min(box.height, line.height) / 2) {
+      line.boxes.push(box);
+    } else {
+      lines.push({ center: mid(box, 'y'), height: box.height, boxes: [box] });
+    }
+  }
+
+  return lines.map(line => line.boxes.sort((a, b) => a.x - b.x));
+}
+
+// Join words on the same line that sit close together; wider gaps usually
+// separate table cells
+export function mergePhrases(boxes: TextBox[]): TextBox[] {
+  const phrases: TextBox[] = [];
+
+  for (const line of groupLines(boxes.filter(box => box.text.trim()))) {
+    let current: TextBox | null = null;
+    for (const box of line) {
+      const gap = current ? box.x - (current.x + current.width) : Infinity;
+      if (current && gap < current.height * PHRASE_GAP) {
+        const separator = gap > current.height * 0.15 ? ' ' : '';
+        current = union(current, box, `${current.text}${separator}${box.text}`.trim());
+      } else {
+        if (current) phrases.push(current);
+        current = { ...box, text: box.text.trim() };
+      }
+    }
+    if (current) phrases.push(current);
+  }
+
+  return phrases;
+}
+
+// Plain text with one line per visual row, for the line-based parser. Phrases
+// are tab-separated so table columns can still be told apart.
+export function boxesToText(boxes: TextBox[]): string {
+  return groupLines(mergePhrases(boxes))
+    .map(line => line.map(phrase => phrase.text).join('\t'))
+    .join('\n');
+}
+
+// Split boxes into clusters whose extents overlap along an axis
+function clusterByOverlap<T extends { box: TextBox }>(items: T[], axis: Axis): T[][] {
+  const clusters: { from: number; to: number; items: T[] }[] = [];
+
+  for (const item of [...items].sort((a, b) => start(a.box, axis) - start(b.box, axis))) {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && start(item.box, axis) < cluster.to) {
+      cluster.items.push(item);
+      cluster.to = Math.max(cluster.to, end(item.box, axis));
+    } else {
+      clusters.push({ from: start(item.box, axis), to: end(item.box, axis), items: [item] });
+    }
+  }
+
+  return clusters.map(cluster => cluster.items);
+}
+
+// Index of the band a position falls in, given ascending band boundaries
+function bandIndex(boundaries: number[], position: number): number {
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    if (position >= boundaries[i] && position < boundaries[i + 1]) return i;
+  }
+  return -1;
+}
+
+// Try one orientation: days along `dayAxis` (x when days are column headers) and
+// time slots along the other axis
+function readGrid(phrases: TextBox[], vocab: GridVocabulary, dayAxis: Axis): GridCell[] | null {
+  const timeAxis: Axis = dayAxis === 'x' ? 'y' : 'x';
+  const lineHeight = median(phrases.map(p => p.height)) || 10;
+
+  // Day headers: the largest set of distinct day names sharing one row (or column)
+  const dayPhrases = phrases
+    .map(box => ({ box, day: vocab.parseDay(box.text) }))
+    .filter((d): d is { box: TextBox; day: number } => d.day !== null);
+  const headers = clusterByOverlap(dayPhrases, timeAxis)
+    .map(cluster => {
+      const seen = new Set<number>();
+      return cluster
+        .filter(d => !seen.has(d.day) && seen.add(d.day))
+        .sort((a, b) => mid(a.box, dayAxis) - mid(b.box, dayAxis));
+    })
+    .sort((a, b) => b.length - a.length)[0];
+  if (!headers || headers.length < 2) return null;
+
+  const headerEnd = Math.max(...headers.map(h => end(h.box, timeAxis)));
+  const firstDayStart = Math.min(...headers.map(h => start(h.box, dayAxis)));
+
+  // Time labels: before the first day, after the header row, one per slot
+  const labelCandidates = phrases
+    .map(box => ({ box, time: vocab.parseTimeLabel(box.text) }))
+    .filter((t): t is { box: TextBox; time: { start: string; end?: string } } =>
+      t.time !== null && mid(t.box, timeAxis) > headerEnd && mid(t.box, dayAxis) < firstDayStart
+    );
+  const labels = clusterByOverlap(labelCandidates, timeAxis).map(cluster => cluster[0]);
+  if (labels.length < 2) return null;
+
+  // Slot times must run forwards
+  for (let i = 1; i < labels.length; i++) {
+    if (toMinutes(labels[i].time.start) <= toMinutes(labels[i - 1].time.start)) return null;
+  }
+
+  const slots = labels.map((label, i) => {
+    const next = labels[i + 1];
+    const previous = labels[i - 1];
+    const length = next
+      ? toMinutes(next.time.start) - toMinutes(label.time.start)
+      : previous ? toMinutes(label.time.start) - toMinutes(previous.time.start) : 60;
+    return {
+      start: label.time.start,
+      end: label.time.end ?? fromMinutes(toMinutes(label.time.start) + length),
+      startConfidence: label.box.confidence,
+      endConfidence: label.time.end ? label.box.confidence : (next ?? label).box.confidence,
+    };
+  });
+
+  // Band boundaries halfway between neighbouring labels and headers
+  const labelMids = labels.map(l => mid(l.box, timeAxis));
+  const slotSpacing = (labelMids[labelMids.length - 1] - labelMids[0]) / (labelMids.length - 1);
+  const slotBounds = [
+    headerEnd,
+    ...labelMids.slice(1).map((m, i) => (labelMids[i] + m) / 2),
+    labelMids[labelMids.length - 1] + slotSpacing / 2,
+  ];
+
+  const headerMids = headers.map(h => mid(h.box, dayAxis));
+  const daySpacing = (headerMids[headerMids.length - 1] - headerMids[0]) / (headerMids.length - 1);
+  const labelEnd = Math.max(...labels.map(l => end(l.box, dayAxis)));
+  const dayBounds = [
+    labelEnd,
+    ...headerMids.slice(1).map((m, i) => (headerMids[i] + m) / 2),
+    headerMids[headerMids.length - 1] + daySpacing / 2,
+  ];
+  const bandWidth = daySpacing || lineHeight * 10;
+
+  const axisText = new Set<TextBox>([...headers.map(h => h.box), ...labels.map(l => l.box)]);
+  const content = phrases.filter(box =>
+    !axisText.has(box)
+    && mid(box, timeAxis) > headerEnd
+    && mid(box, dayAxis) > labelEnd
+    && size(box, dayAxis) < bandWidth * 1.5 // Banners like "LUNCH" across every day
+  );
+
+  const cells: GridCell[] = [];
+
+  headers.forEach(({ day, box: header }, dayIndex) => {
+    const inDay = content
+      .filter(box => bandIndex(dayBounds, mid(box, dayAxis)) === dayIndex)
+      .sort((a, b) => start(a, timeAxis) - start(b, timeAxis));
+
+    // Consecutive text with no real gap between it is one cell, even across slots
+    const blocks: TextBox[][] = [];
+    let blockEnd = -Infinity;
+    for (const box of inDay) {
+      if (blocks.length > 0 && start(box, timeAxis) - blockEnd < lineHeight * CELL_GAP) {
+        blocks[blocks.length - 1].push(box);
+        blockEnd = Math.max(blockEnd, end(box, timeAxis));
+      } else {
+        blocks.push([box]);
+        blockEnd = end(box, timeAxis);
+      }
+    }
+
+    for (const block of blocks) {
+      // Slot of the block's first and last line (a little inside, for loose boxes).
+      // Text in a merged cell is centred across its slots, so it spans them too.
+      const first = bandIndex(slotBounds, Math.min(...block.map(b => start(b, timeAxis))) + lineHeight * 0.25);
+      const last = bandIndex(slotBounds, Math.max(...block.map(b => end(b, timeAxis))) - lineHeight * 0.25);
+      if (first === -1) continue;
+      const lastSlot = slots[last === -1 ? slots.length - 1 : Math.max(first, last)];
+
+      cells.push({
+        dayOfWeek: day,
+        startTime: slots[first].start,
+        endTime: lastSlot.end,
+        lines: groupLines(block).map(line => ({
+          text: line.map(b => b.text).join(' '),
+          confidence: minConfidence(line.map(b => b.confidence)),
+        })),
+        dayConfidence: header.confidence,
+        startConfidence: slots[first].startConfidence,
+        endConfidence: lastSlot.endConfidence,
+      });
+    }
+  });
+
+  return cells;
+}
+
+// Find the timetable grid in a page of positioned text. Returns null when the page
+// has no day headers with time labels beside them.
+export function extractGridCells(boxes: TextBox[], vocab: GridVocabulary): GridCell[] | null {
+  const phrases = mergePhrases(boxes);
+  return readGrid(phrases, vocab, 'x') ?? readGrid(phrases, vocab, 'y');
+}
@@ -0,0 +1,165 @@
+// Re-importing a timetable: parsed classes are matched against the events already
+// saved, so an updated timetable changes classes in place instead of doubling them.
+
+import { ClassEvent, OccurrenceException, addEvent, updateEvent, deleteEvent, saveException } from './db';
+import { syncEventReminders } from './reminderEngine';
+import { ParsedClass, ParsedException } from './pdfParser';
+import { formatClassTitle } from './courseDetails';
+
+export type ImportStatus = 'new' | 'changed' | 'unchanged';
+
+export interface ImportMatch {
+  status: ImportStatus;
+  event?: ClassEvent; // The saved event for changed and unchanged classes
+  changes: string[];  // What an update would change, for the review screen
+}
+
+export interface ImportItem {
+  cls: ParsedClass;
+  match: ImportMatch;
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// Dated events (exams, deadlines) need a longer lead than weekly classes
+export const DATED_IMPORT_REMINDERS = [60, 1440];
+
+// Brackets are ignored so "CS101 (Lab)" still matches a class saved as "CS101 Lab"
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[()[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Same course in the same place in the week (or on the same date for dated events)
+function isSameClass(cls: ParsedClass, event: ClassEvent): boolean {
+  if (normalizeTitle(formatClassTitle(cls)) !== normalizeTitle(event.title)) return false;
+  if (cls.date) return event.recurrence?.type === 'once' && event.recurrence.date === cls.date;
+  return event.recurrence?.type !== 'once' && event.dayOfWeek === cls.dayOfWeek;
+}
+
+// Whether an imported cancellation or move is already saved just like that
+function isSavedException(exception: ParsedException, saved: OccurrenceException | undefined): boolean {
+  return !!saved
+    && saved.cancelled === exception.cancelled
+    && saved.newDate === exception.newDate
+    && saved.newStartTime === exception.newStartTime
+    && saved.newEndTime === exception.newEndTime
+    && saved.newLocation === exception.newLocation;
+}
+
+// Fields an import would change on a saved event. Details the file doesn't have
+// (no room, no repeat rule) leave the saved values alone.
+function getChanges(cls: ParsedClass, event: ClassEvent, exceptions: OccurrenceException[]): string[] {
+  const changes: string[] = [];
+  if (cls.startTime !== event.startTime) changes.push('start');
+  if (cls.endTime !== event.endTime) changes.push('end');
+  if (cls.location && cls.location !== event.location) changes.push('location');
+  if (cls.recurrence && JSON.stringify(cls.recurrence) !== JSON.stringify(event.recurrence)) changes.push('repeat');
+  if (cls.color && cls.color !== event.color) changes.push('color');
+  if (cls.reminderMinutes && cls.reminderMinutes.join() !== event.reminderMinutes.join()) changes.push('reminders');
+  // Calendars bring cancelled and moved meetings (EXDATE, RECURRENCE-ID) on re-import too
+  const saved = new Map(exceptions.filter(e => e.eventId === event.id).map(e => [e.date, e]));
+  if ((cls.exceptions ?? []).some(exception => !isSavedException(exception, saved.get(exception.date)))) {
+    changes.push('meetings');
+  }
+  return changes;
+}
+
+// Pair each parsed class with at most one saved event. Matches at the same start
+// time win, so two sessions of a course on one day pair up with the right events.
+// Saved exceptions tell whether the file's cancellations and moves are new.
+export function matchClasses(
+  classes: ParsedClass[],
+  events: ClassEvent[],
+  exceptions: OccurrenceException[] = []
+): ImportMatch[] {
+  const used = new Set<string>();
+  const matched: (ClassEvent | undefined)[] = classes.map(() => undefined);
+
+  const pair = (sameTime: boolean) => {
+    classes.forEach((cls, i) => {
+      if (matched[i]) return;
+      const event = events.find(e =>
+        !used.has(e.id) && isSameClass(cls, e) && (!sameTime || e.startTime === cls.startTime)
+      );
+      if (event) {
+        used.add(event.id);
+        matched[i] = event;
+      }
+    });
+  };
+  pair(true);
+  pair(false);
+
+  return classes.map((cls, i) => {
+    const event = matched[i];
+    if (!event) return { status: 'new', changes: [] };
+    const changes = getChanges(cls, event, exceptions);
+    return { status: changes.length > 0 ? 'changed' : 'unchanged', event, changes };
+  });
+}
+
+// Saved weekly classes the imported timetable no longer lists
+export function findRemovedEvents(matches: ImportMatch[], events: ClassEvent[]): ClassEvent[] {
+  const matchedIds = new Set(matches.map(m => m.event?.id));
+  return events.filter(event =>
+    !matchedIds.has(event.id) && (event.kind ?? 'class') === 'class' && event.recurrence?.type !== 'once'
+  );
+}
+
+// Add new classes, update changed ones in place, delete the removed ones the user
+// picked, and schedule reminders for everything added or updated
+export async function applyImport(
+  items: ImportItem[],
+  removed: ClassEvent[],
+  defaultReminderMinutes: number[]
+): Promise<ImportResult> {
+  const result: ImportResult = { added: 0, updated: 0, removed: 0 };
+
+  for (const { cls, match } of items) {
+    let event: ClassEvent | null;
+
+    if (match.status === 'unchanged') {
+      continue;
+    } else if (match.status === 'changed' && match.event) {
+      const existing = match.event;
+      event = await updateEvent(existing.id, {
+        startTime: cls.startTime,
+        endTime: cls.endTime,
+        location: cls.location ?? existing.location,
+        color: cls.color ?? existing.color,
+        reminderMinutes: cls.reminderMinutes ?? existing.reminderMinutes,
+        ...(cls.recurrence ? { recurrence: cls.recurrence } : {}),
+      });
+      result.updated++;
+    } else {
+      event = await addEvent({
+        title: formatClassTitle(cls),
+        location: cls.location,
+        dayOfWeek: cls.dayOfWeek,
+        startTime: cls.startTime,
+        endTime: cls.endTime,
+        color: cls.color ?? '#3b82f6',
+        reminderMinutes: cls.reminderMinutes ?? (cls.date ? DATED_IMPORT_REMINDERS : defaultReminderMinutes),
+        voiceReminderEnabled: true,
+        ...(cls.date
+          ? { kind: cls.kind ?? 'extra', allDay: cls.allDay, recurrence: { type: 'once' as const, date: cls.date } }
+          : { recurrence: cls.recurrence }),
+      });
+      result.added++;
+    }
+
+    if (!event) continue;
+    for (const exception of cls.exceptions ?? []) {
+      await saveException({ ...exception, eventId: event.id });
+    }
+    await syncEventReminders(event);
+  }
+
+  for (const event of removed) {
+    if (await deleteEvent(event.id)) result.removed++;
+  }
+
+  return result;
+}
@@ -0,0 +1,150 @@
+// Languages timetables can be imported in: the Tesseract model to read them with
+// and the words the parser looks for. Day names are stored lower-case without
+// accents; text is compared through normalizeWord so "Miércoles" and an OCR'd
+// "Miercoles" both match.
+
+export type TimetableLanguage = 'en' | 'fr' | 'es' | 'de' | 'pt' | 'sw';
+
+export interface TimetableVocabulary {
+  days: Record<string, number>; // Day names and abbreviations, 0 = Sunday
+  rangeWords: string[];         // "9:00 to 10:30", "Mon to Thu"
+  listWords: string[];          // "Mon and Wed"
+  clockWords: string[];         // Written after a time: "14 Uhr", "9 hrs"
+}
+
+export interface TimetableLocale extends TimetableVocabulary {
+  label: string;     // In the language itself
+  tesseract: string; // Tesseract language data
+}
+
+export const TIMETABLE_LOCALES: Record<TimetableLanguage, TimetableLocale> = {
+  en: {
+    label: 'English',
+    tesseract: 'eng',
+    days: {
+      'sunday': 0, 'sun': 0,
+      'monday': 1, 'mon': 1,
+      'tuesday': 2, 'tue': 2, 'tues': 2,
+      'wednesday': 3, 'wed': 3,
+      'thursday': 4, 'thu': 4, 'thur': 4, 'thurs': 4,
+      'friday': 5, 'fri': 5,
+      'saturday': 6, 'sat': 6,
+    },
+    rangeWords: ['to', 'until', 'till', 'til', 'thru', 'through'],
+    listWords: ['and'],
+    clockWords: ['hrs'],
+  },
+  fr: {
+    label: 'Français',
+    tesseract: 'fra',
+    days: {
+      'dimanche': 0, 'dim': 0,
+      'lundi': 1, 'lun': 1,
+      'mardi': 2, 'mar': 2,
+      'mercredi': 3, 'mer': 3,
+      'jeudi': 4, 'jeu': 4,
+      'vendredi': 5, 'ven': 5,
+      'samedi': 6, 'sam': 6,
+    },
+    rangeWords: ['a', 'au', 'jusqu'],
+    listWords: ['et'],
+    clockWords: ['heures'],
+  },
+  es: {
+    label: 'Español',
+    tesseract: 'spa',
+    days: {
+      'domingo': 0, 'dom': 0,
+      'lunes': 1, 'lun': 1,
+      'martes': 2, 'mar': 2,
+      'miercoles': 3, 'mie': 3, 'mier': 3,
+      'jueves': 4, 'jue': 4,
+      'viernes': 5, 'vie': 5,
+      'sabado': 6, 'sab': 6,
+    },
+    rangeWords: ['a', 'al', 'hasta'],
+    listWords: ['y', 'e'],
+    clockWords: ['horas', 'hrs'],
+  },
+  de: {
+    label: 'Deutsch',
+    tesseract: 'deu',
+    days: {
+      'sonntag': 0, 'so': 0,
+      'montag': 1, 'mo': 1,
+      'dienstag': 2, 'di': 2,
+      'mittwoch': 3, 'mi': 3,
+      'donnerstag': 4, 'do': 4,
+      'freitag': 5, 'fr': 5,
+      'samstag': 6, 'sonnabend': 6, 'sa': 6,
+    },
+    rangeWords: ['bis'],
+    listWords: ['und'],
+    clockWords: ['uhr'],
+  },
+  pt: {
+    label: 'Português',
+    tesseract: 'por',
+    days: {
+      'domingo': 0, 'dom': 0,
+      'segunda': 1, 'segunda-feira': 1, 'seg': 1,
+      'terca': 2, 'terca-feira': 2, 'ter': 2,
+      'quarta': 3, 'quarta-feira': 3, 'qua': 3,
+      'quinta': 4, 'quinta-feira': 4, 'qui': 4,
+      'sexta': 5, 'sexta-feira': 5, 'sex': 5,
+      'sabado': 6, 'sab': 6,
+    },
+    rangeWords: ['a', 'as', 'ate'],
+    listWords: ['e'],
+    clockWords: ['horas'],
+  },
+  sw: {
+    label: 'Kiswahili',
+    tesseract: 'swa',
+    days: {
+      'jumapili': 0,
+      'jumatatu': 1,
+      'jumanne': 2,
+      'jumatano': 3,
+      'alhamisi': 4,
+      'ijumaa': 5,
+      'jumamosi': 6,
+    },
+    rangeWords: ['hadi', 'mpaka'],
+    listWords: ['na'],
+    clockWords: [],
+  },
+};
+
+export const DEFAULT_TIMETABLE_LANGUAGES: TimetableLanguage[] = ['en'];
+
+// Lower-case with accents removed, for comparing against the vocabulary
+export const normalizeWord = (word: string) =>
+  word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+
+// The words of several languages together, for timetables that mix them
+export function getVocabulary(languages: TimetableLanguage[]): TimetableVocabulary {
+  const locales = languages.map(language => TIMETABLE_LOCALES[language]);
+  return {
+    days: Object.assign({}, ...locales.map(locale => locale.days)),
+    rangeWords: [...new Set(locales.flatMap(locale => locale.rangeWords))],
+    listWords: [...new Set(locales.flatMap(locale => locale.listWords))],
+    clockWords: [...new Set(locales.flatMap(locale => locale.clockWords))],
+  };
+}
+
+// Tesseract language string, e.g. "eng+fra"
+export const getTesseractLanguages = (languages: TimetableLanguage[]) =>
+  languages.map(language => TIMETABLE_LOCALES[language].tesseract).join('+');
+
+// The browser's language, if timetables can be imported in it
+export function detectTimetableLanguage(): TimetableLanguage | null {
+  const code = typeof navigator !== 'undefined' ? navigator.language?.slice(0, 2) : undefined;
+  return code && code in TIMETABLE_LOCALES ? (code as TimetableLanguage) : null;
+}
+
+// Day number for a word ("Lundi", "mié.", "Jumatatu"), or undefined if it isn't a day
+export function lookupDay(vocab: TimetableVocabulary, word: string): number | undefined {
+  const key = normalizeWord(word.replace(/[.,:]$/, ''));
+  return Object.prototype.hasOwnProperty.call(vocab.days, key) ? vocab.days[key] : undefined;
+}
@@ -0,0 +1,102 @@
+// Runs PDF and image parsing in a Web Worker (timetableWorker.ts) and relays its
+// progress. Cancelling asks the worker to stop Tesseract cleanly before it is
+// terminated.
+
+import { parsePDFTimetable, parseImageTimetable, ParseOptions, ParseProgress, ParseResult } from './pdfParser';
+import { TimetableLanguage } from './timetableLocales';
+import { PreprocessOptions } from './imagePreprocess';
+import { TimetableTemplate } from './db';
+
+export type ParseKind = 'pdf' | 'image';
+
+export type ParseRequest =
+  | {
+      type: 'parse';
+      file: File;
+      kind: ParseKind;
+      languages?: TimetableLanguage[];
+      preprocess?: PreprocessOptions;
+      template?: TimetableTemplate;
+      templates?: TimetableTemplate[];
+    }
+  | { type: 'cancel' };
+
+export type ParseResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; result: ParseResult }
+  | { type: 'error'; message: string }
+  | { type: 'cancelled' };
+
+// How long a cancelled worker gets to shut OCR down before it is terminated
+const CANCEL_GRACE_PERIOD = 2000;
+
+const abortError = () => new DOMException('Parsing cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Parse a PDF or image timetable off the main thread. Rejects with an AbortError
+// when the signal fires.
+export function parseTimetableFile(
+  file: File,
+  kind: ParseKind,
+  onProgress?: (progress: ParseProgress) => void,
+  { signal, ...options }: ParseOptions = {}
+): Promise<ParseResult> {
+  // Environments without workers (tests, very old browsers) parse in place
+  if (typeof Worker === 'undefined') {
+    const parse = kind === 'pdf' ? parsePDFTimetable : parseImageTimetable;
+    return parse(file, onProgress, { signal, ...options });
+  }
+
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./timetableWorker.ts', import.meta.url), { type: 'module' });
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', cancel);
+      worker.terminate();
+    };
+
+    const cancel = () => {
+      worker.postMessage({ type: 'cancel' } satisfies ParseRequest);
+      killTimer = setTimeout(() => {
+        finish();
+        reject(abortError());
+      }, CANCEL_GRACE_PERIOD);
+    };
+
+    worker.addEventListener('message', (event: MessageEvent<ParseResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          if (!signal?.aborted) onProgress?.(message.progress);
+          break;
+        case 'done':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+        case 'cancelled':
+          finish();
+          reject(abortError());
+          break;
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      console.error('Parsing worker error:', event.message);
+      finish();
+      reject(new Error('Failed to parse file. Please try a different file or enter classes manually.'));
+    });
+
+    signal?.addEventListener('abort', cancel);
+    worker.postMessage({ type: 'parse', file, kind, ...options } satisfies ParseRequest);
+  });
+}
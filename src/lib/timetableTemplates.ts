@@ -0,0 +1,291 @@
+// Parsing templates for the timetables one institution exports: which column
+// holds the day, which clock times are written in, what room and course codes
+// look like and which lines to skip. A template is made from an import the user
+// has corrected, picked for the next document whose header matches, and shared
+// with classmates as a JSON file.
+
+import { z } from 'zod';
+import { TimetableTemplate } from './db';
+import { ClockFormat } from './timeRange';
+import { normalizeWord } from './timetableLocales';
+
+export type TemplateDraft = Omit<TimetableTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const TEMPLATE_FORMAT = 'classping-template';
+export const TEMPLATE_VERSION = 1;
+
+export const CLOCK_FORMAT_LABELS: Record<ClockFormat, string> = {
+  auto: 'Automatic',
+  '12h': '12-hour',
+  '24h': '24-hour',
+};
+
+// Lines at the top of a document that make up its header
+const HEADER_LINES = 5;
+const MAX_FINGERPRINT_WORDS = 40;
+// Share of a template's header words a document needs before it is read with it
+export const TEMPLATE_MATCH_THRESHOLD = 0.6;
+// Differently shaped examples a pattern is built from before it stops being useful
+const MAX_PATTERN_SHAPES = 4;
+
+// A template's rules, compiled for the parser
+export interface TemplateRules {
+  dayColumn?: number;
+  clock: ClockFormat;
+  roomPattern?: RegExp;
+  courseCodePattern?: RegExp;
+  ignorePatterns: RegExp[];
+}
+
+// Longest pattern a template can carry; generated ones stay well under it
+const MAX_PATTERN_LENGTH = 300;
+
+// Whether a repeated group can match the same text in more than one way: it repeats
+// or makes something optional inside ("(a+)+", "(a?)*") or has alternatives
+// ("(a|aa)+"). Those can backtrack exponentially on text that almost matches.
+function hasAmbiguousRepeat(pattern: string): boolean {
+  const groups: boolean[] = []; // For each open group, whether it repeats or branches inside
+  let closedAmbiguous = false;  // Whether the group that just closed does
+  const mark = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    const afterAmbiguousGroup = closedAmbiguous;
+    closedAmbiguous = false;
+
+    if (c === '\\') {
+      i++;
+    } else if (c === '[') {
+      // Quantifier characters in a character class are literal
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (c === '(') {
+      groups.push(false);
+      // The "?" in "(?:", "(?=", "(?<!" and "(?<name>" isn't a quantifier
+      const syntax = pattern.slice(i + 1).match(/^\?(?:[:=!]|<[=!]|<[A-Za-z_]\w*>)/);
+      if (syntax) i += syntax[0].length;
+    } else if (c === ')') {
+      closedAmbiguous = groups.pop() ?? false;
+      if (closedAmbiguous) mark();
+    } else if (c === '|') {
+      mark();
+    } else if (c === '*' || c === '+' || c === '{') {
+      if (afterAmbiguousGroup) return true;
+      mark();
+    } else if (c === '?') {
+      mark();
+    }
+  }
+  return false;
+}
+
+// Patterns come from shared files too, so besides compiling they must be safe to
+// run on every line of a document
+export function isValidPattern(pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH || hasAmbiguousRepeat(pattern)) return false;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Words from a document's first lines: the institution, department and column
+// headings. Numbers are left out since dates and week numbers change.
+export function getHeaderFingerprint(text: string): string[] {
+  const lines = text.split('\n').filter(line => line.trim()).slice(0, HEADER_LINES);
+  const words = lines.flatMap(line => [...line.matchAll(/\p{L}{3,}/gu)].map(match => normalizeWord(match[0])));
+  return [...new Set(words)].slice(0, MAX_FINGERPRINT_WORDS);
+}
+
+// Share (0-1) of the template's header words that are in the document's header
+export function scoreTemplate(template: Pick<TimetableTemplate, 'fingerprint'>, fingerprint: string[]): number {
+  if (template.fingerprint.length === 0) return 0;
+  const words = new Set(fingerprint);
+  return template.fingerprint.filter(word => words.has(word)).length / template.fingerprint.length;
+}
+
+// The template whose header best matches the document's, if one matches well enough
+export function selectTemplate(templates: TimetableTemplate[], fingerprint: string[]): TimetableTemplate | null {
+  let best: TimetableTemplate | null = null;
+  let bestScore = 0;
+  for (const template of templates) {
+    const score = scoreTemplate(template, fingerprint);
+    if (score >= TEMPLATE_MATCH_THRESHOLD && score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Room and course code patterns are case-sensitive; lines to ignore are not
+export function compileTemplate(template: TemplateDraft): TemplateRules {
+  const compile = (pattern: string | undefined, flags = '') =>
+    pattern && isValidPattern(pattern) ? new RegExp(pattern, flags) : undefined;
+  return {
+    dayColumn: template.dayColumn,
+    clock: template.timeFormat,
+    roomPattern: compile(template.roomPattern),
+    courseCodePattern: compile(template.courseCodePattern),
+    ignorePatterns: template.ignorePatterns
+      .map(pattern => compile(pattern, 'i'))
+      .filter((pattern): pattern is RegExp => pattern !== undefined),
+  };
+}
+
+interface Run {
+  kind: 'caps' | 'word' | 'digits' | 'space' | 'other';
+  text: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+
+function toRuns(value: string): Run[] {
+  return [...value.matchAll(/[A-Z]+(?![a-z])|[A-Za-z]+|\d+|\s+|./g)].map(([text]) => ({
+    kind: /^[A-Z]+$/.test(text) ? 'caps'
+      : /^[A-Za-z]+$/.test(text) ? 'word'
+      : /^\d+$/.test(text) ? 'digits'
+      : /^\s+$/.test(text) ? 'space'
+      : 'other',
+    text,
+  }));
+}
+
+const quantifier = (min: number, max: number) =>
+  min === max ? (min === 1 ? '' : `{${min}}`) : `{${min},${max}}`;
+
+// One run position across examples of the same shape. Words every example
+// shares ("Room") stay as written; capitals and digits vary ("B204", "LT12").
+function runPattern(runs: Run[]): string {
+  const { kind, text } = runs[0];
+  const lengths = runs.map(run => run.text.length);
+  const count = quantifier(Math.min(...lengths), Math.max(...lengths));
+  switch (kind) {
+    case 'caps':
+      return `[A-Z]${count}`;
+    case 'word':
+      return runs.every(run => run.text === text) ? escapeRegExp(text) : `[A-Za-z]${count}`;
+    case 'digits':
+      return `\\d${count}`;
+    case 'space':
+      return '\\s+';
+    default:
+      return escapeRegExp(text);
+  }
+}
+
+// A pattern matching values written like the examples, e.g. "B204" and "LT12"
+// give "[A-Z]\d{3}" and "[A-Z]{2}\d{2}". Undefined when there are no examples
+// or they are too varied to describe.
+export function patternFromExamples(values: string[]): string | undefined {
+  const shapes = new Map<string, Run[][]>();
+  for (const value of new Set(values.map(v => v.trim()).filter(Boolean))) {
+    const runs = toRuns(value);
+    const key = runs.map(run => (run.kind === 'other' ? run.text : run.kind)).join('|');
+    shapes.set(key, [...(shapes.get(key) ?? []), runs]);
+  }
+  if (shapes.size === 0 || shapes.size > MAX_PATTERN_SHAPES) return undefined;
+
+  const alternatives = [...shapes.values()].map(examples =>
+    examples[0].map((_, i) => runPattern(examples.map(runs => runs[i]))).join('')
+  );
+  const body = alternatives.length === 1 ? alternatives[0] : `(?:${alternatives.join('|')})`;
+  // Not in the middle of a longer word or number
+  const source = `(?<!\\w)${body}(?!\\w)`;
+  return source.length <= MAX_PATTERN_LENGTH ? source : undefined;
+}
+
+// A template for the corrected classes of an import: room and course code
+// patterns are worked out from them, anything else comes from `base` (the
+// template the document was read with, if any)
+export function draftTemplate(
+  classes: { location?: string; courseCode?: string }[],
+  fingerprint: string[],
+  base?: TemplateDraft
+): TemplateDraft {
+  const rooms = classes.map(cls => cls.location ?? '');
+  const codes = classes.map(cls => cls.courseCode ?? '');
+  return {
+    name: base?.name ?? '',
+    fingerprint,
+    dayColumn: base?.dayColumn,
+    timeFormat: base?.timeFormat ?? 'auto',
+    roomPattern: patternFromExamples(rooms) ?? base?.roomPattern,
+    courseCodePattern: patternFromExamples(codes) ?? base?.courseCodePattern,
+    ignorePatterns: base?.ignorePatterns ?? [],
+  };
+}
+
+const pattern = z.string().refine(isValidPattern, 'Not a valid or safe pattern');
+
+// Mirrors TemplateDraft; backup.ts extends it with the stored fields
+export const templateDraftSchema = z.object({
+  name: z.string().min(1),
+  fingerprint: z.array(z.string()),
+  dayColumn: z.number().int().nonnegative().optional(),
+  timeFormat: z.enum(['auto', '12h', '24h']),
+  roomPattern: pattern.optional(),
+  courseCodePattern: pattern.optional(),
+  ignorePatterns: z.array(pattern),
+});
+
+export interface TemplateFile {
+  format: typeof TEMPLATE_FORMAT;
+  version: number;
+  exportedAt: number;
+  template: TemplateDraft;
+}
+
+const templateFileSchema = z.object({
+  format: z.literal(TEMPLATE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.number(),
+  template: z.unknown(),
+});
+
+// A template as a file to share; IDs and timestamps stay on this device
+export function createTemplateFile(template: TemplateDraft): TemplateFile {
+  const { name, fingerprint, dayColumn, timeFormat, roomPattern, courseCodePattern, ignorePatterns } = template;
+  return {
+    format: TEMPLATE_FORMAT,
+    version: TEMPLATE_VERSION,
+    exportedAt: Date.now(),
+    template: { name, fingerprint, dayColumn, timeFormat, roomPattern, courseCodePattern, ignorePatterns },
+  };
+}
+
+// File name like classping-template-state-university.json
+export function getTemplateFileName(template: Pick<TimetableTemplate, 'name'>): string {
+  const slug = normalizeWord(template.name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${TEMPLATE_FORMAT}-${slug || 'timetable'}.json`;
+}
+
+// Parse and validate a shared template file
+export function parseTemplateFile(text: string): TemplateDraft {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const file = templateFileSchema.safeParse(json);
+  if (!file.success) {
+    throw new Error('This is not a ClassPing timetable template');
+  }
+  if (file.data.version > TEMPLATE_VERSION) {
+    throw new Error('This template was made by a newer version of ClassPing');
+  }
+
+  const template = templateDraftSchema.safeParse(file.data.template);
+  if (!template.success) {
+    const issue = template.error.issues[0];
+    throw new Error(`This template is damaged (${issue.path.join('.') || 'template'}: ${issue.message})`);
+  }
+  return template.data as TemplateDraft;
+}
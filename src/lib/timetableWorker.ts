@@ -0,0 +1,49 @@
+/// <reference lib="webworker" />
+// Timetable parsing worker: PDF rendering and OCR run here so the app stays
+// responsive. Speaks the protocol in timetableParsing.ts.
+
+import { parsePDFTimetable, parseImageTimetable } from './pdfParser';
+import type { ParseRequest, ParseResponse } from './timetableParsing';
+
+declare let self: DedicatedWorkerGlobalScope;
+
+let controller: AbortController | null = null;
+
+const post = (message: ParseResponse) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<ParseRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  controller = new AbortController();
+  const { signal } = controller;
+  const parse = request.kind === 'pdf' ? parsePDFTimetable : parseImageTimetable;
+
+  try {
+    const result = await parse(
+      request.file,
+      (progress) => post({ type: 'progress', progress }),
+      {
+        signal,
+        languages: request.languages,
+        preprocess: request.preprocess,
+        template: request.template,
+        templates: request.templates,
+      }
+    );
+    post({ type: 'done', result });
+  } catch (error) {
+    // The parser stops Tesseract and releases the PDF before rethrowing an abort
+    if (signal.aborted) {
+      post({ type: 'cancelled' });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse file' });
+    }
+  } finally {
+    controller = null;
+  }
+});
@@ -4,6 +4,7 @@ import { BottomNav } from '@/components/BottomNav';
 import { TodayView } from '@/components/TodayView';
 import { TimetableView } from '@/components/TimetableView';
 import { RemindersView } from '@/components/RemindersView';
+import { TasksView } from '@/components/TasksView';
 import { SettingsView } from '@/components/SettingsView';
 import { EventForm } from '@/components/EventForm';
 import { TimetableUpload } from '@/components/TimetableUpload';
@@ -97,7 +98,7 @@ const Index = () => {
     setEditingEvent(undefined);
   }, []);
 
-  const handleUploadClassesAdded = useCallback(() => {
+  const handleClassesAdded = useCallback(() => {
     setRefreshKey(k => k + 1);
   }, []);
 
@@ -109,6 +110,7 @@ const Index = () => {
             key={`today-${refreshKey}`}
             onEditEvent={handleEditEvent} 
             onDeleteEvent={handleDeleteEvent} 
+            onClassesAdded={handleClassesAdded}
           />
         );
       case 'timetable':
@@ -118,14 +120,17 @@ const Index = () => {
             onEditEvent={handleEditEvent} 
             onDeleteEvent={handleDeleteEvent}
             onUploadClick={() => setIsUploadOpen(true)}
+            onClassesAdded={handleClassesAdded}
           />
         );
+      case 'tasks':
+        return <TasksView key={`tasks-${refreshKey}`} />;
       case 'reminders':
         return <RemindersView key={`reminders-${refreshKey}`} />;
       case 'settings':
         return <SettingsView />;
       default:
-        return <TodayView onEditEvent={handleEditEvent} onDeleteEvent={handleDeleteEvent} />;
+        return <TodayView onEditEvent={handleEditEvent} onDeleteEvent={handleDeleteEvent} onClassesAdded={handleClassesAdded} />;
     }
   };
 
@@ -173,7 +178,7 @@ const Index = () => {
       <TimetableUpload
         isOpen={isUploadOpen}
         onClose={() => setIsUploadOpen(false)}
-        onClassesAdded={handleUploadClassesAdded}
+        onClassesAdded={handleClassesAdded}
       />
     </div>
   );
@@ -0,0 +1,260 @@
+/// <reference lib="webworker" />
+// ClassPing service worker: precaching plus background reminders.
+// Reminders are read from the same IndexedDB store and fired through the same
+// engine as the app, so foreground and background never disagree.
+
+import { precacheAndRoute, cleanupOutdatedCaches, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute, NavigationRoute } from 'workbox-routing';
+import { CacheFirst } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { clientsClaim } from 'workbox-core';
+import { getSettings } from './lib/db';
+import { runReminderPass, completeTask, DueReminder } from './lib/reminderEngine';
+
+declare let self: ServiceWorkerGlobalScope;
+
+const REMINDER_CHECK_INTERVAL = 30000; // 30 seconds
+const MAX_ALARM_DURATION = 5 * 60 * 1000; // Stop alarming after 5 minutes
+const SNOOZE_DURATION = 5 * 60 * 1000;
+
+interface ReminderNotificationData {
+  reminderId: string;
+  eventId?: string;
+  taskId?: string;
+  eventTitle?: string;
+  location?: string;
+  minutesBefore?: number;
+}
+
+// Precaching and runtime caching
+self.skipWaiting();
+clientsClaim();
+cleanupOutdatedCaches();
+precacheAndRoute(self.__WB_MANIFEST);
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+
+registerRoute(
+  ({ url }) => url.origin === 'https://fonts.googleapis.com',
+  new CacheFirst({
+    cacheName: 'google-fonts-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: 10, maxAgeSeconds: 60 * 60 * 24 * 365 }), // 1 year
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+registerRoute(
+  ({ url }) => url.origin === 'https://fonts.gstatic.com',
+  new CacheFirst({
+    cacheName: 'gstatic-fonts-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: 10, maxAgeSeconds: 60 * 60 * 24 * 365 }), // 1 year
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+// OCR cores and non-English language data aren't precached; keep them once fetched
+// so a timetable photo can be read offline the next time
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && url.pathname.startsWith('/tesseract/'),
+  new CacheFirst({
+    cacheName: 'tesseract-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: 20 }),
+      new CacheableResponsePlugin({ statuses: [200] }),
+    ],
+  })
+);
+
+// Track unacknowledged reminders that need to keep alarming
+const unacknowledgedReminders = new Map<string, ReturnType<typeof setInterval>>();
+
+function showAlarmNotification(title: string, body: string, data: ReminderNotificationData): Promise<void> {
+  return self.registration.showNotification(title, {
+    body,
+    icon: '/pwa-192x192.png',
+    badge: '/pwa-192x192.png',
+    tag: data.reminderId,
+    requireInteraction: true,
+    vibrate: [300, 100, 300, 100, 300, 100, 500],
+    actions: [
+      data.taskId ? { action: 'complete', title: '✓ Mark done' } : { action: 'ok', title: '✓ Got it!' },
+      { action: 'snooze', title: '⏰ Snooze 5min' }
+    ],
+    data,
+  } as NotificationOptions);
+}
+
+// Start alarm loop - keeps re-triggering until user clicks "Got it!"
+async function startAlarmLoop(title: string, body: string, data: ReminderNotificationData): Promise<void> {
+  // Don't duplicate
+  if (unacknowledgedReminders.has(data.reminderId)) return;
+
+  const settings = await getSettings();
+  const retriggerInterval = (settings.alarmRetriggerInterval || 15) * 1000;
+  const startTime = Date.now();
+
+  if (settings.notificationsEnabled) {
+    await showAlarmNotification(title, body, data);
+  }
+
+  // Re-trigger every interval until acknowledged or 5 min max
+  const intervalId = setInterval(() => {
+    if (!unacknowledgedReminders.has(data.reminderId)) {
+      clearInterval(intervalId);
+      return;
+    }
+    // Auto-stop after 5 minutes to save battery
+    if (Date.now() - startTime > MAX_ALARM_DURATION) {
+      stopAlarmLoop(data.reminderId);
+      return;
+    }
+    // Re-show notification (replaces previous via same tag)
+    if (settings.notificationsEnabled) {
+      showAlarmNotification(title, body, data);
+    }
+  }, retriggerInterval);
+
+  unacknowledgedReminders.set(data.reminderId, intervalId);
+}
+
+// Stop alarm loop for a reminder and notify frontend
+async function stopAlarmLoop(reminderId: string): Promise<void> {
+  const intervalId = unacknowledgedReminders.get(reminderId);
+  if (intervalId) {
+    clearInterval(intervalId);
+    unacknowledgedReminders.delete(reminderId);
+  }
+  // Notify all app windows to stop their alarm too
+  const windowClients = await self.clients.matchAll({ type: 'window' });
+  windowClients.forEach((client) => {
+    client.postMessage({ type: 'REMINDER_ACKNOWLEDGED', reminderId });
+  });
+}
+
+// Mark a task done from its notification, stop the alarm and let open windows refresh
+async function completeTaskFromNotification(data: ReminderNotificationData): Promise<void> {
+  await stopAlarmLoop(data.reminderId);
+  if (!data.taskId) return;
+
+  await completeTask(data.taskId);
+  const windowClients = await self.clients.matchAll({ type: 'window' });
+  windowClients.forEach((client) => {
+    client.postMessage({ type: 'TASK_COMPLETED', taskId: data.taskId, reminderId: data.reminderId });
+  });
+}
+
+function fireReminder({ reminder, event, task, title, message }: DueReminder): Promise<void> {
+  return startAlarmLoop(title, message, {
+    reminderId: reminder.id,
+    eventId: event.id,
+    taskId: task?.id,
+    eventTitle: task?.title ?? event.title,
+    location: task ? undefined : event.location,
+    minutesBefore: reminder.minutesBefore,
+  });
+}
+
+// Check for due reminders and show notifications
+async function checkReminders(): Promise<void> {
+  // A visible app window fires reminders itself (with voice), so stay out of its way
+  const windowClients = await self.clients.matchAll({ type: 'window' });
+  if (windowClients.some((client) => client.visibilityState === 'visible')) return;
+
+  try {
+    await runReminderPass(fireReminder);
+  } catch (e) {
+    console.warn('SW: Reminder check failed:', e);
+  }
+}
+
+// Handle notification clicks
+self.addEventListener('notificationclick', (event) => {
+  const action = event.action;
+  const data: ReminderNotificationData = event.notification.data || {};
+
+  event.notification.close();
+
+  if (action === 'ok') {
+    // User clicked "Got it!" - STOP the alarm loop
+    event.waitUntil(stopAlarmLoop(data.reminderId));
+  } else if (action === 'complete') {
+    // User finished the task straight from the reminder
+    event.waitUntil(completeTaskFromNotification(data));
+  } else if (action === 'snooze') {
+    // Stop current alarm, start new one after 5 min
+    event.waitUntil(
+      (async () => {
+        await stopAlarmLoop(data.reminderId);
+        await new Promise(resolve => setTimeout(resolve, SNOOZE_DURATION));
+        const snoozeMessage = data.taskId
+          ? `This is your snoozed reminder for ${data.eventTitle}. Time to get it done!`
+          : `This is your snoozed reminder for ${data.eventTitle || 'your class'}. Time to go${data.location ? ` to ${data.location}` : ''}!`;
+        await startAlarmLoop(`⏰ ${data.eventTitle || 'Your class'}`, snoozeMessage, {
+          ...data,
+          reminderId: `snooze-${Date.now()}`,
+        });
+      })()
+    );
+  } else {
+    // Default click (tapped notification body) - stop alarm and open app
+    event.waitUntil(
+      (async () => {
+        await stopAlarmLoop(data.reminderId);
+        const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        for (const client of clientList) {
+          if (client.url.includes(self.location.origin) && 'focus' in client) {
+            await client.focus();
+            return;
+          }
+        }
+        await self.clients.openWindow('/');
+      })()
+    );
+  }
+});
+
+// Periodic background sync for reminders (when supported)
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as ExtendableEvent & { tag: string };
+  if (syncEvent.tag === 'check-reminders') {
+    syncEvent.waitUntil(checkReminders());
+  }
+});
+
+// Listen for messages from the main app
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CHECK_REMINDERS') {
+    event.waitUntil(checkReminders());
+  }
+});
+
+// Set up periodic checking when SW activates
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      // Try to register periodic sync (Chrome only, requires PWA install)
+      const registration = self.registration as ServiceWorkerRegistration & {
+        periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+      };
+      if (registration.periodicSync) {
+        try {
+          await registration.periodicSync.register('check-reminders', {
+            minInterval: REMINDER_CHECK_INTERVAL
+          });
+        } catch (e) {
+          console.log('SW: Periodic sync not available, using interval');
+        }
+      }
+
+      // Fallback: use setInterval for checking while the worker is alive
+      setInterval(checkReminders, REMINDER_CHECK_INTERVAL);
+
+      // Initial check
+      await checkReminders();
+    })()
+  );
+});
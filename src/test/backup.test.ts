@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { AppSettings, ClassEvent, DataSnapshot, DB_VERSION, Reminder } from "@/lib/db";
+import { BackupFile, BACKUP_FORMAT, BACKUP_VERSION, parseBackup, planRestore } from "@/lib/backup";
+
+const SETTINGS: AppSettings = {
+  id: "app-settings",
+  notificationsEnabled: true,
+  voiceRemindersEnabled: false,
+  defaultReminderMinutes: [10, 30],
+  voiceVolume: 1,
+  voiceRate: 1,
+  alarmRetriggerInterval: 15,
+  theme: "system",
+  colorTheme: "coral",
+  onboardingCompleted: true,
+  permissionAskedAt: null,
+  timetableLanguages: ["en", "fr"],
+};
+
+const snapshot = (overrides: Partial<DataSnapshot> = {}): DataSnapshot => ({
+  events: [],
+  reminders: [],
+  settings: null,
+  summaries: [],
+  terms: [],
+  exceptions: [],
+  tasks: [],
+  templates: [],
+  ...overrides,
+});
+
+const event = (id: string, title: string, overrides: Partial<ClassEvent> = {}): ClassEvent => ({
+  id,
+  title,
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "10:30",
+  color: "#3b82f6",
+  reminderMinutes: [10],
+  voiceReminderEnabled: false,
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides,
+});
+
+const reminder = (id: string, eventId: string, triggered: boolean): Reminder => ({
+  id,
+  eventId,
+  scheduledTime: 0,
+  minutesBefore: 10,
+  triggered,
+  missed: false,
+});
+
+const backupFile = (data: DataSnapshot): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  dbVersion: DB_VERSION,
+  exportedAt: 0,
+  data,
+});
+
+describe("parseBackup", () => {
+  it("keeps every setting, timetable languages included", () => {
+    const { backup, invalid } = parseBackup(JSON.stringify(backupFile(snapshot({ settings: SETTINGS }))));
+    expect(invalid).toEqual([]);
+    expect(backup.data.settings).toEqual(SETTINGS);
+  });
+
+  it("reports settings with a language that can't be read", () => {
+    const settings = { ...SETTINGS, timetableLanguages: ["xx"] };
+    const { backup, invalid } = parseBackup(JSON.stringify(backupFile(snapshot({ settings: settings as AppSettings }))));
+    expect(backup.data.settings).toBeNull();
+    expect(invalid).toHaveLength(1);
+  });
+});
+
+describe("planRestore", () => {
+  it("replaces everything with the backup", () => {
+    const current = snapshot({ events: [event("e1", "Calculus"), event("e2", "Physics")], settings: SETTINGS });
+    const backup = backupFile(snapshot({ events: [event("e1", "Calculus", { location: "LT1" }), event("e3", "Chemistry")] }));
+
+    const plan = planRestore(backup, current, "replace");
+    expect(plan.snapshot).toBe(backup.data);
+    expect(plan.changes.events).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 1 });
+    // A backup without settings leaves this device's alone
+    expect(plan.changes.settings).toEqual({ added: 0, updated: 0, unchanged: 0, removed: 0 });
+    expect([plan.addedEvents, plan.updatedEvents, plan.removedEvents]).toEqual([["Chemistry"], ["Calculus"], ["Physics"]]);
+  });
+
+  it("merges a backed-up class into the saved one with the same title, day and time", () => {
+    const current = snapshot({ events: [event("local", "Calculus", { createdAt: 5 })], settings: SETTINGS });
+    const backup = backupFile(snapshot({
+      events: [event("b1", "calculus ", { location: "LT1" }), event("b2", "Physics", { dayOfWeek: 2 })],
+      reminders: [reminder("r1", "b1", true), reminder("r2", "b1", false)],
+      exceptions: [{ id: "b1@2026-10-19", eventId: "b1", date: "2026-10-19", cancelled: true, createdAt: 1 }],
+      tasks: [{
+        id: "t1", eventId: "b1", title: "Problem set", dueDate: "2026-10-23", dueTime: "23:59",
+        status: "todo", priority: "medium", reminderMinutes: [], createdAt: 1, updatedAt: 1,
+      }],
+      settings: { ...SETTINGS, theme: "dark" },
+    }));
+
+    const plan = planRestore(backup, current, "merge");
+    expect(plan.snapshot.events.map(e => [e.id, e.createdAt])).toEqual([["local", 5], ["b2", 1]]);
+    expect(plan.snapshot.reminders).toEqual([reminder("r1", "local", true)]);
+    expect(plan.snapshot.exceptions).toEqual([expect.objectContaining({ id: "local@2026-10-19", eventId: "local" })]);
+    expect(plan.snapshot.tasks).toEqual([expect.objectContaining({ id: "t1", eventId: "local" })]);
+    expect(plan.snapshot.settings).toBeNull();
+    expect(plan.changes.events).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 0 });
+    expect([plan.addedEvents, plan.updatedEvents, plan.removedEvents]).toEqual([["Physics"], ["calculus "], []]);
+  });
+});
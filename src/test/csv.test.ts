@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { ClassEvent } from "@/lib/db";
+import { detectMapping, eventsToCSV, parseCSV, rowsToClasses } from "@/lib/csv";
+
+const event = (overrides: Partial<ClassEvent>): ClassEvent => ({
+  id: "e1",
+  title: "Calculus",
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "10:30",
+  color: "#3b82f6",
+  reminderMinutes: [10, 30],
+  voiceReminderEnabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const importCSV = (text: string) => {
+  const [header, ...rows] = parseCSV(text);
+  return rowsToClasses(rows, detectMapping(header));
+};
+
+describe("CSV export and import", () => {
+  it("round-trips weekly classes and dated events", () => {
+    const csv = eventsToCSV([
+      event({ location: 'Room 4, "North"' }),
+      event({ id: "e2", title: "Calculus midterm", dayOfWeek: 6, kind: "exam", recurrence: { type: "once", date: "2026-11-14" } }),
+      event({
+        id: "e3", title: "Essay", dayOfWeek: 5, startTime: "00:00", endTime: "23:59", kind: "deadline", allDay: true,
+        recurrence: { type: "once", date: "2026-11-20" },
+      }),
+    ]);
+    const { classes, skippedRows } = importCSV(csv);
+    expect(skippedRows).toEqual([]);
+    expect(classes).toEqual([
+      expect.objectContaining({ title: "Calculus", dayOfWeek: 1, startTime: "09:00", endTime: "10:30", location: 'Room 4, "North"', reminderMinutes: [10, 30] }),
+      expect.objectContaining({ title: "Essay", dayOfWeek: 5, date: "2026-11-20", kind: "deadline", allDay: true }),
+      expect.objectContaining({ title: "Calculus midterm", dayOfWeek: 6, date: "2026-11-14", kind: "exam", allDay: false }),
+    ]);
+    expect(classes[0]).not.toHaveProperty("date");
+  });
+
+  it("reads department spreadsheets with other headers and day lists", () => {
+    const { classes, skippedRows } = importCSV("Course;Days;From;Venue\nPhysics;Mon/Wed;2:00 PM;Hall B\n;Tue;9am;\n");
+    expect(classes.map(c => [c.title, c.dayOfWeek, c.startTime, c.endTime, c.location])).toEqual([
+      ["Physics", 1, "14:00", "15:00", "Hall B"],
+      ["Physics", 3, "14:00", "15:00", "Hall B"],
+    ]);
+    expect(skippedRows).toEqual([2]);
+  });
+
+  // Start and end cells, and the times read from them
+  it.each([
+    ["9.00", "10.30", "09:00", "10:30"],
+    ["14h", "16h", "14:00", "16:00"],
+    ["0930", "1045", "09:30", "10:45"],
+    ["2:30 pm", "", "14:30", "15:30"],
+    ["9-11am", "", "09:00", "11:00"],
+    ["11:00 - 12:30", "", "11:00", "12:30"],
+  ])("reads times written as %s / %s", (start, end, startTime, endTime) => {
+    const { classes, skippedRows } = importCSV(`Title,Day,Start,End\nCalculus,Mon,${start},${end}\n`);
+    expect(skippedRows).toEqual([]);
+    expect(classes[0]).toMatchObject({ startTime, endTime });
+  });
+
+  it("skips rows whose start isn't a time", () => {
+    expect(importCSV("Title,Day,Start\nCalculus,Mon,9\nPhysics,Tue,TBA\n").skippedRows).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { ClassEvent, OccurrenceException, Term } from "@/lib/db";
+import { generateICS } from "@/lib/ics";
+import { parseICS } from "@/lib/icsParser";
+
+const event = (overrides: Partial<ClassEvent>): ClassEvent => ({
+  id: "e1",
+  title: "Calculus",
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "10:30",
+  color: "#3b82f6",
+  reminderMinutes: [10],
+  voiceReminderEnabled: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const NOW = new Date(2026, 9, 19, 8, 0);
+
+const TERM: Term = {
+  id: "fall",
+  name: "Fall 2026",
+  startDate: "2026-09-07",
+  endDate: "2026-12-11",
+  breaks: [{ id: "b1", label: "Reading week", startDate: "2026-10-26", endDate: "2026-10-30" }],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe("generateICS", () => {
+  it("exports each BYDAY class with its own share of COUNT", () => {
+    const recurrence = { type: "rrule" as const, rule: "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3", startDate: "2026-10-21" };
+    const ics = generateICS([
+      event({ recurrence }),
+      event({ id: "e2", dayOfWeek: 3, recurrence }),
+    ], [], [], NOW);
+
+    expect(ics).toContain("DTSTART:20261026T090000\r\nDTEND:20261026T103000\r\nRRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=1");
+    expect(ics).toContain("DTSTART:20261021T090000\r\nDTEND:20261021T103000\r\nRRULE:FREQ=WEEKLY;BYDAY=WE;COUNT=2");
+  });
+
+  it("ends an all-day series with a DATE UNTIL like its DTSTART", () => {
+    const ics = generateICS([
+      event({ title: "Field trip", startTime: "00:00", endTime: "23:59", allDay: true, termId: "fall" }),
+    ], [TERM], [], NOW);
+
+    expect(ics).toContain("DTSTART;VALUE=DATE:20260907\r\nDTEND;VALUE=DATE:20260908\r\n");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20261207\r\n");
+    expect(parseICS(ics, NOW)[0]).toMatchObject({
+      recurrence: { type: "rrule", rule: "FREQ=WEEKLY;UNTIL=20261207", startDate: "2026-09-07" },
+    });
+  });
+});
+
+describe("parseICS", () => {
+  it("reads back an exported timetable", () => {
+    const title = "Calculus; Part II, with a title long enough to be folded";
+    const exceptions: OccurrenceException[] = [
+      { id: "e1@2026-10-19", eventId: "e1", date: "2026-10-19", cancelled: true, createdAt: 0 },
+      {
+        id: "e1@2026-11-02", eventId: "e1", date: "2026-11-02", cancelled: false,
+        newDate: "2026-11-03", newStartTime: "11:00", newEndTime: "12:30", newLocation: "LT1", createdAt: 0,
+      },
+    ];
+    const ics = generateICS([
+      event({ title, location: "B204", termId: "fall" }),
+      event({ id: "e2", title: "Lab", dayOfWeek: 3, startTime: "14:00", endTime: "16:00", termId: "fall", recurrence: { type: "biweekly", anchorDate: "2026-10-21" } }),
+      event({ id: "e3", title: "Calculus midterm", dayOfWeek: 5, kind: "exam", recurrence: { type: "once", date: "2026-11-13" } }),
+      event({ id: "e4", title: "Essay", dayOfWeek: 5, startTime: "00:00", endTime: "23:59", allDay: true, kind: "deadline", recurrence: { type: "once", date: "2026-11-20" } }),
+    ], [TERM], exceptions, NOW);
+
+    expect(parseICS(ics, NOW)).toEqual([
+      {
+        title,
+        location: "B204",
+        dayOfWeek: 1,
+        startTime: "09:00",
+        endTime: "10:30",
+        // The term ends the series; reading week and the cancelled class are skipped
+        recurrence: { type: "rrule", rule: "FREQ=WEEKLY;UNTIL=20261207", startDate: "2026-09-07" },
+        exceptions: [
+          { date: "2026-10-19", cancelled: true },
+          { date: "2026-10-26", cancelled: true },
+          { date: "2026-11-02", cancelled: false, newDate: "2026-11-03", newStartTime: "11:00", newEndTime: "12:30", newLocation: "LT1" },
+        ],
+      },
+      {
+        title: "Lab",
+        dayOfWeek: 3,
+        startTime: "14:00",
+        endTime: "16:00",
+        recurrence: { type: "rrule", rule: "FREQ=WEEKLY;INTERVAL=2;UNTIL=20261202", startDate: "2026-09-09" },
+      },
+      { title: "Calculus midterm", dayOfWeek: 5, startTime: "09:00", endTime: "10:30", date: "2026-11-13", allDay: false, kind: "exam" },
+      { title: "Essay", dayOfWeek: 5, startTime: "00:00", endTime: "23:59", date: "2026-11-20", allDay: true, kind: "deadline" },
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { adaptiveThreshold, detectSkew, homography } from "@/lib/imagePreprocess";
+
+// jsdom has no canvas, so no ImageData either
+class TestImageData {
+  data: Uint8ClampedArray;
+  constructor(public width: number, public height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal("ImageData", TestImageData);
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+// White page with dark horizontal lines tilted down to the right by `degrees`
+function ruledPage(degrees: number, width = 400, height = 300) {
+  const gray = new Uint8ClampedArray(width * height).fill(255);
+  const slope = Math.tan((degrees * Math.PI) / 180);
+  for (let line = 60; line < height - 60; line += 20) {
+    for (let x = 0; x < width; x++) {
+      const y = Math.round(line + x * slope);
+      if (y >= 0 && y < height) gray[y * width + x] = 0;
+    }
+  }
+  return { gray, width, height };
+}
+
+describe("homography", () => {
+  // A rectangle photographed at an angle: the far edge looks shorter
+  const rect = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+  const quad = [{ x: 20, y: 0 }, { x: 80, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+
+  it("maps each corner onto its counterpart", () => {
+    const map = homography(rect, quad);
+    rect.forEach(({ x, y }, i) => {
+      const point = map(x, y);
+      expect(point.x).toBeCloseTo(quad[i].x, 6);
+      expect(point.y).toBeCloseTo(quad[i].y, 6);
+    });
+  });
+
+  it("maps the centre onto where the diagonals cross, not the corners' average", () => {
+    const centre = homography(rect, quad)(50, 25);
+    expect(centre.x).toBeCloseTo(50, 6);
+    expect(centre.y).toBeCloseTo(18.75, 6);
+  });
+});
+
+describe("detectSkew", () => {
+  it.each([0, 3, -4.5, 10])("recovers lines tilted by %s°", degrees => {
+    const { gray, width, height } = ruledPage(degrees);
+    expect(Math.abs(detectSkew(gray, width, height) - degrees)).toBeLessThanOrEqual(0.5);
+  });
+
+  it("leaves a blank page alone", () => {
+    expect(detectSkew(new Uint8ClampedArray(100 * 100).fill(255), 100, 100)).toBe(0);
+  });
+});
+
+describe("adaptiveThreshold", () => {
+  it("separates ink from paper under uneven light", () => {
+    // Light falls off from 240 on the right to 120 on the left, with ink dots at half the brightness
+    const width = 128;
+    const height = 64;
+    const gray = new Uint8ClampedArray(width * height);
+    const isInk = (x: number, y: number) => x % 16 === 8 && y % 16 === 8;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const paper = 120 + (120 * x) / (width - 1);
+        gray[y * width + x] = isInk(x, y) ? paper / 2 : paper;
+      }
+    }
+
+    const output = adaptiveThreshold(gray, width, height);
+    expect(output.width).toBe(width);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const expected = isInk(x, y) ? 0 : 255;
+        expect([...output.data.slice(i, i + 4)]).toEqual([expected, expected, expected, 255]);
+      }
+    }
+  });
+
+  it("keeps dark ink on the bright side darker than paper on the dim side", () => {
+    // A global threshold can't split these: the ink (130) is brighter than the dim paper (120)
+    const gray = new Uint8ClampedArray(64 * 8).map((_, i) => (i % 64 < 32 ? 120 : 255));
+    gray[4 * 64 + 48] = 130;
+
+    const output = adaptiveThreshold(gray, 64, 8);
+    expect(output.data[(4 * 64 + 48) * 4]).toBe(0);
+    expect(output.data[(4 * 64 + 8) * 4]).toBe(255);
+  });
+});
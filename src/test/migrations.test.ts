@@ -0,0 +1,134 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { openDB } from "idb";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  getDB,
+  closeDB,
+  getSettings,
+  getAllEvents,
+  getUpcomingReminders,
+  getUntriggeredReminders,
+  DB_VERSION,
+  MIGRATIONS,
+} from "@/lib/db";
+
+// Create the database exactly as the first release did: version 1, four stores
+async function createV1Fixture() {
+  const db = await openDB("classping-db", 1, {
+    upgrade(db) {
+      const events = db.createObjectStore("events", { keyPath: "id" });
+      events.createIndex("by-day", "dayOfWeek");
+      const reminders = db.createObjectStore("reminders", { keyPath: "id" });
+      reminders.createIndex("by-event", "eventId");
+      reminders.createIndex("by-scheduled", "scheduledTime");
+      db.createObjectStore("settings", { keyPath: "id" });
+      const summaries = db.createObjectStore("summaries", { keyPath: "id" });
+      summaries.createIndex("by-week", "weekStart");
+    },
+  });
+
+  await db.put("events", {
+    id: "math",
+    title: "Calculus",
+    dayOfWeek: 1,
+    startTime: "09:00",
+    endTime: "10:00",
+    color: "#e85d3b",
+    reminderMinutes: [10],
+    voiceReminderEnabled: false,
+    createdAt: 1,
+    updatedAt: 1,
+  });
+  await db.put("reminders", {
+    id: "r-pending",
+    eventId: "math",
+    scheduledTime: 1000,
+    minutesBefore: 10,
+    triggered: false,
+    missed: false,
+  });
+  await db.put("reminders", {
+    id: "r-done",
+    eventId: "math",
+    scheduledTime: 500,
+    minutesBefore: 10,
+    triggered: true,
+  });
+  // Settings saved before alarm intervals, themes and onboarding existed
+  await db.put("settings", {
+    id: "app-settings",
+    notificationsEnabled: false,
+    voiceRemindersEnabled: true,
+    defaultReminderMinutes: [5],
+    voiceVolume: 0.5,
+    voiceRate: 1,
+  });
+
+  db.close();
+}
+
+describe("database migrations", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    closeDB();
+  });
+
+  it("lists migrations in strictly increasing version order", () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(DB_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it("creates every store and index on a fresh install", async () => {
+    const db = await getDB();
+
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(
+      ["events", "exceptions", "reminders", "settings", "summaries", "tasks", "templates", "terms"]
+    );
+    const reminderIndexes = [...db.transaction("reminders").store.indexNames];
+    expect(reminderIndexes).toContain("by-triggered");
+  });
+
+  it("upgrades a v1 database without losing data", async () => {
+    await createV1Fixture();
+
+    const db = await getDB();
+    expect(db.version).toBe(DB_VERSION);
+    expect(db.objectStoreNames.contains("terms")).toBe(true);
+    expect(db.objectStoreNames.contains("exceptions")).toBe(true);
+    expect(db.objectStoreNames.contains("tasks")).toBe(true);
+    expect(db.objectStoreNames.contains("templates")).toBe(true);
+
+    const [event] = await getAllEvents();
+    expect(event).toMatchObject({ id: "math", title: "Calculus", kind: "class", voiceReminderEnabled: false });
+  });
+
+  it("backfills missing settings fields and keeps the user's values", async () => {
+    await createV1Fixture();
+
+    const settings = await getSettings();
+    expect(settings.notificationsEnabled).toBe(false);
+    expect(settings.defaultReminderMinutes).toEqual([5]);
+    expect(settings.alarmRetriggerInterval).toBe(15);
+    expect(settings.theme).toBe("system");
+    expect(settings.onboardingCompleted).toBe(false);
+  });
+
+  it("indexes existing reminders by triggered state", async () => {
+    await createV1Fixture();
+
+    expect((await getUntriggeredReminders()).map((r) => r.id)).toEqual(["r-pending"]);
+    expect((await getUpcomingReminders(0, 2000)).map((r) => r.id)).toEqual(["r-pending"]);
+    expect(await getUpcomingReminders(0, 900)).toEqual([]);
+
+    const db = await getDB();
+    const done = await db.get("reminders", "r-done");
+    expect(done).toMatchObject({ triggered: true, missed: false, triggeredKey: 1 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { parsePastedTimetable, ParsedClass } from "@/lib/pdfParser";
+
+const summarize = (classes: ParsedClass[]) =>
+  classes.map(c => [c.title, c.dayOfWeek, c.startTime, c.endTime, c.location ?? null]);
+
+// A portal timetable: half-hour rows under hourly labels, a two-hour lab spanning
+// rows, and a lunch banner across every day
+const GRID_HTML = `
+  <table>
+    <thead><tr><th>Time</th><th>Monday</th><th>Tuesday</th><th>Wednesday</th></tr></thead>
+    <tbody>
+      <tr><td rowspan="2">9:00</td><td rowspan="2">Calculus<br>Room 101</td><td></td><td>Physics</td></tr>
+      <tr><td rowspan="4"><div>Chemistry Lab</div><div>Hall B</div></td><td></td></tr>
+      <tr><td rowspan="2">10:00</td><td></td><td></td></tr>
+      <tr><td></td><td></td></tr>
+      <tr><td>11:00 - 12:00</td><td colspan="3">Lunch</td></tr>
+    </tbody>
+  </table>`;
+
+describe("parsePastedTimetable", () => {
+  it("reads an HTML grid with rowspan and colspan into day × time cells", () => {
+    const { classes } = parsePastedTimetable("", GRID_HTML);
+    expect(summarize(classes)).toEqual([
+      ["Calculus", 1, "09:00", "10:00", "Room 101"],
+      ["Physics", 3, "09:00", "09:30", null],
+      ["Chemistry", 2, "09:30", "12:00", "Hall B"],
+    ]);
+  });
+
+  it("reads a grid with the days down the side", () => {
+    const html = `<table>
+      <tr><td></td><td>08:00</td><td>09:00</td><td>10:00</td></tr>
+      <tr><td>Mon</td><td colspan="2">Biology</td><td>Art</td></tr>
+      <tr><td>Thu</td><td></td><td>History</td><td></td></tr>
+    </table>`;
+    expect(summarize(parsePastedTimetable("", html).classes)).toEqual([
+      ["Biology", 1, "08:00", "10:00", null],
+      ["History", 4, "09:00", "10:00", null],
+      ["Art", 1, "10:00", "11:00", null],
+    ]);
+  });
+
+  it("reads list tables row by row, repeating a day that spans rows", () => {
+    const html = `<table>
+      <tr><th>Day</th><th>Time</th><th>Course</th><th>Room</th></tr>
+      <tr><td rowspan="2">Tuesday</td><td>9:00-10:30</td><td>CS101 Programming</td><td>Room 4</td></tr>
+      <tr><td>13:00-14:00</td><td>Statistics</td><td>Room 9</td></tr>
+    </table>`;
+    expect(summarize(parsePastedTimetable("", html).classes)).toEqual([
+      ["Programming", 2, "09:00", "10:30", "Room 4"],
+      ["Statistics", 2, "13:00", "14:00", "Room 9"],
+    ]);
+  });
+
+  it("reads tab-separated text as a grid", () => {
+    const text = ["\tMon\tWed", "9:00\tAlgebra\tGeometry", "10:00\t\tLogic"].join("\n");
+    expect(summarize(parsePastedTimetable(text).classes)).toEqual([
+      ["Algebra", 1, "09:00", "10:00", null],
+      ["Geometry", 3, "09:00", "10:00", null],
+      ["Logic", 3, "10:00", "11:00", null],
+    ]);
+  });
+
+  it("falls back to the line parser for plain text", () => {
+    const { classes } = parsePastedTimetable("Friday\n14:00-15:30 Economics Room 12");
+    expect(summarize(classes)).toEqual([["Economics", 5, "14:00", "15:30", "Room 12"]]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { ClassEvent } from "@/lib/db";
+import { getQuickAddProblem, parseQuickAdd, quickAddToClasses } from "@/lib/quickAdd";
+import { getOccurrences } from "@/lib/schedule";
+
+// A Monday
+const TODAY = new Date(2026, 9, 19);
+
+// What each line reads as: [title, kind, days, date, start, end, location, reminders]
+const FIXTURES: [string, unknown[]][] = [
+  [
+    "Physics lab every Tue 2-4pm in B12, remind 15 and 60 min before",
+    ["Physics", "class", [2], undefined, "14:00", "16:00", "B12", [15, 60]],
+  ],
+  ["Calc midterm Nov 14 9am Hall C", ["Calc midterm", "exam", [], "2026-11-14", "09:00", "10:00", "Hall C", undefined]],
+  ["CS101 lecture Mon/Wed 10:00-11:30 Room 4", ["CS101", "class", [1, 3], undefined, "10:00", "11:30", "Room 4", undefined]],
+  ["Essay due Fri 5pm, reminders 1 day and 2h", ["Essay", "deadline", [], "2026-10-23", "17:00", "17:00", undefined, [120, 1440]]],
+  ["Chem review session next Mon at 3:30", ["Chem review session", "extra", [], "2026-10-26", "15:30", "16:30", undefined, undefined]],
+  ["History final 2 Jan", ["History final", "exam", [], "2027-01-02", undefined, undefined, undefined, undefined]],
+  ["Stats every Wed 3pm in Lecture Hall 2", ["Stats", "class", [3], undefined, "15:00", "16:00", "Lecture Hall 2", undefined]],
+  ["Bio exam Dec 1 at 10", ["Bio exam", "exam", [], "2026-12-01", "10:00", "11:00", undefined, undefined]],
+  ["Thesis due Dec 15 at 5, remind 2 weeks before", ["Thesis", "deadline", [], "2026-12-15", "17:00", "17:00", undefined, [20160]]],
+  ["Study group tomorrow 18:00-20:00 @ Lab 3", ["Study group", "extra", [], "2026-10-20", "18:00", "20:00", "Lab 3", undefined]],
+];
+
+describe("parseQuickAdd", () => {
+  it.each(FIXTURES)("%s", (text, expected) => {
+    const parsed = parseQuickAdd(text, TODAY);
+    expect([
+      parsed.title, parsed.kind, parsed.days, parsed.date, parsed.startTime, parsed.endTime, parsed.location, parsed.reminderMinutes,
+    ]).toEqual(expected);
+  });
+
+  it("keeps the course code and session type for the saved title", () => {
+    expect(parseQuickAdd("CS101 lecture Mon/Wed 10:00-11:30", TODAY)).toMatchObject({ courseCode: "CS101", sessionType: "lecture" });
+  });
+
+  it("says what's missing", () => {
+    expect(getQuickAddProblem(parseQuickAdd("Physics 2-4pm", TODAY))).toMatch("Add a day");
+    expect(getQuickAddProblem(parseQuickAdd("Physics every Tue", TODAY))).toMatch("Add a time");
+    expect(getQuickAddProblem(parseQuickAdd("Tue 2-4pm", TODAY))).toMatch("Add a name");
+    expect(getQuickAddProblem(parseQuickAdd("Essay due Nov 20", TODAY))).toBeNull();
+  });
+});
+
+describe("quickAddToClasses", () => {
+  it("makes a class per weekday, and one all-day event for a date without a time", () => {
+    expect(quickAddToClasses(parseQuickAdd("Physics every Tue and Thu 2-4pm", TODAY)).map(c => c.dayOfWeek)).toEqual([2, 4]);
+    expect(quickAddToClasses(parseQuickAdd("Essay due Nov 20", TODAY))).toEqual([
+      expect.objectContaining({ title: "Essay", date: "2026-11-20", dayOfWeek: 5, kind: "deadline", allDay: true }),
+    ]);
+  });
+});
+
+describe("quick-added deadlines", () => {
+  it("are zero-length events ordered by their due time", () => {
+    const [deadline] = quickAddToClasses(parseQuickAdd("Essay due Mon 5pm", TODAY));
+    expect(deadline).toMatchObject({ date: "2026-10-19", startTime: "17:00", endTime: "17:00", kind: "deadline" });
+
+    const saved = (id: string, fields: Partial<ClassEvent>): ClassEvent => ({
+      id, title: id, dayOfWeek: 1, startTime: "09:00", endTime: "10:00", color: "#3b82f6",
+      reminderMinutes: [10], voiceReminderEnabled: false, createdAt: 0, updatedAt: 0, ...fields,
+    });
+    const occurrences = getOccurrences([
+      saved("Evening seminar", { startTime: "17:30", endTime: "19:00" }),
+      saved("Essay", { ...deadline, recurrence: { type: "once", date: deadline.date } }),
+      saved("Calculus", {}),
+    ], "2026-10-19", "2026-10-19", [], []);
+    expect(occurrences.map(o => [o.event.title, o.startTime, o.endTime])).toEqual([
+      ["Calculus", "09:00", "10:00"],
+      ["Essay", "17:00", "17:00"],
+      ["Evening seminar", "17:30", "19:00"],
+    ]);
+  });
+});
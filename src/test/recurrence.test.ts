@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { Recurrence, Term } from "@/lib/db";
+import { fromDateKey } from "@/lib/dates";
+import { matchesRecurrence } from "@/lib/recurrence";
+
+// Dates a class on dayOfWeek meets on, out of the ones given
+const meetings = (recurrence: Recurrence, dayOfWeek: number, dates: string[], term?: Term) =>
+  dates.filter(date => matchesRecurrence(recurrence, dayOfWeek, fromDateKey(date), term));
+
+const MONDAYS = ["2026-10-19", "2026-10-26", "2026-11-02", "2026-11-09"];
+const WEDNESDAYS = ["2026-10-21", "2026-10-28", "2026-11-04", "2026-11-11"];
+
+describe("matchesRecurrence", () => {
+  it("counts COUNT across every BYDAY day", () => {
+    const rule: Recurrence = { type: "rrule", rule: "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4", startDate: "2026-10-19" };
+    expect(meetings(rule, 1, MONDAYS)).toEqual(["2026-10-19", "2026-10-26"]);
+    expect(meetings(rule, 3, WEDNESDAYS)).toEqual(["2026-10-21", "2026-10-28"]);
+  });
+
+  it("doesn't count BYDAY days before the rule's start", () => {
+    const rule: Recurrence = { type: "rrule", rule: "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3", startDate: "2026-10-21" };
+    expect(meetings(rule, 1, MONDAYS)).toEqual(["2026-10-26"]);
+    expect(meetings(rule, 3, WEDNESDAYS)).toEqual(["2026-10-21", "2026-10-28"]);
+  });
+
+  it("keeps every BYDAY day in the same weeks with an interval", () => {
+    const rule: Recurrence = { type: "rrule", rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", startDate: "2026-10-21" };
+    expect(meetings(rule, 1, MONDAYS)).toEqual(["2026-11-02"]);
+    expect(meetings(rule, 3, WEDNESDAYS)).toEqual(["2026-10-21", "2026-11-04"]);
+  });
+
+  it("stops after UNTIL and ignores days the rule doesn't list", () => {
+    const rule: Recurrence = { type: "rrule", rule: "FREQ=WEEKLY;BYDAY=MO;UNTIL=20261102T235900", startDate: "2026-10-19" };
+    expect(meetings(rule, 1, MONDAYS)).toEqual(["2026-10-19", "2026-10-26", "2026-11-02"]);
+    expect(meetings(rule, 3, WEDNESDAYS)).toEqual([]);
+  });
+
+  it("meets every other week from the anchor week", () => {
+    const biweekly: Recurrence = { type: "biweekly", anchorDate: "2026-10-21" };
+    expect(meetings(biweekly, 1, MONDAYS)).toEqual(["2026-10-19", "2026-11-02"]);
+  });
+
+  it("meets once on its date", () => {
+    expect(meetings({ type: "once", date: "2026-10-28" }, 3, WEDNESDAYS)).toEqual(["2026-10-28"]);
+  });
+
+  it("meets in listed term weeks, or every week without a term", () => {
+    const term: Term = { id: "t1", name: "Fall", startDate: "2026-10-21", endDate: "2026-12-18", breaks: [], createdAt: 0, updatedAt: 0 };
+    const weeks: Recurrence = { type: "weeks", weeks: [1, 3] };
+    expect(meetings(weeks, 1, MONDAYS, term)).toEqual(["2026-10-19", "2026-11-02"]);
+    expect(meetings(weeks, 1, MONDAYS)).toEqual(MONDAYS);
+  });
+});
@@ -0,0 +1,192 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { addEvent, addTask, closeDB, getRemindersByEvent, ClassEvent, Task } from "@/lib/db";
+import {
+  DueReminder,
+  completeTask,
+  reopenTask,
+  runReminderPass,
+  syncEventReminders,
+  syncTaskReminders,
+} from "@/lib/reminderEngine";
+
+// Monday 19 October 2026, 08:00
+const NOW = new Date(2026, 9, 19, 8, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+function eventFixture(overrides: Partial<ClassEvent> = {}) {
+  return addEvent({
+    title: "Calculus",
+    dayOfWeek: 1,
+    startTime: "09:00",
+    endTime: "10:00",
+    color: "#e85d3b",
+    reminderMinutes: [10],
+    voiceReminderEnabled: false,
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
+afterEach(() => {
+  closeDB();
+});
+
+describe("syncEventReminders", () => {
+  it("schedules weekly classes inside the reminder window", async () => {
+    const event = await eventFixture();
+    await syncEventReminders(event, NOW, [], []);
+
+    const reminders = await getRemindersByEvent(event.id);
+    expect(reminders.map(r => r.occurrenceDate).sort()).toEqual(["2026-10-19", "2026-10-26"]);
+  });
+
+  it("creates reminders whose offset reaches past the window", async () => {
+    // Exam 25 days out with a two-week reminder, due 11 days from now
+    const event = await eventFixture({
+      title: "Calculus final",
+      dayOfWeek: 5,
+      kind: "exam",
+      recurrence: { type: "once", date: "2026-11-13" },
+      reminderMinutes: [60, 14 * 24 * 60],
+    });
+    await syncEventReminders(event, NOW, [], []);
+
+    const reminders = await getRemindersByEvent(event.id);
+    expect(reminders.map(r => r.minutesBefore).sort((a, b) => a - b)).toEqual([60, 14 * 24 * 60]);
+    const early = reminders.find(r => r.minutesBefore === 14 * 24 * 60);
+    expect(early.scheduledTime).toBe(new Date(2026, 9, 30, 9, 0).getTime());
+    expect(early.scheduledTime - NOW).toBeLessThan(12 * DAY);
+  });
+
+  it("reminds before a deadline that starts and ends at its due time", async () => {
+    const event = await eventFixture({
+      title: "Essay",
+      dayOfWeek: 2,
+      startTime: "17:00",
+      endTime: "17:00",
+      kind: "deadline",
+      recurrence: { type: "once", date: "2026-10-20" },
+      reminderMinutes: [120, 1440],
+    });
+    await syncEventReminders(event, NOW, [], []);
+
+    const reminders = await getRemindersByEvent(event.id);
+    expect(reminders.map(r => r.scheduledTime).sort((a, b) => a - b)).toEqual([
+      new Date(2026, 9, 19, 17, 0).getTime(),
+      new Date(2026, 9, 20, 15, 0).getTime(),
+    ]);
+  });
+});
+
+async function taskFixture(overrides: Partial<Task> = {}) {
+  const event = await eventFixture();
+  return addTask({
+    eventId: event.id,
+    title: "Problem set 4",
+    dueDate: "2026-10-22",
+    dueTime: "23:59",
+    status: "todo",
+    priority: "medium",
+    reminderMinutes: [60, 1440],
+    ...overrides,
+  });
+}
+
+const taskReminders = async (task: Task) =>
+  (await getRemindersByEvent(task.eventId)).filter(r => r.taskId === task.id);
+
+describe("task reminders", () => {
+  beforeEach(() => {
+    // completeTask and reopenTask sync against the clock
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("schedules each offset before the due time", async () => {
+    const task = await taskFixture();
+    await syncTaskReminders(task, NOW);
+
+    const reminders = await taskReminders(task);
+    expect(reminders.map(r => r.scheduledTime).sort((a, b) => a - b)).toEqual([
+      new Date(2026, 9, 21, 23, 59).getTime(),
+      new Date(2026, 9, 22, 22, 59).getTime(),
+    ]);
+  });
+
+  it("skips offsets that have already passed", async () => {
+    const task = await taskFixture({ dueDate: "2026-10-19", dueTime: "17:00" });
+    await syncTaskReminders(task, NOW);
+
+    expect((await taskReminders(task)).map(r => r.minutesBefore)).toEqual([60]);
+  });
+
+  it("drops pending reminders when the task is completed and restores them when reopened", async () => {
+    const task = await taskFixture();
+    await syncTaskReminders(task, NOW);
+
+    const done = await completeTask(task.id);
+    expect(done).toMatchObject({ status: "done", completedAt: NOW });
+    expect(await taskReminders(task)).toEqual([]);
+
+    const reopened = await reopenTask(task.id);
+    expect(reopened.status).toBe("todo");
+    expect(reopened.completedAt).toBeUndefined();
+    expect((await taskReminders(task)).map(r => r.minutesBefore).sort((a, b) => a - b)).toEqual([60, 1440]);
+  });
+
+  it("keeps reminders that already fired when the task is completed", async () => {
+    const task = await taskFixture({ dueDate: "2026-10-20", dueTime: "09:00" });
+    await syncTaskReminders(task, NOW);
+    const fire = vi.fn(async (_due: DueReminder) => {});
+    const dueAt = new Date(2026, 9, 19, 9, 1).getTime();
+    vi.setSystemTime(dueAt);
+    await runReminderPass(fire, dueAt);
+
+    await completeTask(task.id);
+    const reminders = await taskReminders(task);
+    expect(reminders.map(r => r.minutesBefore)).toEqual([1440]);
+    expect(reminders[0].triggered).toBe(true);
+  });
+});
+
+describe("runReminderPass", () => {
+  it("fires a due reminder once", async () => {
+    const event = await eventFixture({ location: "B204" });
+    const fire = vi.fn(async (_due: DueReminder) => {});
+    const dueAt = new Date(2026, 9, 19, 8, 51).getTime();
+
+    await runReminderPass(fire, NOW);
+    expect(fire).not.toHaveBeenCalled();
+
+    await runReminderPass(fire, dueAt);
+    await runReminderPass(fire, dueAt);
+    expect(fire).toHaveBeenCalledTimes(1);
+    expect(fire.mock.calls[0][0]).toMatchObject({
+      event: { id: event.id },
+      reminder: { minutesBefore: 10, occurrenceDate: "2026-10-19" },
+      title: "📚 Calculus",
+    });
+    expect(fire.mock.calls[0][0].message).toContain("B204");
+  });
+
+  it("marks reminders missed when the app wasn't running", async () => {
+    const event = await eventFixture();
+    const fire = vi.fn(async (_due: DueReminder) => {});
+
+    await runReminderPass(fire, NOW);
+    await runReminderPass(fire, new Date(2026, 9, 19, 9, 30).getTime());
+
+    expect(fire).not.toHaveBeenCalled();
+    const missed = (await getRemindersByEvent(event.id)).find(r => r.occurrenceDate === "2026-10-19");
+    expect(missed).toMatchObject({ triggered: true, missed: true });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { ClassEvent, OccurrenceException, Term } from "@/lib/db";
+import { fromDateKey } from "@/lib/dates";
+import { getOccurrences, occursOnDate } from "@/lib/schedule";
+
+const event = (overrides: Partial<ClassEvent> = {}): ClassEvent => ({
+  id: "e1",
+  title: "Calculus",
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "10:30",
+  color: "#3b82f6",
+  reminderMinutes: [10],
+  voiceReminderEnabled: false,
+  termId: "fall",
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const TERM: Term = {
+  id: "fall",
+  name: "Fall 2026",
+  startDate: "2026-09-07",
+  endDate: "2026-12-11",
+  breaks: [{ id: "b1", label: "Reading week", startDate: "2026-10-26", endDate: "2026-10-30" }],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const exception = (date: string, overrides: Partial<OccurrenceException>): OccurrenceException => ({
+  id: `e1@${date}`,
+  eventId: "e1",
+  date,
+  cancelled: false,
+  createdAt: 0,
+  ...overrides,
+});
+
+// Dates a class meets on, out of the ones given
+const meetings = (cls: ClassEvent, dates: string[], terms: Term[] = [TERM]) =>
+  dates.filter(date => occursOnDate(cls, fromDateKey(date), terms));
+
+describe("occursOnDate", () => {
+  it("meets on its weekday inside the term and outside its breaks", () => {
+    const dates = ["2026-08-31", "2026-09-07", "2026-09-08", "2026-10-19", "2026-10-26", "2026-12-07", "2026-12-14"];
+    expect(meetings(event(), dates)).toEqual(["2026-09-07", "2026-10-19", "2026-12-07"]);
+  });
+
+  it("runs every week when its term is missing", () => {
+    expect(meetings(event(), ["2026-08-31", "2026-10-26"], [])).toEqual(["2026-08-31", "2026-10-26"]);
+  });
+
+  it("counts week numbers from the start of the term", () => {
+    const labs = event({ recurrence: { type: "weeks", weeks: [1, 3, 8] } });
+    const dates = ["2026-09-07", "2026-09-14", "2026-09-21", "2026-10-26", "2026-11-02"];
+    // Week 8 is reading week
+    expect(meetings(labs, dates)).toEqual(["2026-09-07", "2026-09-21"]);
+  });
+});
+
+describe("getOccurrences", () => {
+  it("applies cancellations, moves and room changes", () => {
+    const occurrences = getOccurrences([event({ location: "B204" })], "2026-10-05", "2026-10-25", [TERM], [
+      exception("2026-10-05", { cancelled: true }),
+      exception("2026-10-12", { newDate: "2026-10-14", newStartTime: "14:00", newEndTime: "15:30" }),
+      exception("2026-10-19", { newLocation: "LT1" }),
+    ]);
+
+    expect(occurrences.map(({ originalDate, date, startTime, location, cancelled }) =>
+      ({ originalDate, date, startTime, location, cancelled })
+    )).toEqual([
+      { originalDate: "2026-10-05", date: "2026-10-05", startTime: "09:00", location: "B204", cancelled: true },
+      { originalDate: "2026-10-12", date: "2026-10-14", startTime: "14:00", location: "B204", cancelled: false },
+      { originalDate: "2026-10-19", date: "2026-10-19", startTime: "09:00", location: "LT1", cancelled: false },
+    ]);
+  });
+
+  it("follows occurrences moved into or out of the range", () => {
+    const exceptions = [
+      exception("2026-10-12", { newDate: "2026-10-20" }),
+      exception("2026-10-19", { newDate: "2026-11-03" }),
+      // Reading week has no class to move
+      exception("2026-10-26", { newDate: "2026-10-21" }),
+    ];
+    const occurrences = getOccurrences([event()], "2026-10-19", "2026-10-25", [TERM], exceptions);
+    expect(occurrences.map(o => [o.originalDate, o.date])).toEqual([["2026-10-12", "2026-10-20"]]);
+  });
+});
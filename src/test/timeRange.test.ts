@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { findTimeRange, parseTimeOrRange } from "@/lib/timeRange";
+
+// [line, expected start, expected end] — null when the line has no valid range
+const RANGE_FIXTURES: [string, string | null, string | null][] = [
+  // Separators and digit styles
+  ["9:00 - 10:30", "09:00", "10:30"],
+  ["09:00-10:30", "09:00", "10:30"],
+  ["0900-1030", "09:00", "10:30"],
+  ["9.00–10.30", "09:00", "10:30"],
+  ["9:00 — 10:30", "09:00", "10:30"],
+  ["9:00 to 10:30", "09:00", "10:30"],
+  ["9:00 until 10:30", "09:00", "10:30"],
+  ["14h-16h", "14:00", "16:00"],
+  ["14h30 - 16h", "14:30", "16:00"],
+  ["13:00-14:50", "13:00", "14:50"],
+
+  // am/pm on both ends, one end or neither
+  ["9:00 AM - 10:30 AM", "09:00", "10:30"],
+  ["9am-11am", "09:00", "11:00"],
+  ["9 a.m. – 11 a.m.", "09:00", "11:00"],
+  ["9-11am", "09:00", "11:00"],
+  ["11-1pm", "11:00", "13:00"],
+  ["10:30-12:30pm", "10:30", "12:30"],
+  ["12-1pm", "12:00", "13:00"],
+  ["2-3:30pm", "14:00", "15:30"],
+  ["11am-1", "11:00", "13:00"],
+  ["10am-12", "10:00", "12:00"],
+  ["11:30am - 12:45pm", "11:30", "12:45"],
+  ["9a-11a", "09:00", "11:00"],
+  ["11:00-1:00", "11:00", "13:00"],
+  ["12:00-1:00", "12:00", "13:00"],
+  ["1:00-2:30", "13:00", "14:30"],
+  ["8:00-9:15", "08:00", "09:15"],
+  ["13:00-2pm", "13:00", "14:00"],
+
+  // Not ranges, or not valid ones
+  ["10-12", null, null],
+  ["Room 101-102", null, null],
+  ["10:30-9:00", null, null],
+  ["14:00-13:00", null, null],
+  ["9:00 10:30", null, null],
+  ["25:00-26:00", null, null],
+  ["2nd-3rd period", null, null],
+  ["14:00pm-15:00pm", null, null],
+
+  // Years and other four-digit numbers
+  ["Academic Year 2026-2027", null, null],
+  ["Session 2025 - 2026", null, null],
+  ["1999-2000", null, null],
+  ["0900-0905", null, null],
+  ["1900-2000", "19:00", "20:00"],
+  ["Year 2026-2027 Calculus 0900-1030", "09:00", "10:30"],
+];
+
+describe("findTimeRange", () => {
+  it.each(RANGE_FIXTURES)("%s", (line, start, end) => {
+    const range = findTimeRange(line);
+    if (start === null) {
+      expect(range).toBeNull();
+    } else {
+      expect(range).toMatchObject({ start, end });
+    }
+  });
+
+  it("finds the range inside a line and reports where it is", () => {
+    const line = "Monday 9-11am Calculus Room 204";
+    const range = findTimeRange(line);
+    expect(range).toMatchObject({ start: "09:00", end: "11:00" });
+    expect(line.slice(range!.index, range!.index + range!.length)).toBe("9-11am");
+  });
+
+  it("skips numbers that aren't part of a range", () => {
+    expect(findTimeRange("MATH 101 Lecture 10:00 - 11:00")).toMatchObject({ start: "10:00", end: "11:00" });
+  });
+});
+
+describe("parseTimeOrRange", () => {
+  it.each([
+    ["9:00", { start: "09:00" }],
+    ["9am", { start: "09:00" }],
+    ["12 pm", { start: "12:00" }],
+    ["0930", { start: "09:30" }],
+    ["14h", { start: "14:00" }],
+    ["09:00 - 10:00", { start: "09:00", end: "10:00" }],
+  ])("%s", (text, expected) => {
+    expect(parseTimeOrRange(text)).toEqual(expected);
+  });
+
+  it.each(["9", "Monday", "9:00 Lecture", "10-12"])("rejects %s", (text) => {
+    expect(parseTimeOrRange(text)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { extractGridCells, GridVocabulary, TextBox } from "@/lib/timetableGrid";
+import { parseTimeOrRange } from "@/lib/timeRange";
+
+const DAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3 };
+
+const vocab: GridVocabulary = {
+  parseDay: (text) => DAYS[text] ?? null,
+  parseTimeLabel: (text) => parseTimeOrRange(text),
+};
+
+const box = (text: string, x: number, y: number, width = 30, confidence?: number): TextBox =>
+  ({ text, x, y, width, height: 10, confidence });
+
+// Time labels down the left, days across the top, 30 units per hour
+const AXES = [
+  box("Mon", 100, 0),
+  box("Tue", 200, 0),
+  box("Wed", 300, 0),
+  box("9:00", 0, 30),
+  box("10:00", 0, 60),
+  box("11:00", 0, 90),
+  box("12:00", 0, 120),
+];
+
+describe("extractGridCells", () => {
+  it("maps cells to their day and slots, across merged slots and past banners", () => {
+    const cells = extractGridCells([
+      ...AXES,
+      box("Calculus", 100, 28),
+      box("B204", 100, 40, 30, 0.4),
+      // Spans the 9:00 and 10:00 rows
+      box("Physics lab", 190, 38, 50),
+      box("LT1", 200, 52),
+      box("Chemistry", 300, 90),
+      box("LUNCH BREAK", 100, 120, 230),
+    ], vocab);
+
+    expect(cells).toEqual([
+      expect.objectContaining({
+        dayOfWeek: 1, startTime: "09:00", endTime: "10:00",
+        lines: [{ text: "Calculus", confidence: undefined }, { text: "B204", confidence: 0.4 }],
+      }),
+      expect.objectContaining({
+        dayOfWeek: 2, startTime: "09:00", endTime: "11:00",
+        lines: [{ text: "Physics lab", confidence: undefined }, { text: "LT1", confidence: undefined }],
+      }),
+      expect.objectContaining({ dayOfWeek: 3, startTime: "11:00", endTime: "12:00" }),
+    ]);
+  });
+
+  it("reads days down the side and times across the top", () => {
+    const cells = extractGridCells([
+      box("9:00", 100, 0),
+      box("10:00", 200, 0),
+      box("Mon", 0, 30),
+      box("Tue", 0, 60),
+      box("Calculus", 200, 60),
+    ], vocab);
+
+    expect(cells).toEqual([expect.objectContaining({ dayOfWeek: 2, startTime: "10:00", endTime: "11:00" })]);
+  });
+
+  it("finds no grid without day headers and time labels", () => {
+    expect(extractGridCells([box("Mon", 0, 0), box("Calculus 9:00-10:00", 40, 0, 120)], vocab)).toBeNull();
+  });
+});
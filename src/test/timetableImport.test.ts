@@ -0,0 +1,126 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { addEvent, ClassEvent, closeDB, getAllEvents, getAllExceptions, getExceptionsByEvent } from "@/lib/db";
+import { generateICS } from "@/lib/ics";
+import { parseICS } from "@/lib/icsParser";
+import { ParsedClass } from "@/lib/pdfParser";
+import { applyImport, findRemovedEvents, matchClasses } from "@/lib/timetableImport";
+
+const event = (id: string, overrides: Partial<ClassEvent> = {}): ClassEvent => ({
+  id,
+  title: "CS101 Lecture",
+  location: "B204",
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "10:30",
+  color: "#3b82f6",
+  reminderMinutes: [10],
+  voiceReminderEnabled: false,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const parsed = (overrides: Partial<ParsedClass> = {}): ParsedClass => ({
+  title: "CS101 Lecture",
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "10:30",
+  ...overrides,
+});
+
+// Status, matched event and changes for each parsed class
+const summarize = (classes: ParsedClass[], events: ClassEvent[]) =>
+  matchClasses(classes, events).map(match => [match.status, match.event?.id, match.changes]);
+
+describe("matchClasses", () => {
+  it("finds saved classes by title and day and lists what would change", () => {
+    const events = [event("e1"), event("e2", { title: "Physics", dayOfWeek: 2 })];
+    expect(summarize([
+      parsed({ title: "cs101  (lecture)" }),
+      parsed({ title: "Physics", dayOfWeek: 2, startTime: "11:00", endTime: "12:00", location: "LT1" }),
+      parsed({ title: "Physics", dayOfWeek: 4 }),
+    ], events)).toEqual([
+      ["unchanged", "e1", []],
+      ["changed", "e2", ["start", "end", "location"]],
+      ["new", undefined, []],
+    ]);
+  });
+
+  it("pairs two sessions on one day with the events at their own times", () => {
+    const events = [event("morning"), event("afternoon", { startTime: "14:00", endTime: "15:30" })];
+    expect(summarize([
+      parsed({ startTime: "14:00", endTime: "15:30" }),
+      parsed({ startTime: "09:30", endTime: "11:00" }),
+    ], events)).toEqual([
+      ["unchanged", "afternoon", []],
+      ["changed", "morning", ["start", "end"]],
+    ]);
+  });
+
+  it("keeps saved details the import doesn't have", () => {
+    const events = [event("e1", { recurrence: { type: "biweekly", anchorDate: "2026-10-19" } })];
+    expect(summarize([parsed({ location: undefined })], events)).toEqual([["unchanged", "e1", []]]);
+    expect(summarize([parsed({ recurrence: { type: "weekly" } })], events)).toEqual([["changed", "e1", ["repeat"]]]);
+  });
+
+  it("matches dated events by date rather than weekday", () => {
+    const exam = event("exam", { title: "CS101 Final", dayOfWeek: 5, kind: "exam", recurrence: { type: "once", date: "2026-12-11" } });
+    expect(summarize([
+      parsed({ title: "CS101 Final", dayOfWeek: 5, date: "2026-12-11" }),
+      parsed({ title: "CS101 Final", dayOfWeek: 5, date: "2026-12-18" }),
+      parsed({ title: "CS101 Final", dayOfWeek: 5 }),
+    ], [exam])).toEqual([
+      ["unchanged", "exam", []],
+      ["new", undefined, []],
+      ["new", undefined, []],
+    ]);
+  });
+});
+
+describe("findRemovedEvents", () => {
+  it("lists weekly classes the import no longer has, but not dated events", () => {
+    const events = [
+      event("e1"),
+      event("e2", { title: "Physics" }),
+      event("exam", { title: "CS101 Final", kind: "exam", recurrence: { type: "once", date: "2026-12-11" } }),
+    ];
+    const matches = matchClasses([parsed()], events);
+    expect(findRemovedEvents(matches, events).map(e => e.id)).toEqual(["e2"]);
+  });
+});
+
+describe("applyImport", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    closeDB();
+  });
+
+  it("saves cancellations a re-imported calendar adds to a saved class", async () => {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = event("e1");
+    const saved = await addEvent(fields);
+    const now = new Date(2026, 9, 19, 8, 0);
+    const ics = generateICS([saved], [], [
+      { id: `${saved.id}@2026-10-26`, eventId: saved.id, date: "2026-10-26", cancelled: true, createdAt: 0 },
+    ], now);
+
+    const classes = parseICS(ics, now);
+    const matches = matchClasses(classes, [saved], await getAllExceptions());
+    expect(matches.map(m => [m.status, m.changes])).toEqual([["changed", ["meetings"]]]);
+
+    const result = await applyImport(classes.map((cls, i) => ({ cls, match: matches[i] })), [], [10]);
+    expect(result).toEqual({ added: 0, updated: 1, removed: 0 });
+    expect(await getAllEvents()).toHaveLength(1);
+    expect(await getExceptionsByEvent(saved.id)).toEqual([
+      expect.objectContaining({ date: "2026-10-26", cancelled: true }),
+    ]);
+
+    // Importing the same file again changes nothing
+    const again = matchClasses(classes, await getAllEvents(), await getAllExceptions());
+    expect(again.map(m => m.status)).toEqual(["unchanged"]);
+  });
+});
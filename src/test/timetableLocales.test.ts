@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { parseTimetableText } from "@/lib/pdfParser";
+import { TimetableLanguage } from "@/lib/timetableLocales";
+
+// One timetable per language, and the classes it should produce as
+// [title, dayOfWeek, start, end]
+const LOCALE_FIXTURES: { language: TimetableLanguage; text: string; classes: [string, number, string, string][] }[] = [
+  {
+    language: "fr",
+    text: ["Lundi", "8h30 - 10h Mathématiques", "Mercredi 14h à 16h Histoire", "mar. et jeu. 10:00-11:30 Anglais"].join("\n"),
+    classes: [
+      ["Mathématiques", 1, "08:30", "10:00"],
+      ["Histoire", 3, "14:00", "16:00"],
+      ["Anglais", 2, "10:00", "11:30"],
+      ["Anglais", 4, "10:00", "11:30"],
+    ],
+  },
+  {
+    language: "es",
+    text: ["Lunes", "9:00 - 10:30 Matemáticas", "Miércoles 15:00 a 17:00 Química", "Miercoles 8:00-9:00 Física", "lun. y jue. 11:00-12:00 Inglés"].join("\n"),
+    classes: [
+      ["Matemáticas", 1, "09:00", "10:30"],
+      ["Química", 3, "15:00", "17:00"],
+      ["Física", 3, "08:00", "09:00"],
+      ["Inglés", 1, "11:00", "12:00"],
+      ["Inglés", 4, "11:00", "12:00"],
+    ],
+  },
+  {
+    language: "de",
+    text: ["Montag", "08:00 - 09:30 Mathematik", "Di bis Do 10 Uhr bis 11:30 Uhr Deutsch", "Freitag 13:00-14:30 Uhr Biologie"].join("\n"),
+    classes: [
+      ["Mathematik", 1, "08:00", "09:30"],
+      ["Deutsch", 2, "10:00", "11:30"],
+      ["Deutsch", 3, "10:00", "11:30"],
+      ["Deutsch", 4, "10:00", "11:30"],
+      ["Biologie", 5, "13:00", "14:30"],
+    ],
+  },
+  {
+    language: "pt",
+    text: ["Segunda-feira", "7:30 - 9:00 Português", "Terça-feira e quinta-feira 10:00 às 11:30 História", "sexta 14h-16h Geografia"].join("\n"),
+    classes: [
+      ["Português", 1, "07:30", "09:00"],
+      ["História", 2, "10:00", "11:30"],
+      ["História", 4, "10:00", "11:30"],
+      ["Geografia", 5, "14:00", "16:00"],
+    ],
+  },
+  {
+    language: "sw",
+    text: ["Jumatatu", "08:00 - 09:00 Hisabati", "Jumanne na Alhamisi 10:00 hadi 11:00 Kiingereza", "Ijumaa 14:00-15:30 Sayansi"].join("\n"),
+    classes: [
+      ["Hisabati", 1, "08:00", "09:00"],
+      ["Kiingereza", 2, "10:00", "11:00"],
+      ["Kiingereza", 4, "10:00", "11:00"],
+      ["Sayansi", 5, "14:00", "15:30"],
+    ],
+  },
+];
+
+describe("parseTimetableText by locale", () => {
+  it.each(LOCALE_FIXTURES)("reads $language timetables", ({ language, text, classes }) => {
+    const parsed = parseTimetableText(text, ["en", language]);
+    expect(parsed.map(c => [c.title, c.dayOfWeek, c.startTime, c.endTime])).toEqual(classes);
+  });
+
+  it("finds nothing when the timetable's language isn't selected", () => {
+    expect(parseTimetableText("Jumatatu 08:00 - 09:00 Hisabati", ["en"])).toEqual([]);
+  });
+
+  it("reads compact day codes only next to the time or at the start of the line", () => {
+    const parsed = parseTimetableText("MWF 9-10am Calculus\n2:00-3:15pm TTh Chemistry\n10:00-11:00 Intro to FFT Methods", ["en"]);
+    expect(parsed.map(c => [c.title, c.dayOfWeek])).toEqual([
+      ["Calculus", 1], ["Calculus", 3], ["Calculus", 5], ["Chemistry", 2], ["Chemistry", 4],
+    ]);
+  });
+
+  it("ignores words that look like day codes under a day header", () => {
+    const parsed = parseTimetableText("Monday\n9:00-10:00 RF Circuits\nFFT 11:00-12:00 Methods", ["en"]);
+    expect(parsed.map(c => [c.title, c.dayOfWeek])).toEqual([["RF Circuits", 1], ["FFT Methods", 1]]);
+  });
+
+  it("still reads English timetables", () => {
+    const parsed = parseTimetableText("Mon/Wed 9-10:30am CS101 Lecture", ["en"]);
+    expect(parsed.map(c => [c.dayOfWeek, c.startTime, c.endTime, c.courseCode])).toEqual([
+      [1, "09:00", "10:30", "CS101"],
+      [3, "09:00", "10:30", "CS101"],
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { isAbortError, parseTimetableFile, ParseRequest, ParseResponse } from "@/lib/timetableParsing";
+import { ParseResult, parseImageTimetable } from "@/lib/pdfParser";
+
+vi.mock("@/lib/pdfParser", () => ({
+  parsePDFTimetable: vi.fn(),
+  parseImageTimetable: vi.fn(),
+}));
+
+// Stands in for the parsing worker: records what it is sent and replies on demand
+class StubWorker extends EventTarget {
+  static instances: StubWorker[] = [];
+  received: ParseRequest[] = [];
+  terminate = vi.fn();
+
+  constructor() {
+    super();
+    StubWorker.instances.push(this);
+  }
+
+  postMessage(request: ParseRequest) {
+    this.received.push(request);
+  }
+
+  reply(response: ParseResponse) {
+    this.dispatchEvent(new MessageEvent("message", { data: response }));
+  }
+}
+
+const file = new File(["%PDF-1.4"], "timetable.pdf", { type: "application/pdf" });
+const result: ParseResult = { classes: [], fingerprint: ["monday", "room"] };
+
+// Attach a rejection handler straight away so fake-timer rejections aren't reported as unhandled
+const settle = (promise: Promise<unknown>) => promise.then(() => "resolved", error => error);
+
+beforeEach(() => {
+  StubWorker.instances = [];
+  vi.stubGlobal("Worker", StubWorker);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("parseTimetableFile", () => {
+  it("sends the file to a worker and resolves with its result", async () => {
+    const parsing = parseTimetableFile(file, "pdf", undefined, { languages: ["en"] });
+    const [worker] = StubWorker.instances;
+    expect(worker.received).toEqual([{ type: "parse", file, kind: "pdf", languages: ["en"] }]);
+
+    worker.reply({ type: "done", result });
+    await expect(parsing).resolves.toBe(result);
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an already-aborted signal without starting a worker", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await settle(parseTimetableFile(file, "pdf", undefined, { signal: controller.signal }));
+    expect(isAbortError(error)).toBe(true);
+    expect(StubWorker.instances).toEqual([]);
+  });
+
+  it("asks the worker to cancel and rejects with an AbortError once it has", async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+    const parsing = settle(parseTimetableFile(file, "image", onProgress, { signal: controller.signal }));
+    const [worker] = StubWorker.instances;
+
+    controller.abort();
+    expect(worker.received.at(-1)).toEqual({ type: "cancel" });
+    expect(worker.terminate).not.toHaveBeenCalled();
+
+    // Progress still in flight from before the cancel isn't relayed
+    worker.reply({ type: "progress", progress: { stage: "ocr", progress: 50, message: "Reading text..." } });
+    worker.reply({ type: "cancelled" });
+
+    expect(isAbortError(await parsing)).toBe(true);
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+
+    // The grace timer was cleared along with the worker
+    vi.runAllTimers();
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it("terminates a worker that doesn't stop within the grace period", async () => {
+    const controller = new AbortController();
+    let settled = false;
+    const parsing = settle(parseTimetableFile(file, "image", undefined, { signal: controller.signal }))
+      .finally(() => { settled = true; });
+    const [worker] = StubWorker.instances;
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(settled).toBe(false);
+    expect(worker.terminate).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(isAbortError(await parsing)).toBe(true);
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("timetableWorker", () => {
+  // The worker listens on its global scope, which is the window here
+  const send = (request: ParseRequest) => self.dispatchEvent(new MessageEvent("message", { data: request }));
+
+  it("aborts the parse on cancel and reports it cancelled", async () => {
+    const posted: ParseResponse[] = [];
+    vi.spyOn(self, "postMessage").mockImplementation((message: ParseResponse) => { posted.push(message); });
+    let parseSignal: AbortSignal;
+    vi.mocked(parseImageTimetable).mockImplementation((_file, _onProgress, { signal }) => {
+      parseSignal = signal;
+      return new Promise((_resolve, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+    });
+    await import("@/lib/timetableWorker");
+
+    send({ type: "parse", file, kind: "image" });
+    expect(parseSignal.aborted).toBe(false);
+
+    send({ type: "cancel" });
+    await vi.waitFor(() => expect(posted).toEqual([{ type: "cancelled" }]));
+    expect(parseSignal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { parseTimetableText } from "@/lib/pdfParser";
+import { TimetableTemplate } from "@/lib/db";
+import {
+  createTemplateFile,
+  draftTemplate,
+  getHeaderFingerprint,
+  isValidPattern,
+  parseTemplateFile,
+  patternFromExamples,
+  selectTemplate,
+} from "@/lib/timetableTemplates";
+
+const template = (overrides: Partial<TimetableTemplate> = {}): TimetableTemplate => ({
+  id: "t1",
+  name: "State University",
+  fingerprint: getHeaderFingerprint("State University\nFaculty of Science - Class Timetable"),
+  timeFormat: "auto",
+  ignorePatterns: [],
+  createdAt: 1,
+  updatedAt: 1,
+  ...overrides,
+});
+
+// Example values and the pattern worked out from them
+const PATTERN_FIXTURES: [string[], string | undefined][] = [
+  [["B204", "C110"], String.raw`(?<!\w)[A-Z]\d{3}(?!\w)`],
+  [["LT1", "LT12"], String.raw`(?<!\w)[A-Z]{2}\d{1,2}(?!\w)`],
+  [["Room 101", "Room 12"], String.raw`(?<!\w)Room\s+\d{2,3}(?!\w)`],
+  [["B-204", "LT1"], String.raw`(?<!\w)(?:[A-Z]\-\d{3}|[A-Z]{2}\d)(?!\w)`],
+  [["", "  "], undefined],
+];
+
+describe("patternFromExamples", () => {
+  it.each(PATTERN_FIXTURES)("%j", (values, expected) => {
+    expect(patternFromExamples(values)).toBe(expected);
+  });
+
+  it("matches codes written like the examples but not inside longer ones", () => {
+    const pattern = new RegExp(patternFromExamples(["B204"])!);
+    expect("Physics D310".match(pattern)?.[0]).toBe("D310");
+    expect(pattern.test("CS1010")).toBe(false);
+  });
+});
+
+describe("selectTemplate", () => {
+  it("picks the template whose header matches the document's", () => {
+    const other = template({ id: "t2", fingerprint: getHeaderFingerprint("City College Semester Schedule") });
+    const fingerprint = getHeaderFingerprint("STATE UNIVERSITY\nFaculty of Science - Class Timetable 2026\nMonday");
+    expect(selectTemplate([other, template()], fingerprint)?.id).toBe("t1");
+  });
+
+  it("ignores templates that only share a few words", () => {
+    const fingerprint = getHeaderFingerprint("City University\nClass Timetable");
+    expect(selectTemplate([template()], fingerprint)).toBeNull();
+  });
+});
+
+describe("parseTimetableText with a template", () => {
+  it("reads the day from its column and carries it down blank cells", () => {
+    const text = ["Monday\t9:00-10:00\tPhysics", "\t11:00-12:00\tChemistry", "Wednesday\t14:00-15:00\tBiology"].join("\n");
+    const parsed = parseTimetableText(text, ["en"], template({ dayColumn: 0 }));
+    expect(parsed.map(c => [c.title, c.dayOfWeek, c.startTime])).toEqual([
+      ["Physics", 1, "09:00"],
+      ["Chemistry", 1, "11:00"],
+      ["Biology", 3, "14:00"],
+    ]);
+  });
+
+  it("uses its room and course code patterns, clock and ignored lines", () => {
+    const text = ["Monday", "11:00-01:00 PHY-10 Optics B204", "Printed 01/09 10:00-11:00 by Registry"].join("\n");
+    const [cls, ...rest] = parseTimetableText(text, ["en"], template({
+      timeFormat: "12h",
+      roomPattern: String.raw`\b[A-Z]\d{3}\b`,
+      courseCodePattern: String.raw`\b[A-Z]{3}-\d{2}\b`,
+      ignorePatterns: ["^printed"],
+    }));
+    expect(rest).toEqual([]);
+    expect(cls).toMatchObject({ title: "Optics", startTime: "11:00", endTime: "13:00", location: "B204", courseCode: "PHY-10" });
+  });
+});
+
+describe("isValidPattern", () => {
+  it.each([
+    [String.raw`(?<!\w)(?:[A-Z]\-\d{3}|[A-Z]{2}\d)(?!\w)`, true],
+    [String.raw`Room\s+[(+*]?\d+`, true],
+    [String.raw`(Lab|Room)?\s*\d+`, true],
+    [String.raw`(?<building>[A-Z]+)(?=\d)\d{2,3}`, true],
+    ["(unclosed", false],
+    ["(a+)+$", false],
+    [String.raw`(?:(\w+\s?))*x`, false],
+    [String.raw`(\d{2}){3,}`, false],
+    ["(a|aa)+", false],
+    ["(a?)+", false],
+    ["a".repeat(301), false],
+  ])("%s is %s", (pattern, valid) => {
+    expect(isValidPattern(pattern)).toBe(valid);
+  });
+});
+
+describe("template files", () => {
+  it("round-trips a template without its ID", () => {
+    const draft = draftTemplate([{ location: "B204", courseCode: "CS101" }], ["state", "university"], template());
+    const parsed = parseTemplateFile(JSON.stringify(createTemplateFile(draft)));
+    expect(parsed).toEqual(draft);
+    expect(parsed).not.toHaveProperty("id");
+  });
+
+  it("rejects files that aren't templates or have broken patterns", () => {
+    expect(() => parseTemplateFile("{")).toThrow("not valid JSON");
+    expect(() => parseTemplateFile(JSON.stringify({ format: "classping-backup" }))).toThrow("not a ClassPing timetable template");
+    const file = createTemplateFile({ ...template(), ignorePatterns: ["(unclosed"] });
+    expect(() => parseTemplateFile(JSON.stringify(file))).toThrow("damaged");
+  });
+
+  // Repeated groups that can match the same text several ways backtrack exponentially
+  it.each(["([A-Z]+\\d*)+$", "(a|a)*", "(a|aa)+", "(\\w|\\d)+$", "(a?)+", "(?:x(?:b|c))*y"])(
+    "refuses a shared template with the pattern %s",
+    (roomPattern) => {
+      const file = createTemplateFile({ ...template(), roomPattern });
+      expect(() => parseTemplateFile(JSON.stringify(file))).toThrow("roomPattern: Not a valid or safe pattern");
+    }
+  );
+});
@@ -1,9 +1,57 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 import { VitePWA } from "vite-plugin-pwa";
 
+// Language data for every timetable language in src/lib/timetableLocales.ts
+const TESSERACT_LANGUAGES = ["eng", "fra", "spa", "deu", "por", "swa"];
+
+// Tesseract's worker, WebAssembly cores and language data, served from
+// /tesseract/ so OCR works without a network connection. Only the LSTM cores are
+// shipped because the app always runs the LSTM engine; Tesseract picks one by
+// browser SIMD support.
+const TESSERACT_ASSETS: Record<string, string> = {
+  "worker.min.js": "node_modules/tesseract.js/dist/worker.min.js",
+  "core/tesseract-core-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "core/tesseract-core-simd-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "core/tesseract-core-relaxedsimd-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js",
+  ...Object.fromEntries(TESSERACT_LANGUAGES.map(language => [
+    `lang/${language}.traineddata.gz`,
+    `node_modules/@tesseract.js-data/${language}/4.0.0_best_int/${language}.traineddata.gz`,
+  ])),
+};
+
+function tesseractAssets(): Plugin {
+  const resolve = (source: string) => path.resolve(__dirname, source);
+
+  return {
+    name: "classping-tesseract-assets",
+    configureServer(server) {
+      server.middlewares.use("/tesseract", (req, res, next) => {
+        const source = TESSERACT_ASSETS[(req.url ?? "").slice(1).split("?")[0]];
+        if (!source) return next();
+        res.setHeader("Content-Type", source.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+        fs.createReadStream(resolve(source))
+          // A language package that isn't installed shouldn't take the dev server down
+          .on("error", () => {
+            if (res.headersSent) return res.destroy();
+            res.statusCode = 404;
+            res.removeHeader("Content-Type");
+            res.end();
+          })
+          .pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [fileName, source] of Object.entries(TESSERACT_ASSETS)) {
+        this.emitFile({ type: "asset", fileName: `tesseract/${fileName}`, source: fs.readFileSync(resolve(source)) });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -16,6 +64,11 @@ export default defineConfig(({ mode }) => ({
   build: {
     target: 'es2022',
   },
+  // The parsing worker pulls in pdf.js, which splits into chunks; IIFE workers can't
+  // load chunks, so workers are built as ES modules
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     esbuildOptions: {
       target: 'es2022',
@@ -24,6 +77,7 @@ export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
     mode === "development" && componentTagger(),
+    tesseractAssets(),
     VitePWA({
       registerType: "autoUpdate",
       includeAssets: ["favicon.ico", "pwa-192x192.png", "pwa-512x512.png"],
@@ -59,41 +113,22 @@ export default defineConfig(({ mode }) => ({
         ],
         categories: ["education", "productivity"],
       },
-      workbox: {
-        globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
-        runtimeCaching: [
-          {
-            urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
-            handler: "CacheFirst",
-            options: {
-              cacheName: "google-fonts-cache",
-              expiration: {
-                maxEntries: 10,
-                maxAgeSeconds: 60 * 60 * 24 * 365, // 1 year
-              },
-              cacheableResponse: {
-                statuses: [0, 200],
-              },
-            },
-          },
-          {
-            urlPattern: /^https:\/\/fonts\.gstatic\.com\/.*/i,
-            handler: "CacheFirst",
-            options: {
-              cacheName: "gstatic-fonts-cache",
-              expiration: {
-                maxEntries: 10,
-                maxAgeSeconds: 60 * 60 * 24 * 365, // 1 year
-              },
-              cacheableResponse: {
-                statuses: [0, 200],
-              },
-            },
-          },
-        ],
+      // Custom service worker (src/sw.ts) shares the reminder engine and DB schema with the app
+      strategies: "injectManifest",
+      srcDir: "src",
+      filename: "sw.ts",
+      injectManifest: {
+        // mjs for the pdf.js worker. Of the OCR data only English is installed up
+        // front; the cores (about 4 MB each) and other languages are cached by
+        // src/sw.ts the first time they're used.
+        globPatterns: ["**/*.{js,mjs,css,html,ico,png,svg,woff2}", "tesseract/lang/eng.traineddata.gz"],
+        globIgnores: ["tesseract/core/**"],
+        // English language data is about 3 MB
+        maximumFileSizeToCacheInBytes: 4 * 1024 * 1024,
       },
       devOptions: {
         enabled: true,
+        type: "module",
       },
     }),
   ].filter(Boolean),